@@ -2,10 +2,18 @@
 
 import { formatDateTime } from "@/lib/format";
 import { phoneLookupSchema } from "@/lib/phone";
-import { startOutboundCall } from "@/lib/elevenlabs";
+import { classifyCallFailure, describeRetry } from "@/lib/call-retry";
+import { findActiveLookup } from "@/lib/calls/active-call";
+import { placeCall, scheduleRetry } from "@/lib/calls/dispatch";
+import { refreshStaleProfile } from "@/lib/calls/profile-refresh";
+import { describeNumber, getNumberIntelligence, isCallableNumber, NUMBER_TYPE_LABELS } from "@/lib/number-intelligence";
+import { assessProfileFreshness } from "@/lib/profile-freshness";
+import { checkSpendBudget, QUOTA_EXCEEDED_MESSAGES, type SpendPeriod } from "@/lib/call-spend";
+import { consumeLookupRateLimits, RATE_LIMIT_MESSAGES, type RateLimitScope } from "@/lib/rate-limit";
 import { recordCallAttempt } from "@/lib/supabase/call-attempts";
-import { fetchProfileWithRecord, recordLookup } from "@/lib/supabase/lookups";
-import type { LookupStatus } from "@/lib/supabase/types";
+import { claimActiveLookup, fetchProfileWithRecord, recordLookup, updateLookupStatus } from "@/lib/supabase/lookups";
+import { isNumberSuppressed } from "@/lib/supabase/suppressions";
+import { getVisitorIdentity } from "@/lib/visitor";
 
 export type LookupResult =
   | {
@@ -15,6 +23,10 @@ export type LookupResult =
       lastChecked: string;
       summary: string;
       confidence: number;
+      /** A re-verification call for this stale result is running (lib/profile-freshness.ts). */
+      refreshing?: boolean;
+      /** Type and place of the number (lib/number-intelligence.ts). */
+      numberDescription?: string;
       lookupId?: string;
       debugMessage?: string;
     }
@@ -24,6 +36,7 @@ export type LookupResult =
       etaSeconds: number;
       message: string;
       lookupId: string;
+      numberDescription?: string;
       debugMessage?: string;
     }
   | {
@@ -32,10 +45,61 @@ export type LookupResult =
       message: string;
       lookupId?: string;
       debugMessage?: string;
+    }
+  | {
+      state: "suppressed";
+      normalized: string;
+      message: string;
+      lookupId?: undefined;
+      debugMessage?: string;
+    }
+  | {
+      state: "quota_exceeded";
+      normalized: string;
+      message: string;
+      period: SpendPeriod;
+      /** ISO time the budget for `period` starts over. */
+      resetsAt: string;
+      lookupId?: undefined;
+      debugMessage?: string;
+    }
+  | {
+      state: "rate_limited";
+      normalized: string;
+      message: string;
+      scope: RateLimitScope;
+      /** ISO time from which a new lookup that needs a call is accepted again. */
+      retryAt: string;
+      retryAfterSeconds: number;
+      lookupId?: undefined;
+      debugMessage?: string;
     };
 
 const isDev = process.env.NODE_ENV !== "production";
 
+/** A lookup for a number that is already being called follows that call instead of dialing again. */
+function attachToActiveLookup(
+  normalized: string,
+  { lookup, attempt }: NonNullable<Awaited<ReturnType<typeof findActiveLookup>>>,
+  numberDescription: string
+): LookupResult {
+  const scheduledFor = attempt?.status === "retry_scheduled" ? attempt.scheduled_for : null;
+  const secondsUntilRetry = scheduledFor
+    ? Math.max(0, Math.round((new Date(scheduledFor).getTime() - Date.now()) / 1000))
+    : 0;
+
+  console.log("🔗 Attaching lookup to active call:", { normalized, lookupId: lookup.id });
+
+  return {
+    state: "calling",
+    normalized,
+    etaSeconds: secondsUntilRetry + 60,
+    message: "Dit nummer wordt op dit moment al gebeld. Je volgt dezelfde call.",
+    lookupId: lookup.id,
+    numberDescription
+  };
+}
+
 export async function lookupPhoneNumber(input: { phoneNumber: string }): Promise<LookupResult> {
   const rawInput = input.phoneNumber;
   const { phoneNumber: normalized } = phoneLookupSchema.parse(input);
@@ -43,23 +107,35 @@ export async function lookupPhoneNumber(input: { phoneNumber: string }): Promise
   // Simulate network latency to mirror real call scheduling.
   await new Promise((resolve) => setTimeout(resolve, 900));
 
-  let status: LookupStatus = "calling";
-  let profileId: string | null = null;
+  // Numbers on the opt-out list are never dialed and no lookup is stored for them.
+  if (await isNumberSuppressed(normalized)) {
+    return {
+      state: "suppressed",
+      normalized,
+      message: "Dit nummer is op verzoek van de eigenaar verwijderd. We bellen het niet en tonen geen gegevens."
+    };
+  }
 
+  const numberInfo = await getNumberIntelligence(normalized);
+  const numberDescription = describeNumber(numberInfo);
   const supabaseProfile = await fetchProfileWithRecord(normalized);
 
   if (supabaseProfile) {
     const { profile, record } = supabaseProfile;
-    status = "cached";
-    profileId = record.id;
+
+    // Old, doubtful or disputed results are served while a new call re-checks them.
+    const freshness = assessProfileFreshness(record);
+    const refreshing = freshness.stale
+      ? (await refreshStaleProfile({ normalized, rawInput, freshness })) !== null
+      : false;
 
     let cachedLookupId: string | null = null;
     try {
       cachedLookupId = await recordLookup({
         normalized,
         rawInput,
-        status,
-        profileId
+        status: "cached",
+        profileId: record.id
       });
     } catch (error) {
       const debugMessage =
@@ -72,6 +148,8 @@ export async function lookupPhoneNumber(input: { phoneNumber: string }): Promise
         lastChecked: formatDateTime(profile.lastChecked),
         summary: profile.summary,
         confidence: profile.confidence,
+        refreshing,
+        numberDescription,
         lookupId: cachedLookupId ?? undefined,
         debugMessage: isDev ? debugMessage : undefined
       };
@@ -84,20 +162,81 @@ export async function lookupPhoneNumber(input: { phoneNumber: string }): Promise
       lastChecked: formatDateTime(profile.lastChecked),
       summary: profile.summary,
       confidence: profile.confidence,
+      refreshing,
+      numberDescription,
       lookupId: cachedLookupId ?? undefined
     };
   }
 
-  status = "calling";
-  let lookupId: string;
+  // Premium-rate numbers charge the caller per minute; they are never dialed.
+  if (!isCallableNumber(numberInfo)) {
+    console.log("🚫 Not calling number of this type:", { normalized, type: numberInfo.type });
+
+    return {
+      state: "not_found",
+      normalized,
+      message: `Dit is een ${NUMBER_TYPE_LABELS[numberInfo.type].toLowerCase()}. Zulke nummers bellen we niet, omdat elke minuut geld kost.`
+    };
+  }
+
+  // Anyone else looking up this number while its call runs gets the same result; no second call.
+  const activeLookup = await findActiveLookup(normalized);
+  if (activeLookup) {
+    return attachToActiveLookup(normalized, activeLookup, numberDescription);
+  }
 
+  // Every call costs money: stop dialing once the spend budget is used up, and limit calls
+  // per visitor, per number and in total before anything is stored.
   try {
-    lookupId = (await recordLookup({
+    const budget = await checkSpendBudget();
+    if (!budget.allowed) {
+      console.log("💸 Call spend budget reached:", budget);
+
+      return {
+        state: "quota_exceeded",
+        normalized,
+        message: QUOTA_EXCEEDED_MESSAGES[budget.period],
+        period: budget.period,
+        resetsAt: budget.resetsAt
+      };
+    }
+
+    const { visitorHash, ipBucket } = getVisitorIdentity();
+    const rateLimit = await consumeLookupRateLimits({ visitorHash, ipBucket, normalized });
+
+    if (!rateLimit.allowed) {
+      console.log("🚦 Lookup rate limited:", {
+        normalized,
+        scope: rateLimit.scope,
+        retryAt: rateLimit.retryAt
+      });
+
+      return {
+        state: "rate_limited",
+        normalized,
+        message: RATE_LIMIT_MESSAGES[rateLimit.scope],
+        scope: rateLimit.scope,
+        retryAt: rateLimit.retryAt,
+        retryAfterSeconds: rateLimit.retryAfterSeconds
+      };
+    }
+  } catch (error) {
+    const debugMessage = error instanceof Error ? error.message : "Onbekende fout tijdens budget- of rate-limitcontrole.";
+    console.error("❌ Budget or rate limit check failed:", debugMessage);
+
+    return {
+      state: "not_found",
       normalized,
-      rawInput,
-      status,
-      profileId
-    })) as string;
+      message: "We konden je lookup niet registreren. Probeer het later opnieuw.",
+      debugMessage: isDev ? debugMessage : undefined
+    };
+  }
+
+  // The unique index on active lookups per number decides concurrent requests: only the winner dials.
+  let lookupId: string | null;
+
+  try {
+    lookupId = await claimActiveLookup({ normalized, rawInput });
   } catch (error) {
     const debugMessage =
       error instanceof Error ? error.message : "Onbekende fout tijdens Supabase-opslaan.";
@@ -111,7 +250,12 @@ export async function lookupPhoneNumber(input: { phoneNumber: string }): Promise
   }
 
   if (!lookupId) {
-    const debugMessage = "Geen lookup-id ontvangen van Supabase.";
+    const winner = await findActiveLookup(normalized);
+    if (winner) {
+      return attachToActiveLookup(normalized, winner, numberDescription);
+    }
+
+    const debugMessage = "Een gelijktijdige lookup voor dit nummer is al afgerond.";
     return {
       state: "not_found",
       normalized,
@@ -121,158 +265,59 @@ export async function lookupPhoneNumber(input: { phoneNumber: string }): Promise
   }
 
   try {
-    // Check if DEV_DEBUG is enabled (or legacy DISABLE_ELEVENLABS_CALLS for backward compatibility)
-    // DEV_DEBUG=true means use mock calls (for debugging/testing without API costs)
-    // DEV_DEBUG=false means use real ElevenLabs calls (same as production behavior)
-    // DEV_DEBUG not set: in dev use mock calls, in production use real calls
-    // In production, always use real calls regardless of DEV_DEBUG setting
-    
-    // Read environment variables with proper normalization
-    const rawDevDebug = process.env.DEV_DEBUG;
-    const rawDisableCalls = process.env.DISABLE_ELEVENLABS_CALLS; // Legacy support
-    const DEV_DEBUG_VALUE = rawDevDebug?.toLowerCase().trim();
-    const DISABLE_CALLS_VALUE = rawDisableCalls?.toLowerCase().trim();
-    const isProduction = process.env.NODE_ENV === "production";
-    
-    // Determine whether to use mock calls:
-    // Priority: DEV_DEBUG > DISABLE_ELEVENLABS_CALLS (legacy)
-    // - Production: always use real calls
-    // - Development: 
-    //   - If DEV_DEBUG is explicitly "true", use mock calls
-    //   - If DEV_DEBUG is explicitly "false", use real calls
-    //   - If DEV_DEBUG is not set, check legacy DISABLE_ELEVENLABS_CALLS
-    //   - If neither is set, use mock calls (default behavior)
-    const DEV_DEBUG_ENABLED = DEV_DEBUG_VALUE === "true";
-    const DEV_DEBUG_DISABLED = DEV_DEBUG_VALUE === "false";
-    
-    // Legacy support: DISABLE_ELEVENLABS_CALLS=true means disable (use mock), false means enable (use real)
-    const LEGACY_DISABLE_CALLS = DISABLE_CALLS_VALUE === "true";
-    const LEGACY_ENABLE_CALLS = DISABLE_CALLS_VALUE === "false";
-    
-    // In production, always use real calls
-    // In development: determine based on DEV_DEBUG or legacy variable
-    let USE_MOCK_CALLS: boolean;
-    if (isProduction) {
-      USE_MOCK_CALLS = false; // Always real calls in production
-    } else if (DEV_DEBUG_VALUE !== undefined) {
-      // DEV_DEBUG is explicitly set (true or false)
-      // DEV_DEBUG=true means use mock calls, DEV_DEBUG=false means use real calls
-      USE_MOCK_CALLS = DEV_DEBUG_ENABLED;
-    } else if (DISABLE_CALLS_VALUE !== undefined) {
-      // Legacy: DISABLE_ELEVENLABS_CALLS is set
-      USE_MOCK_CALLS = LEGACY_DISABLE_CALLS;
-    } else {
-      // Neither is set: default to mock calls in dev
-      USE_MOCK_CALLS = true;
-    }
-    
-    // Always log in development for debugging
-    if (isDev) {
-      console.log("🔍 Call configuration:", {
-        DEV_DEBUG: {
-          rawValue: rawDevDebug,
-          normalizedValue: DEV_DEBUG_VALUE,
-          isEnabled: DEV_DEBUG_ENABLED,
-          isDisabled: DEV_DEBUG_DISABLED
-        },
-        legacy_DISABLE_ELEVENLABS_CALLS: {
-          rawValue: rawDisableCalls,
-          normalizedValue: DISABLE_CALLS_VALUE,
-          isDisabled: LEGACY_DISABLE_CALLS,
-          isEnabled: LEGACY_ENABLE_CALLS
-        },
-        result: {
-          isProduction,
-          useMockCalls: USE_MOCK_CALLS,
-          willUseRealCalls: !USE_MOCK_CALLS
-        },
-        phoneNumber: normalized,
-        allEnvKeys: Object.keys(process.env).filter(key => 
-          key.includes("DEV") || key.includes("DEBUG") || key.includes("DISABLE_ELEVENLABS")
-        )
-      });
-    }
-    
-    let response: { success: boolean; message?: string; conversation_id: string | null; callSid?: string | null };
-    
-    if (USE_MOCK_CALLS) {
-      // Mock response for testing - generates a fake conversation_id
-      const mockConversationId = `mock_conv_${lookupId}_${Date.now()}`;
-      response = {
-        success: true,
-        message: "Mock call scheduled (ElevenLabs calls disabled for testing)",
-        conversation_id: mockConversationId,
-        callSid: `mock_call_${Date.now()}`
-      };
-      
-      if (isDev) {
-        console.log("🔧 Mock call created (DEV_DEBUG=true):", {
-          lookupId,
-          conversationId: mockConversationId,
-          phoneNumber: normalized
-        });
-      }
-    } else {
-      // Real call
-      if (isDev) {
-        console.log("📞 Starting real ElevenLabs call:", {
-          phoneNumber: normalized,
-          lookupId,
-          hasApiKey: !!process.env.ELEVENLABS_API_KEY,
-          hasAgentId: !!process.env.ELEVENLABS_AGENT_ID,
-          hasPhoneNumberId: !!process.env.ELEVENLABS_PHONE_NUMBER_ID
-        });
-      }
-      
-      try {
-        response = await startOutboundCall({
-          phoneNumber: normalized,
-          metadata: {
-            lookupId,
-            source: "web_lookup",
-            normalized,
-            rawInput
-          }
-        });
-        
-        if (isDev) {
-          console.log("✅ ElevenLabs call started successfully:", {
-            conversationId: response.conversation_id,
-            callSid: response.callSid,
-            message: response.message
-          });
-        }
-      } catch (callError) {
-        const errorMessage = callError instanceof Error ? callError.message : String(callError);
-        if (isDev) {
-          console.error("❌ ElevenLabs call failed:", {
-            error: errorMessage,
-            phoneNumber: normalized,
-            lookupId
-          });
-        }
-        throw callError; // Re-throw to be caught by outer try-catch
-      }
-    }
+    const placed = await placeCall({ lookupId, normalized, rawInput });
 
     await recordCallAttempt({
       lookupId,
       status: "scheduled",
-      conversationId: response.conversation_id,
-      elevenLabsStatus: response.message ?? null,
+      conversationId: placed.conversationId,
+      elevenLabsStatus: placed.message,
       payload: {
-        callSid: response.callSid ?? null,
-        mock: USE_MOCK_CALLS ? true : undefined
+        callSid: placed.callSid,
+        provider: placed.provider,
+        mock: placed.mock ? true : undefined
       }
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Onbekende fout";
-    await recordCallAttempt({
+    if (isDev) {
+      console.error("❌ Call failed:", {
+        error: message,
+        phoneNumber: normalized,
+        lookupId
+      });
+    }
+
+    const failedAttempt = await recordCallAttempt({
       lookupId,
       status: "failed",
       errorMessage: message
     });
 
+    // Provider hiccups get a second attempt a bit later instead of ending the lookup.
+    const reason = classifyCallFailure({ errorMessage: message }) ?? "provider_error";
+    const retry = failedAttempt ? await scheduleRetry(failedAttempt, reason) : null;
+
+    if (retry?.scheduled_for) {
+      const secondsUntilRetry = Math.max(
+        0,
+        Math.round((new Date(retry.scheduled_for).getTime() - Date.now()) / 1000)
+      );
+
+      return {
+        state: "calling",
+        normalized,
+        etaSeconds: secondsUntilRetry + 60,
+        message: `De eerste poging lukte niet. ${describeRetry(retry.attempt_number, retry.scheduled_for)}.`,
+        lookupId,
+        numberDescription,
+        debugMessage: isDev ? message : undefined
+      };
+    }
+
+    // Release the number so a later lookup can dial it again.
+    await updateLookupStatus(lookupId, "failed");
+
     return {
       state: "not_found",
       normalized,
@@ -287,6 +332,7 @@ export async function lookupPhoneNumber(input: { phoneNumber: string }): Promise
     normalized,
     etaSeconds: 60,
     message: "Onze AI-agent belt het nummer nu. Binnen enkele minuten staat het resultaat hier.",
-    lookupId
+    lookupId,
+    numberDescription
   };
 }
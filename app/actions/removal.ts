@@ -0,0 +1,250 @@
+"use server";
+
+import { removalConfirmationSchema, removalRequestSchema } from "@/lib/forms";
+import { consumeVerificationRateLimits, VERIFICATION_RATE_LIMIT_MESSAGES } from "@/lib/rate-limit";
+import { revalidateProfile } from "@/lib/revalidation";
+import {
+  claimVerificationAttempt,
+  completeVerifiedRemoval,
+  getRemovalRequestById,
+  markRemovalRequestVerified,
+  recordRemovalRequest,
+  revokeVerificationCodes,
+  setRemovalRequestCode
+} from "@/lib/supabase/suppressions";
+import type { VerificationMethod } from "@/lib/supabase/types";
+import {
+  MAX_VERIFICATION_ATTEMPTS,
+  VERIFICATION_CODE_TTL_MS,
+  generateVerificationCode,
+  getVerificationSender,
+  hashVerificationCode,
+  isVerificationCodeValid
+} from "@/lib/verification";
+import { getVisitorIdentity } from "@/lib/visitor";
+
+type RemovalRequestCodeSent = {
+  status: "code_sent";
+  message: string;
+  requestId: string;
+  method: VerificationMethod;
+};
+
+type RemovalRequestError = {
+  status: "error";
+  message: string;
+};
+
+export type RemovalRequestResult = RemovalRequestCodeSent | RemovalRequestError;
+
+type RemovalConfirmationSuccess = {
+  status: "success";
+  message: string;
+};
+
+export type RemovalConfirmationResult = RemovalConfirmationSuccess | RemovalRequestError;
+
+const isDev = process.env.NODE_ENV !== "production";
+
+const CODE_SENT_MESSAGES: Record<VerificationMethod, string> = {
+  sms: "We hebben een sms met een 6-cijferige code naar dit nummer gestuurd.",
+  voice: "We bellen dit nummer zo en lezen een 6-cijferige code voor.",
+  email:
+    "We hebben een e-mail met een 6-cijferige code gestuurd. Na bevestiging beoordelen we je verzoek; een e-mailadres bewijst niet dat het nummer van jou is."
+};
+
+/**
+ * Step 1: store the removal request and send a one-time code to prove ownership.
+ * Every code costs money and lands on someone's phone, so sends are rate limited per visitor,
+ * network and number. A new code replaces any earlier one for the number that was not used yet.
+ */
+export async function requestNumberRemoval(input: {
+  phoneNumber: string;
+  method: string;
+  email?: string;
+  reason?: string;
+}): Promise<RemovalRequestResult> {
+  const parsed = removalRequestSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      status: "error",
+      message: parsed.error.issues[0]?.message ?? "Controleer je gegevens en probeer het opnieuw."
+    };
+  }
+
+  const { phoneNumber, method, email, reason } = parsed.data;
+
+  try {
+    const { visitorHash, ipBucket } = getVisitorIdentity();
+    const rateLimit = await consumeVerificationRateLimits({ visitorHash, ipBucket, normalized: phoneNumber });
+    if (!rateLimit.allowed) {
+      console.log("🚦 Removal verification rate limited:", { scope: rateLimit.scope, retryAt: rateLimit.retryAt });
+
+      return {
+        status: "error",
+        message: `${VERIFICATION_RATE_LIMIT_MESSAGES[rateLimit.scope]} Probeer het later opnieuw.`
+      };
+    }
+
+    await revokeVerificationCodes(phoneNumber);
+
+    const requestId = await recordRemovalRequest({
+      normalized: phoneNumber,
+      contactEmail: email ?? null,
+      reason: reason ?? null,
+      verificationMethod: method
+    });
+
+    if (!requestId) {
+      return {
+        status: "error",
+        message: "We konden je verzoek niet opslaan. Probeer het later opnieuw."
+      };
+    }
+
+    const code = generateVerificationCode();
+    await setRemovalRequestCode(
+      requestId,
+      hashVerificationCode(requestId, code),
+      new Date(Date.now() + VERIFICATION_CODE_TTL_MS)
+    );
+
+    await getVerificationSender(method).sendCode({
+      method,
+      to: method === "email" ? (email as string) : phoneNumber,
+      code
+    });
+
+    return {
+      status: "code_sent",
+      message: CODE_SENT_MESSAGES[method],
+      requestId,
+      method
+    };
+  } catch (error) {
+    if (isDev) {
+      console.error("❌ Failed to start removal verification:", error);
+    }
+    return {
+      status: "error",
+      message: "We konden geen verificatiecode versturen. Probeer het later opnieuw."
+    };
+  }
+}
+
+/**
+ * Step 2: check the code. A valid SMS or voice code hides the profile and adds the number to the
+ * opt-out list; a valid e-mail code queues the request for admin review.
+ */
+export async function confirmNumberRemoval(input: {
+  requestId: string;
+  code: string;
+}): Promise<RemovalConfirmationResult> {
+  const parsed = removalConfirmationSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      status: "error",
+      message: parsed.error.issues[0]?.message ?? "Controleer de code en probeer het opnieuw."
+    };
+  }
+
+  const { requestId, code } = parsed.data;
+  const request = await getRemovalRequestById(requestId);
+
+  if (!request || request.status !== "pending" || !request.code_hash || !request.code_expires_at) {
+    return {
+      status: "error",
+      message: "Dit verzoek is niet (meer) geldig. Dien een nieuw verzoek in."
+    };
+  }
+
+  if (new Date(request.code_expires_at).getTime() < Date.now()) {
+    return {
+      status: "error",
+      message: "De code is verlopen. Dien een nieuw verzoek in."
+    };
+  }
+
+  // Claimed before the code is compared, so parallel guesses each use up an attempt.
+  let attempts: number | null;
+  try {
+    attempts = await claimVerificationAttempt(request.id, MAX_VERIFICATION_ATTEMPTS);
+  } catch (error) {
+    if (isDev) {
+      console.error("❌ Failed to count verification attempt:", error);
+    }
+    return {
+      status: "error",
+      message: "We konden je code niet controleren. Probeer het later opnieuw."
+    };
+  }
+
+  if (attempts === null) {
+    return {
+      status: "error",
+      message: "Te veel onjuiste pogingen. Dien een nieuw verzoek in."
+    };
+  }
+
+  if (!isVerificationCodeValid(request.id, code, request.code_hash)) {
+    const remaining = MAX_VERIFICATION_ATTEMPTS - attempts;
+    return {
+      status: "error",
+      message:
+        remaining > 0
+          ? `Onjuiste code. Je hebt nog ${remaining} ${remaining === 1 ? "poging" : "pogingen"}.`
+          : "Onjuiste code. Dien een nieuw verzoek in."
+    };
+  }
+
+  // A code sent to an e-mail address the visitor typed in does not prove they own the number.
+  if (request.verification_method === "email") {
+    try {
+      const verified = await markRemovalRequestVerified(request.id);
+      if (!verified) {
+        return {
+          status: "error",
+          message: "Dit verzoek is al afgehandeld."
+        };
+      }
+    } catch (error) {
+      if (isDev) {
+        console.error("❌ Failed to mark removal request verified:", error);
+      }
+      return {
+        status: "error",
+        message: "We konden je verzoek niet bevestigen. Probeer het later opnieuw."
+      };
+    }
+
+    return {
+      status: "success",
+      message:
+        "Je e-mailadres is bevestigd. We beoordelen je verzoek en verwijderen het nummer zodra het is goedgekeurd."
+    };
+  }
+
+  try {
+    const completed = await completeVerifiedRemoval(request.id);
+    if (!completed) {
+      return {
+        status: "error",
+        message: "Dit verzoek is al afgehandeld."
+      };
+    }
+    await revalidateProfile(completed.normalized, "removal");
+  } catch (error) {
+    if (isDev) {
+      console.error("❌ Failed to complete verified removal:", error);
+    }
+    return {
+      status: "error",
+      message: "We konden je nummer niet verwijderen. Probeer het later opnieuw."
+    };
+  }
+
+  return {
+    status: "success",
+    message: "Je nummer is verwijderd. We tonen geen gegevens meer en bellen dit nummer niet."
+  };
+}
@@ -0,0 +1,118 @@
+"use server";
+
+import { profileReportSchema } from "@/lib/forms";
+import { revalidateProfile } from "@/lib/revalidation";
+import { fetchProfileRecordByNumber } from "@/lib/supabase/lookups";
+import {
+  countRecentReportsFromIpBucket,
+  getVisitorReport,
+  recountProfileReports,
+  upsertProfileReport
+} from "@/lib/supabase/reports";
+import { isNumberSuppressed } from "@/lib/supabase/suppressions";
+import type { ProfileVote } from "@/lib/supabase/types";
+import { getVisitorIdentity } from "@/lib/visitor";
+
+type ProfileReportSuccess = {
+  status: "success";
+  message: string;
+  vote: ProfileVote;
+  confirmedCount: number;
+  disputedCount: number;
+  confidence: number;
+};
+
+type ProfileReportError = {
+  status: "error";
+  message: string;
+};
+
+export type ProfileReportResult = ProfileReportSuccess | ProfileReportError;
+
+// New votes per profile from one network bucket within the window; changing an existing vote is always allowed.
+const MAX_VOTES_PER_IP_BUCKET = 3;
+const IP_BUCKET_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const isDev = process.env.NODE_ENV !== "production";
+
+export async function submitProfileReport(input: {
+  phoneNumber: string;
+  vote: string;
+  reason: string;
+  note?: string;
+}): Promise<ProfileReportResult> {
+  const parsed = profileReportSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      status: "error",
+      message: parsed.error.issues[0]?.message ?? "Controleer je melding en probeer het opnieuw."
+    };
+  }
+
+  const { phoneNumber, vote, reason, note } = parsed.data;
+
+  if (await isNumberSuppressed(phoneNumber)) {
+    return {
+      status: "error",
+      message: "Dit nummer is op verzoek verwijderd."
+    };
+  }
+
+  const profile = await fetchProfileRecordByNumber(phoneNumber);
+  if (!profile) {
+    return {
+      status: "error",
+      message: "Er is nog geen profiel voor dit nummer om te beoordelen."
+    };
+  }
+
+  try {
+    const { visitorHash, ipBucket } = getVisitorIdentity();
+    const existing = await getVisitorReport(profile.id, visitorHash);
+
+    if (!existing) {
+      const recentVotes = await countRecentReportsFromIpBucket(
+        profile.id,
+        ipBucket,
+        new Date(Date.now() - IP_BUCKET_WINDOW_MS)
+      );
+
+      if (recentVotes === null || recentVotes >= MAX_VOTES_PER_IP_BUCKET) {
+        return {
+          status: "error",
+          message: "Er is vanaf jouw netwerk al gestemd op dit nummer. Probeer het morgen opnieuw."
+        };
+      }
+    }
+
+    await upsertProfileReport({
+      profileId: profile.id,
+      normalized: profile.normalized,
+      vote,
+      reason,
+      note: note ?? null,
+      visitorHash,
+      ipBucket
+    });
+
+    const counts = await recountProfileReports(profile);
+    await revalidateProfile(profile.normalized, "crowd_report");
+
+    return {
+      status: "success",
+      message: existing ? "Je stem is bijgewerkt. Bedankt!" : "Bedankt voor je melding!",
+      vote,
+      confirmedCount: counts.confirmed,
+      disputedCount: counts.disputed,
+      confidence: counts.confidence
+    };
+  } catch (error) {
+    if (isDev) {
+      console.error("❌ Failed to store profile report:", error);
+    }
+    return {
+      status: "error",
+      message: "We konden je melding niet opslaan. Probeer het later opnieuw."
+    };
+  }
+}
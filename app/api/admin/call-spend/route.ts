@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { isAdminRequest } from "@/lib/admin-auth";
+import { getSpendBudgets, TARGET_CALL_SECONDS } from "@/lib/call-spend";
+import { getCallSpend } from "@/lib/supabase/call-spend";
+
+/**
+ * GET /api/admin/call-spend
+ * Billed calls, duration and cost for the current UTC day and month, next to the budgets.
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const spend = await getCallSpend();
+    return NextResponse.json({ spend, budgets: getSpendBudgets(), targetCallSeconds: TARGET_CALL_SECONDS });
+  } catch (error) {
+    console.error("Failed to fetch call spend", error);
+    return NextResponse.json({ error: "Spend unavailable" }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { isAdminRequest } from "@/lib/admin-auth";
+import { phoneNumberSchema } from "@/lib/phone";
+import { revalidateProfile } from "@/lib/revalidation";
+import { editPhoneProfile, fetchProfileRecordByNumber, type ProfileEdit } from "@/lib/supabase/lookups";
+import { listProfileVersions } from "@/lib/supabase/profile-versions";
+
+function toStringList(value: unknown) {
+  return Array.isArray(value) && value.every((item) => typeof item === "string")
+    ? value.map((item) => item.trim()).filter((item) => item.length > 0)
+    : undefined;
+}
+
+/**
+ * Admin endpoint for correcting profiles by hand.
+ * - GET   /api/admin/profiles?phoneNumber=+31...  (profile with all versions and their sources)
+ * - PATCH /api/admin/profiles  { phoneNumber, callerName?, summary?, tags?, aka? }
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const parsed = phoneNumberSchema.safeParse(request.nextUrl.searchParams.get("phoneNumber") ?? "");
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid phone number" },
+      { status: 400 }
+    );
+  }
+
+  const profile = await fetchProfileRecordByNumber(parsed.data);
+  if (!profile) {
+    return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+  }
+
+  const versions = await listProfileVersions(profile.id);
+  return NextResponse.json({ profile, versions });
+}
+
+export async function PATCH(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = (await request.json().catch(() => null)) as
+    | { phoneNumber?: unknown; callerName?: unknown; summary?: unknown; tags?: unknown; aka?: unknown }
+    | null;
+
+  const parsed = phoneNumberSchema.safeParse(body?.phoneNumber);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid phone number" },
+      { status: 400 }
+    );
+  }
+
+  const edit: ProfileEdit = {
+    callerName:
+      typeof body?.callerName === "string" && body.callerName.trim().length > 0 ? body.callerName.trim() : undefined,
+    summary: typeof body?.summary === "string" ? body.summary : body?.summary === null ? null : undefined,
+    tags: toStringList(body?.tags),
+    aka: toStringList(body?.aka)
+  };
+
+  if (Object.values(edit).every((value) => value === undefined)) {
+    return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+  }
+
+  try {
+    const profile = await editPhoneProfile(parsed.data, edit, "admin");
+    if (!profile) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+    await revalidateProfile(profile.normalized, "manual_edit");
+    return NextResponse.json({ profile });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to edit profile" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { isAdminRequest } from "@/lib/admin-auth";
+import { revalidateProfile } from "@/lib/revalidation";
+import { resolveRemovalRequest } from "@/lib/supabase/suppressions";
+
+/**
+ * PATCH /api/admin/removal-requests/:id  { status: "approved" | "rejected" }
+ * Approving a request adds the number to the opt-out list.
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: { id: string } }
+) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = (await request.json().catch(() => null)) as { status?: unknown } | null;
+  const status = body?.status;
+  if (status !== "approved" && status !== "rejected") {
+    return NextResponse.json({ error: "Status must be approved or rejected" }, { status: 400 });
+  }
+
+  try {
+    const resolved = await resolveRemovalRequest(context.params.id, status);
+    if (!resolved) {
+      return NextResponse.json({ error: "Pending removal request not found" }, { status: 404 });
+    }
+    if (resolved.status === "approved") {
+      await revalidateProfile(resolved.normalized, "removal");
+    }
+    return NextResponse.json({ request: resolved });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to resolve removal request" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { isAdminRequest } from "@/lib/admin-auth";
+import { listRemovalRequests } from "@/lib/supabase/suppressions";
+import type { RemovalRequestStatus } from "@/lib/supabase/types";
+
+const STATUSES: RemovalRequestStatus[] = ["pending", "approved", "rejected"];
+
+/**
+ * GET /api/admin/removal-requests?status=pending
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const statusParam = request.nextUrl.searchParams.get("status") ?? "pending";
+  if (!STATUSES.includes(statusParam as RemovalRequestStatus)) {
+    return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+  }
+
+  const requests = await listRemovalRequests(statusParam as RemovalRequestStatus);
+  return NextResponse.json({ requests });
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { isAdminRequest } from "@/lib/admin-auth";
+import { CONFIRMED_THRESHOLD } from "@/lib/reports";
+import { getConfirmationStats } from "@/lib/supabase/reports";
+
+/**
+ * GET /api/admin/report-stats
+ * Share of voted profiles that reach the confirmation threshold.
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const stats = await getConfirmationStats();
+  if (!stats) {
+    return NextResponse.json({ error: "Stats unavailable" }, { status: 500 });
+  }
+
+  return NextResponse.json({ threshold: CONFIRMED_THRESHOLD, stats });
+}
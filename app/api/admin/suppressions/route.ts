@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { isAdminRequest } from "@/lib/admin-auth";
+import { phoneNumberSchema } from "@/lib/phone";
+import { revalidateProfile } from "@/lib/revalidation";
+import { addSuppression, listSuppressions, removeSuppression } from "@/lib/supabase/suppressions";
+
+/**
+ * Admin endpoint for the opt-out list.
+ * - GET    /api/admin/suppressions
+ * - POST   /api/admin/suppressions  { phoneNumber, reason? }
+ * - DELETE /api/admin/suppressions?phoneNumber=+31...
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const suppressions = await listSuppressions();
+  return NextResponse.json({ suppressions });
+}
+
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = (await request.json().catch(() => null)) as
+    | { phoneNumber?: unknown; reason?: unknown }
+    | null;
+
+  const parsed = phoneNumberSchema.safeParse(body?.phoneNumber);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid phone number" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const suppression = await addSuppression({
+      normalized: parsed.data,
+      reason: typeof body?.reason === "string" ? body.reason : null,
+      source: "admin"
+    });
+    await revalidateProfile(parsed.data, "suppression");
+    return NextResponse.json({ suppression }, { status: 201 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to add suppression" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const parsed = phoneNumberSchema.safeParse(request.nextUrl.searchParams.get("phoneNumber") ?? "");
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid phone number" },
+      { status: 400 }
+    );
+  }
+
+  const removed = await removeSuppression(parsed.data);
+  if (!removed) {
+    return NextResponse.json({ error: "Suppression not found" }, { status: 404 });
+  }
+  await revalidateProfile(parsed.data, "suppression");
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { isAdminRequest } from "@/lib/admin-auth";
+import { processWebhookEvent } from "@/lib/calls/process-webhook";
+import { claimWebhookEvent, getWebhookEventById } from "@/lib/supabase/webhook-events";
+
+/**
+ * POST /api/admin/webhook-events/:id/replay[?force=true]
+ * Processes a logged delivery again from its stored payload. Processed events are only replayed with `force`.
+ * Takes the event's processing lease first, so a replay never runs next to a provider redelivery or
+ * another replay of the same event.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: { id: string } }
+) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const webhookEvent = await getWebhookEventById(context.params.id);
+  if (!webhookEvent) {
+    return NextResponse.json({ error: "Webhook event not found" }, { status: 404 });
+  }
+
+  const force = request.nextUrl.searchParams.get("force") === "true";
+  if (webhookEvent.status === "processed" && !force) {
+    return NextResponse.json({ error: "Webhook event already processed; pass force=true to replay" }, { status: 409 });
+  }
+
+  const claimed = await claimWebhookEvent(
+    webhookEvent.id,
+    force ? ["received", "failed", "ignored", "processed"] : ["received", "failed", "ignored"]
+  );
+  if (!claimed) {
+    return NextResponse.json(
+      { error: "Webhook event is being processed or was processed in the meantime; try again later" },
+      { status: 409 }
+    );
+  }
+
+  const result = await processWebhookEvent(claimed);
+  return NextResponse.json(
+    { id: claimed.id, ...result },
+    { status: result.status === "failed" ? result.httpStatus : 200 }
+  );
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { isAdminRequest } from "@/lib/admin-auth";
+import { listWebhookEvents } from "@/lib/supabase/webhook-events";
+import type { WebhookEventStatus } from "@/lib/supabase/types";
+
+const STATUSES: WebhookEventStatus[] = ["received", "processed", "ignored", "failed"];
+const MAX_LIMIT = 200;
+
+/**
+ * GET /api/admin/webhook-events?status=failed&conversationId=...&limit=50
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const statusParam = searchParams.get("status");
+  if (statusParam && !STATUSES.includes(statusParam as WebhookEventStatus)) {
+    return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+  }
+
+  const limit = Number(searchParams.get("limit") ?? 50);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json({ error: `Limit must be between 1 and ${MAX_LIMIT}` }, { status: 400 });
+  }
+
+  const events = await listWebhookEvents({
+    status: (statusParam as WebhookEventStatus | null) ?? undefined,
+    conversationId: searchParams.get("conversationId") ?? undefined,
+    limit
+  });
+  return NextResponse.json({ events });
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { dispatchDueRetries } from "@/lib/calls/dispatch";
+import { isCronRequest } from "@/lib/cron-auth";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/cron/retry-calls
+ * Dials call retries whose scheduled time has passed.
+ */
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const result = await dispatchDueRetries();
+  return NextResponse.json({ success: true, ...result });
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { isCronRequest } from "@/lib/cron-auth";
+import { processRevalidationQueue } from "@/lib/revalidation";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/cron/revalidate-profiles
+ * Retries profile page revalidations that failed when the profile changed.
+ */
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const result = await processRevalidationQueue();
+  return NextResponse.json({ success: true, ...result });
+}
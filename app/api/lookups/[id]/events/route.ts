@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { isFinalLookupStatus } from "@/lib/call-state";
+import { subscribeToLookupChanges } from "@/lib/lookup-events";
+import { loadLookupStatus } from "@/lib/lookup-snapshot";
+import type { LookupStatusPayload, LookupStreamEvent } from "@/lib/lookup-status";
+import { getLookupVersion } from "@/lib/supabase/lookups";
+
+export const dynamic = "force-dynamic";
+
+// Changes written by another server instance are only seen by polling the database. A poll reads
+// only the lookup version; the full status is loaded when it moved.
+const POLL_INTERVAL_MS = 2000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+// Ends the stream before serverless function timeouts; EventSource reconnects on its own
+const MAX_STREAM_MS = 55000;
+const RECONNECT_DELAY_MS = 1000;
+
+/**
+ * GET /api/lookups/:id/events
+ * Server-Sent Events stream with a `status` event for every change of the lookup, its call attempt
+ * or its profile, and a final `done` event. Payloads match GET /api/lookups/:id/status.
+ * Status events carry the lookup version as their id, so a reconnect (Last-Event-ID) skips a
+ * status the client already has.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: { id: string } }
+) {
+  const lookupId = context.params?.id;
+
+  if (!lookupId) {
+    return NextResponse.json({ error: "Missing lookup id" }, { status: 400 });
+  }
+
+  const initial = await loadLookupStatus(lookupId);
+  if (!initial) {
+    return NextResponse.json({ error: "Lookup not found" }, { status: 404 });
+  }
+
+  const lastEventId = request.headers.get("last-event-id");
+  const since = lastEventId && /^\d+$/.test(lastEventId) ? Number(lastEventId) : null;
+
+  const encoder = new TextEncoder();
+  let closeStream = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      let lastVersion: number | null = null;
+      let refreshing = false;
+      let refreshQueued = false;
+      const timers: Array<ReturnType<typeof setTimeout>> = [];
+      let unsubscribe = () => {};
+
+      const write = (chunk: string) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      };
+
+      const sendEvent = (event: LookupStreamEvent) => {
+        const id = event.type === "status" ? `id: ${event.data.lookup.version}\n` : "";
+        write(`${id}event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+      };
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        timers.forEach((timer) => clearInterval(timer));
+        unsubscribe();
+        request.signal.removeEventListener("abort", close);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      const publish = (payload: LookupStatusPayload) => {
+        if (payload.lookup.version === lastVersion) return;
+        const isFirst = lastVersion === null;
+        lastVersion = payload.lookup.version;
+
+        if (!isFirst || since === null || payload.lookup.version > since) {
+          sendEvent({ type: "status", data: payload });
+        }
+
+        const status = payload.lookup.status;
+        if (isFinalLookupStatus(status)) {
+          sendEvent({ type: "done", data: { status } });
+          close();
+        }
+      };
+
+      // Coalesces notifications that arrive while the database is being read. Every write the stream
+      // shows bumps the lookup version (profile writes included), so an unchanged version skips the load.
+      const refresh = async () => {
+        if (closed) return;
+        if (refreshing) {
+          refreshQueued = true;
+          return;
+        }
+
+        refreshing = true;
+        try {
+          const version = await getLookupVersion(lookupId);
+          if (version !== null && version !== lastVersion && !closed) {
+            const next = await loadLookupStatus(lookupId);
+            if (next && !closed) {
+              publish(next);
+            }
+          }
+        } catch (error) {
+          console.error("Failed to refresh lookup status stream", { lookupId, error });
+        } finally {
+          refreshing = false;
+          if (refreshQueued) {
+            refreshQueued = false;
+            void refresh();
+          }
+        }
+      };
+
+      closeStream = close;
+      request.signal.addEventListener("abort", close);
+
+      write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+      publish(initial);
+      if (closed) return;
+
+      unsubscribe = subscribeToLookupChanges(lookupId, () => void refresh());
+      timers.push(
+        setInterval(() => void refresh(), POLL_INTERVAL_MS),
+        setInterval(() => write(": ping\n\n"), HEARTBEAT_INTERVAL_MS),
+        setTimeout(close, MAX_STREAM_MS)
+      );
+    },
+    cancel() {
+      closeStream();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no"
+    }
+  });
+}
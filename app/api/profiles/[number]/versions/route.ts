@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+
+import { phoneNumberSchema } from "@/lib/phone";
+import { getNameHistory } from "@/lib/profile-history";
+import { fetchProfileRecordByNumber } from "@/lib/supabase/lookups";
+import { listProfileVersions } from "@/lib/supabase/profile-versions";
+import { isNumberSuppressed } from "@/lib/supabase/suppressions";
+
+/**
+ * Name history of a number's profile, newest first: what the "Geschiedenis" section of the profile
+ * page shows, nothing more. Full snapshots (summaries, tags, confidence) are admin-only, through
+ * /api/admin/profiles.
+ * - GET /api/profiles/+31.../versions
+ * Hidden and suppressed numbers have no history.
+ */
+export async function GET(_request: Request, context: { params: { number: string } }) {
+  let raw: string;
+  try {
+    raw = decodeURIComponent(context.params.number);
+  } catch {
+    raw = context.params.number;
+  }
+
+  const parsed = phoneNumberSchema.safeParse(raw);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid phone number" },
+      { status: 400 }
+    );
+  }
+
+  const profile = (await isNumberSuppressed(parsed.data)) ? null : await fetchProfileRecordByNumber(parsed.data);
+  if (!profile) {
+    return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+  }
+
+  const versions = await listProfileVersions(profile.id);
+
+  return NextResponse.json({
+    normalized: profile.normalized,
+    names: getNameHistory(versions)
+  });
+}
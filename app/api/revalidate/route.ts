@@ -0,0 +1,34 @@
+import { revalidatePath } from "next/cache";
+import { NextRequest, NextResponse } from "next/server";
+
+import { isCronRequest } from "@/lib/cron-auth";
+
+export const dynamic = "force-dynamic";
+
+const PROFILE_PATH_PATTERN = /^\/nummer\/[^/]+$/;
+
+/**
+ * POST /api/revalidate  { "path": "/nummer/%2B31..." }
+ * Revalidates one profile page. Called by the revalidation queue (lib/revalidation.ts) with
+ * `CRON_SECRET`, so a job only counts as done once this request answered 200.
+ */
+export async function POST(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = (await request.json().catch(() => null)) as { path?: unknown } | null;
+  const path = typeof body?.path === "string" ? body.path : "";
+  if (!PROFILE_PATH_PATTERN.test(path)) {
+    return NextResponse.json({ error: "Only profile pages can be revalidated" }, { status: 400 });
+  }
+
+  revalidatePath(path);
+  // Visitors may also have typed the number unencoded (/nummer/+316...)
+  const decoded = decodeURIComponent(path);
+  if (decoded !== path) {
+    revalidatePath(decoded);
+  }
+
+  return NextResponse.json({ revalidated: true, path });
+}
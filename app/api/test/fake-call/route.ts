@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { buildScenarioDeliveries, runFakeScenario } from "@/lib/calls/fake/engine";
+import { DEFAULT_FAKE_SCENARIO, getFakeScenario, listFakeScenarios } from "@/lib/calls/fake/scenarios";
+import { fakeCallProvider, getFakeWebhookSecret } from "@/lib/calls/providers/fake";
+import { getLatestCallAttempt } from "@/lib/supabase/call-attempts";
+import { getLookupById } from "@/lib/supabase/lookups";
+
+const IS_DEV = process.env.NODE_ENV !== "production";
+
+/**
+ * Run a fake call scenario for an existing lookup against the real webhook handler.
+ * Usage:
+ * - POST /api/test/fake-call?lookupId=xxx&scenario=voicemail
+ * - POST /api/test/fake-call?lookupId=xxx&scenario=person&callerName=Jan&delayScale=0&wait=true
+ */
+export async function POST(request: NextRequest) {
+  if (!IS_DEV) {
+    return NextResponse.json({ error: "Not available in production" }, { status: 403 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const lookupId = searchParams.get("lookupId");
+  const scenario = getFakeScenario(searchParams.get("scenario") ?? DEFAULT_FAKE_SCENARIO);
+  const delayScaleParam = Number(searchParams.get("delayScale") ?? "1");
+  const delayScale = Number.isFinite(delayScaleParam) && delayScaleParam >= 0 ? delayScaleParam : 1;
+  const wait = searchParams.get("wait") === "true";
+
+  if (!lookupId) {
+    return NextResponse.json({ error: "Missing lookupId query parameter" }, { status: 400 });
+  }
+
+  if (!scenario) {
+    return NextResponse.json(
+      { error: "Unknown scenario", scenarios: listFakeScenarios().map((entry) => entry.id) },
+      { status: 400 }
+    );
+  }
+
+  const lookup = await getLookupById(lookupId);
+  if (!lookup) {
+    return NextResponse.json({ error: "Lookup not found" }, { status: 404 });
+  }
+
+  // Reuse the running attempt's conversation so the webhooks update it, and stop its own scenario
+  const attempt = await getLatestCallAttempt(lookupId);
+  const conversationId = attempt?.elevenlabs_conversation_id ?? `mock_conv_${lookupId}_${Date.now()}`;
+  await fakeCallProvider.cancelCall({ conversationId });
+
+  const run = {
+    scenario,
+    conversationId,
+    metadata: {
+      lookupId,
+      source: "web_lookup",
+      normalized: lookup.normalized,
+      attemptNumber: attempt?.attempt_number ?? 1
+    },
+    callerName: searchParams.get("callerName")
+  };
+  const options = {
+    webhookUrl: new URL("/api/webhooks/fake", request.url).toString(),
+    secret: getFakeWebhookSecret(),
+    delayScale
+  };
+
+  console.log("🎭 Running fake call scenario:", {
+    lookupId,
+    conversationId,
+    scenario: scenario.id,
+    delayScale
+  });
+
+  if (wait) {
+    const deliveries = await runFakeScenario(run, options);
+    return NextResponse.json({ success: true, scenario: scenario.id, conversationId, deliveries });
+  }
+
+  void runFakeScenario(run, options);
+
+  return NextResponse.json({
+    success: true,
+    scenario: scenario.id,
+    conversationId,
+    planned: buildScenarioDeliveries(run).map((delivery) => ({
+      type: delivery.payload.type,
+      delayMs: delivery.delayMs * delayScale
+    }))
+  });
+}
+
+export async function GET() {
+  if (!IS_DEV) {
+    return NextResponse.json({ error: "Not available in production" }, { status: 403 });
+  }
+
+  return NextResponse.json({
+    message: "Fake call scenarios (dev-only)",
+    usage: {
+      method: "POST",
+      queryParams: {
+        lookupId: "ID of the lookup to run the scenario for",
+        scenario: `Scenario id (default: ${DEFAULT_FAKE_SCENARIO})`,
+        callerName: "Replaces {{name}} in the scenario (optional)",
+        delayScale: "Multiplier for the scenario delays, 0 sends everything at once (default: 1)",
+        wait: "true to wait for all deliveries and return their responses"
+      }
+    },
+    scenarios: listFakeScenarios()
+  });
+}
@@ -1,19 +1,11 @@
-import crypto from "node:crypto";
-
 import { NextRequest, NextResponse } from "next/server";
 
+import { buildScenarioDeliveries } from "@/lib/calls/fake/engine";
+import { getDefaultFakeScenario } from "@/lib/calls/fake/scenarios";
+import { signElevenLabsWebhook } from "@/lib/calls/providers/elevenlabs";
 import { getLookupById } from "@/lib/supabase/lookups";
 
 const IS_DEV = process.env.NODE_ENV !== "production";
-const WEBHOOK_SECRET = process.env.ELEVENLABS_WEBHOOK_SECRET || "dev-secret";
-
-function signBody(rawBody: string, timestampSec: number): string {
-  const payloadToSign = `${timestampSec}.${rawBody}`;
-  const hmac = crypto.createHmac("sha256", WEBHOOK_SECRET);
-  hmac.update(payloadToSign, "utf8");
-  const hex = hmac.digest("hex");
-  return `t=${timestampSec},v0=${hex}`;
-}
 
 export async function POST(request: NextRequest) {
   if (!IS_DEV) {
@@ -29,8 +21,7 @@ export async function POST(request: NextRequest) {
     const lookupId = request.nextUrl.searchParams.get("lookupId");
     const conversationId =
       request.nextUrl.searchParams.get("conversationId") ?? `conv_mock_${Date.now()}`;
-    const callerName = request.nextUrl.searchParams.get("callerName") ?? "Onbekende beller";
-    const status = request.nextUrl.searchParams.get("status") ?? "done";
+    const callerName = request.nextUrl.searchParams.get("callerName");
 
     if (!lookupId) {
       return NextResponse.json({ error: "Missing lookupId" }, { status: 400 });
@@ -41,48 +32,20 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Lookup not found" }, { status: 404 });
     }
 
-    const body = {
-      type: "post_call_transcription",
-      event_timestamp: Math.floor(Date.now() / 1000),
-      data: {
-        agent_id: process.env.ELEVENLABS_AGENT_ID ?? "agent_dev",
-        conversation_id: conversationId,
-        status,
-        transcript: [
-          { role: "agent", message: "Test: met wie spreek ik?" },
-          { role: "user", message: callerName }
-        ],
-        // Mimic ElevenLabs structure: include original initiation client data with dynamic variables
-        conversation_initiation_client_data: {
-          dynamic_variables: {
-            lookupId,
-            source: "web_lookup",
-            normalized: lookup.normalized
-          }
-        },
-        contact: { caller_name: callerName },
-        analysis: {
-          data_collection_results: {
-            name: { value: callerName },
-            consent: { value: "true" },
-            organisation: { value: "false" }
-          },
-          transcript_summary: `Samenvatting: beller genoemd als ${callerName}.`
-        }
-      },
-      metadata: {
-        normalized: lookup.normalized,
-        summary: `Naam bevestigd: ${callerName}`
-      }
-    };
+    const postCall = buildScenarioDeliveries({
+      scenario: getDefaultFakeScenario(),
+      conversationId,
+      metadata: { lookupId, source: "web_lookup", normalized: lookup.normalized },
+      callerName
+    }).find((delivery) => delivery.payload.type === "post_call_transcription");
+    const body = { ...postCall?.payload, metadata: { normalized: lookup.normalized } };
 
     rawBody = JSON.stringify(body);
   } else {
     usedProvidedBody = true;
   }
 
-  const now = Math.floor(Date.now() / 1000);
-  const signature = signBody(rawBody, now);
+  const signature = signElevenLabsWebhook(rawBody);
 
   // Forward to the real webhook endpoint to exercise the same path + signature check
   const targetUrl = new URL("/api/webhooks/elevenlabs", request.url);
@@ -125,7 +88,7 @@ export async function GET() {
       method: "POST",
       options: [
         "POST raw JSON identical to ElevenLabs",
-        "Or call with ?lookupId=...&callerName=... to auto-generate a realistic payload"
+        "Or call with ?lookupId=...&callerName=... to send the post-call event of the default fake scenario"
       ]
     }
   });
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getCallProviderById } from "@/lib/calls";
+import { processWebhookEvent } from "@/lib/calls/process-webhook";
+import { claimWebhookEvent, recordWebhookEvent } from "@/lib/supabase/webhook-events";
+
+const IS_DEV = process.env.NODE_ENV !== "production";
+
+export async function POST(
+  request: NextRequest,
+  context: { params: { provider: string } }
+) {
+  const provider = getCallProviderById(context.params?.provider ?? "");
+  if (!provider) {
+    return NextResponse.json({ error: "Unknown call provider" }, { status: 404 });
+  }
+
+  try {
+    const rawBody = await request.text();
+
+    if (IS_DEV) {
+      console.log("📋 Webhook headers:", { provider: provider.id, headers: Object.fromEntries(request.headers.entries()) });
+    }
+
+    const parsed = provider.parseWebhook({ rawBody, headers: request.headers });
+    if (!parsed.ok) {
+      if (IS_DEV) {
+        console.error("Call webhook rejected", {
+          provider: provider.id,
+          error: parsed.error,
+          rawBody
+        });
+      }
+      return NextResponse.json({ error: parsed.error }, { status: parsed.status });
+    }
+
+    // Every verified delivery is logged first; redeliveries of handled events are acknowledged without
+    // being applied again. Unfinished events are only processed under a lease, so a delivery that died
+    // mid-processing is picked up again once its lease expires, and parallel deliveries apply it once.
+    const { event: recordedEvent, duplicate } = await recordWebhookEvent({
+      provider: provider.id,
+      rawBody,
+      payload: parsed.payload,
+      signature: parsed.signature
+    });
+
+    console.log("📥 Call webhook received:", {
+      provider: provider.id,
+      webhookEventId: recordedEvent.id,
+      eventKey: recordedEvent.event_key,
+      duplicate,
+      status: recordedEvent.status
+    });
+
+    if (recordedEvent.status === "processed" || recordedEvent.status === "ignored") {
+      return NextResponse.json({ success: true, duplicate: true, status: recordedEvent.status });
+    }
+
+    const webhookEvent = await claimWebhookEvent(recordedEvent.id);
+    if (!webhookEvent) {
+      // Another delivery is processing it (or just finished); a non-2xx makes the provider retry later
+      console.log("⏳ Call webhook event already being processed:", { webhookEventId: recordedEvent.id });
+      return NextResponse.json({ error: "Webhook event is being processed", duplicate: true }, { status: 409 });
+    }
+
+    const result = await processWebhookEvent(webhookEvent);
+
+    if (result.status === "failed") {
+      if (IS_DEV) {
+        console.error("Call webhook processing failed", { provider: provider.id, error: result.error, rawBody });
+      }
+      return NextResponse.json(
+        result.httpStatus === 400
+          ? { error: result.error }
+          : {
+              error: "Internal server error",
+              message: IS_DEV ? result.error : "An error occurred processing the webhook"
+            },
+        { status: result.httpStatus }
+      );
+    }
+
+    return NextResponse.json(
+      result.status === "ignored" ? { success: true, note: result.reason } : { success: true }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    console.error("❌ Call webhook error:", {
+      message: errorMessage,
+      stack: error instanceof Error ? error.stack : undefined,
+      error
+    });
+
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: IS_DEV ? errorMessage : "An error occurred processing the webhook"
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  // Handle Conversation Initiation Client Data Webhook
+  // ElevenLabs may call this endpoint with GET to retrieve client data before starting a call
+  const conversationId = request.nextUrl.searchParams.get("conversation_id") ?? 
+                        request.nextUrl.searchParams.get("conversationId");
+  
+  if (IS_DEV) {
+    console.log("📞 GET request to webhook endpoint (initiation client data):", {
+      conversationId,
+      queryParams: Object.fromEntries(request.nextUrl.searchParams.entries()),
+      headers: Object.fromEntries(request.headers.entries())
+    });
+  }
+
+  // For now, return success - the actual initiation will be detected via POST webhooks
+  // This endpoint can be extended to return dynamic variables if needed
+  return NextResponse.json({ 
+    ok: true,
+    note: "Initiation client data endpoint - initiation detected via POST webhooks",
+    conversationId: conversationId ?? null
+  });
+}
@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { Inter, Fira_Code } from "next/font/google";
+import { getSiteUrl } from "@/lib/site";
 import "./globals.css";
 
 const sans = Inter({
@@ -13,6 +14,7 @@ const mono = Fira_Code({
 });
 
 export const metadata: Metadata = {
+  metadataBase: new URL(getSiteUrl()),
   title: "AI Caller ID – Ontmasker onbekende nummers",
   description:
     "Laat een AI-assistent onbekende nummers bellen, identificeer wie er opneemt en ontdek transcripties in een publieke database."
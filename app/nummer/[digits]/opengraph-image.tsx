@@ -0,0 +1,122 @@
+import { ImageResponse } from "next/og";
+
+import { CALL_OUTCOME_LABELS } from "@/lib/call-outcome";
+import type { CallOutcome } from "@/lib/mock-profiles";
+import { formatPhoneNumber } from "@/lib/phone";
+import { getPublicProfile, parseProfileParam } from "@/lib/public-profile";
+
+export const alt = "Profiel van een telefoonnummer op AI Caller ID";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+// Rendered per request: only crawlers of social networks fetch it, and it must not outlive a removal
+export const dynamic = "force-dynamic";
+
+// Brand colors from app/globals.css (light theme), as hex because the image renderer has no CSS variables
+const COLORS = {
+  background: "#F9F9FB",
+  foreground: "#17171C",
+  mutedForeground: "#60606C",
+  primary: "#6E41D8",
+  accent: "#DDC7FF",
+  border: "#E3E3E8"
+};
+
+// Same look as CALL_OUTCOME_BADGE_VARIANTS on the page
+const OUTCOME_BADGE_COLORS: Record<CallOutcome, { background: string; color: string; border: string }> = {
+  confirmed: { background: "#D1FAE5", color: "#047857", border: "#D1FAE5" },
+  voicemail: { background: "#FFFFFF", color: COLORS.foreground, border: COLORS.border },
+  pending: { background: "#EEF7FC", color: "#45525F", border: "#EEF7FC" }
+};
+
+function Badge({ label, background, color, border }: { label: string; background: string; color: string; border: string }) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        padding: "10px 24px",
+        borderRadius: 999,
+        border: `2px solid ${border}`,
+        background,
+        color,
+        fontSize: 24,
+        fontWeight: 700,
+        letterSpacing: 2,
+        textTransform: "uppercase"
+      }}
+    >
+      {label}
+    </div>
+  );
+}
+
+export default async function OpenGraphImage({ params }: { params: { digits: string } }) {
+  const normalized = parseProfileParam(params.digits);
+  const publicProfile = normalized ? await getPublicProfile(normalized) : null;
+  const profile = publicProfile?.state === "found" ? publicProfile.profile : null;
+  const removed = publicProfile?.state === "removed";
+
+  const title = removed ? "Verwijderd op verzoek" : profile?.callerName ?? "Onbekende beller";
+  const badge = profile
+    ? { label: CALL_OUTCOME_LABELS[profile.callOutcome], ...OUTCOME_BADGE_COLORS[profile.callOutcome] }
+    : { label: removed ? "Geen gegevens" : "Onderzoek gestart", ...OUTCOME_BADGE_COLORS.voicemail };
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          padding: 72,
+          background: `linear-gradient(135deg, ${COLORS.background} 0%, ${COLORS.background} 55%, ${COLORS.accent} 100%)`,
+          color: COLORS.foreground,
+          fontFamily: "sans-serif"
+        }}
+      >
+        <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between" }}>
+          <div style={{ display: "flex", alignItems: "center", gap: 16 }}>
+            <div style={{ width: 20, height: 20, borderRadius: 999, background: COLORS.primary }} />
+            <div style={{ fontSize: 30, fontWeight: 700, color: COLORS.primary }}>AI Caller ID</div>
+          </div>
+          <Badge {...badge} />
+        </div>
+
+        <div style={{ display: "flex", flexDirection: "column", gap: 20 }}>
+          <div
+            style={{
+              fontSize: title.length > 28 ? 64 : 84,
+              fontWeight: 700,
+              lineHeight: 1.1,
+              maxWidth: 1000
+            }}
+          >
+            {title}
+          </div>
+          <div style={{ fontSize: 40, color: COLORS.mutedForeground, fontFamily: "monospace" }}>
+            {normalized ? formatPhoneNumber(normalized) : "Onbekend nummer"}
+          </div>
+        </div>
+
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "space-between",
+            borderTop: `2px solid ${COLORS.border}`,
+            paddingTop: 28,
+            fontSize: 28,
+            color: COLORS.mutedForeground
+          }}
+        >
+          <div style={{ display: "flex" }}>
+            {profile ? `Vertrouwen ${Math.round(profile.confidence * 100)}%` : "Wie belde er?"}
+          </div>
+          <div style={{ display: "flex" }}>Geïdentificeerd door onze AI-agent</div>
+        </div>
+      </div>
+    ),
+    size
+  );
+}
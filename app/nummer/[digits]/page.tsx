@@ -2,12 +2,17 @@ import Link from "next/link";
 import { notFound } from "next/navigation";
 import type { Metadata } from "next";
 
-import { parsePhoneNumber } from "@/lib/phone";
-import { getMockProfile } from "@/lib/mock-profiles";
+import { formatPhoneNumber } from "@/lib/phone";
+import { CALL_OUTCOME_BADGE_VARIANTS, CALL_OUTCOME_LABELS } from "@/lib/call-outcome";
 import { Badge } from "@/components/ui/badge";
 import { StatCard } from "@/components/ui/stat-card";
+import { ProfileVote } from "@/components/profile-vote";
 import { formatDateTime } from "@/lib/format";
-import { fetchProfileByNumber } from "@/lib/supabase/lookups";
+import { NUMBER_TYPE_LABELS, describeNumber, type NumberIntelligence } from "@/lib/number-intelligence";
+import { getNameHistory, PROFILE_CHANGE_SOURCE_LABELS, type NameHistoryEntry } from "@/lib/profile-history";
+import { getPublicProfile, parseProfileParam } from "@/lib/public-profile";
+import { buildProfileStructuredData, serializeStructuredData } from "@/lib/structured-data";
+import { listProfileVersions } from "@/lib/supabase/profile-versions";
 
 type PageParams = {
   params: {
@@ -15,93 +20,87 @@ type PageParams = {
   };
 };
 
-function decodePhoneParam(value: string) {
-  try {
-    return decodeURIComponent(value);
-  } catch {
-    return value;
-  }
+// Profile pages are rendered on first visit and cached. Profile changes revalidate the page
+// right away (lib/revalidation.ts); the interval only bounds staleness if that never happened.
+export const revalidate = 86400;
+
+export function generateStaticParams(): PageParams["params"][] {
+  return [];
 }
 
 export async function generateMetadata({ params }: PageParams): Promise<Metadata> {
-  const raw = decodePhoneParam(params.digits);
+  const normalized = parseProfileParam(params.digits);
+  if (!normalized) {
+    return {
+      title: "Onbekend nummer · AI Caller ID",
+      description: "Zoek uit wie er belde met behulp van onze AI-detective."
+    };
+  }
 
-  try {
-    const normalized = parsePhoneNumber(raw);
-    const profile = getMockProfile(normalized);
-    const callerName = profile?.callerName ?? "Onbekende beller";
-    const description = profile
-      ? `AI Caller ID identificeerde ${profile.callerName}. Lees de samenvatting, transcript en status van ${normalized}.`
-      : `AI Caller ID onderzoekt nummer ${normalized}. Volg de status van onze AI-call en ontdek wie er opneemt.`;
+  const publicProfile = await getPublicProfile(normalized);
 
+  if (publicProfile.state === "removed") {
     return {
-      title: `${callerName} · Nummer ${normalized}`,
-      description,
-      alternates: {
-        canonical: `/nummer/${encodeURIComponent(normalized)}`
-      },
-      openGraph: {
-        title: `${callerName} · AI Caller ID`,
-        description,
-        url: `/nummer/${encodeURIComponent(normalized)}`,
-        type: "article",
-        locale: "nl_NL"
+      title: "Verwijderd op verzoek · AI Caller ID",
+      description: "Dit nummer is op verzoek van de eigenaar verwijderd uit AI Caller ID.",
+      robots: {
+        index: false,
+        follow: false
       }
     };
-  } catch {
-    return {
-      title: "Onbekend nummer · AI Caller ID",
-      description: "Zoek uit wie er belde met behulp van onze AI-detective."
-    };
   }
+
+  const profile = publicProfile.state === "found" ? publicProfile.profile : null;
+  const formattedNumber = formatPhoneNumber(normalized);
+  const callerName = profile?.callerName ?? "Onbekende beller";
+  const description = profile
+    ? `AI Caller ID identificeerde ${profile.callerName}. Lees de samenvatting, transcript en status van ${formattedNumber}.`
+    : `AI Caller ID onderzoekt nummer ${formattedNumber}. Volg de status van onze AI-call en ontdek wie er opneemt.`;
+
+  return {
+    title: `${callerName} · Nummer ${formattedNumber}`,
+    description,
+    alternates: {
+      canonical: `/nummer/${encodeURIComponent(normalized)}`
+    },
+    openGraph: {
+      title: `${callerName} · AI Caller ID`,
+      description,
+      url: `/nummer/${encodeURIComponent(normalized)}`,
+      type: "article",
+      locale: "nl_NL"
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: `${callerName} · AI Caller ID`,
+      description
+    }
+  };
 }
 
 export default async function NumberProfilePage({ params }: PageParams) {
-  const raw = decodePhoneParam(params.digits);
-
-  let normalized: string;
-  try {
-    normalized = parsePhoneNumber(raw);
-  } catch {
+  const normalized = parseProfileParam(params.digits);
+  if (!normalized) {
     notFound();
   }
 
-  const profileFromSupabase = await fetchProfileByNumber(normalized);
-  const profile = profileFromSupabase ?? getMockProfile(normalized);
-  const structuredData = profile
-    ? {
-        "@context": "https://schema.org",
-        "@type": "Organization",
-        name: profile.callerName,
-        telephone: profile.normalized,
-        description: profile.summary,
-        alternateName: profile.aka,
-        dateModified: new Date(profile.lastChecked).toISOString(),
-        additionalProperty: [
-          {
-            "@type": "PropertyValue",
-            name: "Call status",
-            value: profile.callOutcome
-          },
-          {
-            "@type": "PropertyValue",
-            name: "Confidence",
-            value: `${Math.round(profile.confidence * 100)}%`
-          }
-        ],
-        areaServed: "NL",
-        availableLanguage: ["nl"]
-      }
-    : null;
+  const publicProfile = await getPublicProfile(normalized);
+  if (publicProfile.state === "removed") {
+    return <RemovedOnRequest normalized={normalized} />;
+  }
+
+  const profile = publicProfile.state === "found" ? publicProfile.profile : null;
+  const profileRecord = publicProfile.state === "found" ? publicProfile.record : null;
+  const { numberInfo } = publicProfile;
+  const nameHistory = profileRecord ? getNameHistory(await listProfileVersions(profileRecord.id)) : [];
+  const structuredData = buildProfileStructuredData({ normalized, profile });
 
   return (
     <main className="bg-gradient-to-br from-background via-background to-muted pb-16">
-      {structuredData ? (
-        <script
-          type="application/ld+json"
-          dangerouslySetInnerHTML={{ __html: JSON.stringify(structuredData) }}
-        />
-      ) : null}
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: serializeStructuredData(structuredData) }}
+      />
       <div className="mx-auto max-w-4xl px-6 py-16 sm:py-20">
         <Link
           className="text-sm font-medium text-muted-foreground underline-offset-4 hover:text-foreground hover:underline"
@@ -112,9 +111,13 @@ export default async function NumberProfilePage({ params }: PageParams) {
 
         <header className="mt-8 rounded-2xl border border-border bg-card/70 p-8 shadow-sm backdrop-blur">
           <div className="flex flex-wrap items-center justify-between gap-3">
-            <Badge variant={profile ? "success" : "outline"}>
-              {profile ? "Geïdentificeerd" : "Onderzoek gestart"}
-            </Badge>
+            {profile ? (
+              <Badge variant={CALL_OUTCOME_BADGE_VARIANTS[profile.callOutcome]}>
+                {CALL_OUTCOME_LABELS[profile.callOutcome]}
+              </Badge>
+            ) : (
+              <Badge variant="outline">Onderzoek gestart</Badge>
+            )}
             <div className="text-xs text-muted-foreground">
               Laatste update:{" "}
               {profile ? formatDateTime(profile.lastChecked) : "wordt ingepland"}
@@ -125,6 +128,7 @@ export default async function NumberProfilePage({ params }: PageParams) {
           </h1>
           <p className="mt-4 text-balance text-muted-foreground">
             Nummer: <span className="font-mono text-foreground">{normalized}</span>
+            <span className="block text-sm">{describeNumber(numberInfo)}</span>
           </p>
 
           <div className="mt-6 flex flex-wrap gap-2">
@@ -145,7 +149,7 @@ export default async function NumberProfilePage({ params }: PageParams) {
               <div className="mt-6 space-y-4">
                 <div>
                   <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
-                    Transcript hoogtepunten
+                    {profile.callOutcome === "voicemail" ? "Voicemailbegroeting" : "Transcript hoogtepunten"}
                   </div>
                   <p className="mt-2 rounded-lg border border-primary/20 bg-primary/5 p-4 text-sm">
                     “{profile.transcriptPreview}”
@@ -183,6 +187,7 @@ export default async function NumberProfilePage({ params }: PageParams) {
                 value={`${profile.reports.confirmedCount} gebruikers`}
                 hint={`${profile.reports.disputedCount} meldingen van twijfel`}
               />
+              {profileRecord ? <ProfileVote phoneNumber={normalized} /> : null}
               <div className="rounded-2xl border border-border bg-card/60 p-6 shadow-sm backdrop-blur">
                 <h3 className="text-base font-semibold">Volgende stappen</h3>
                 <p className="mt-2 text-sm text-muted-foreground">
@@ -213,6 +218,103 @@ export default async function NumberProfilePage({ params }: PageParams) {
             </Link>
           </section>
         )}
+
+        <NumberDetails info={numberInfo} />
+
+        {nameHistory.length > 0 ? <NameHistory entries={nameHistory} /> : null}
+
+        <p className="mt-10 text-center text-sm text-muted-foreground">
+          Is dit jouw nummer?{" "}
+          <Link
+            className="font-medium text-foreground underline-offset-4 hover:underline"
+            href={`/verwijderen?nummer=${encodeURIComponent(normalized)}`}
+          >
+            Verwijder mijn nummer
+          </Link>
+        </p>
+      </div>
+    </main>
+  );
+}
+
+function NumberDetails({ info }: { info: NumberIntelligence }) {
+  const details = [
+    { label: "Soort nummer", value: NUMBER_TYPE_LABELS[info.type] },
+    { label: "Land", value: info.country },
+    { label: "Regio", value: info.area },
+    { label: "Tijdzone", value: info.timeZone }
+  ].filter((detail): detail is { label: string; value: string } => Boolean(detail.value));
+
+  return (
+    <section className="mt-10 rounded-2xl border border-border bg-card/60 p-8 shadow-sm backdrop-blur">
+      <h2 className="text-xl font-semibold">Over dit nummer</h2>
+      <p className="mt-2 text-sm text-muted-foreground">
+        Afgeleid uit het nummerplan, los van de AI-call.
+      </p>
+      <dl className="mt-6 grid gap-4 sm:grid-cols-2">
+        {details.map((detail) => (
+          <div key={detail.label}>
+            <dt className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{detail.label}</dt>
+            <dd className="mt-1 text-sm text-foreground">{detail.value}</dd>
+          </div>
+        ))}
+      </dl>
+    </section>
+  );
+}
+
+function NameHistory({ entries }: { entries: NameHistoryEntry[] }) {
+  return (
+    <section className="mt-10 rounded-2xl border border-border bg-card/60 p-8 shadow-sm backdrop-blur">
+      <h2 className="text-xl font-semibold">Geschiedenis</h2>
+      <p className="mt-2 text-sm text-muted-foreground">
+        {entries.length > 1
+          ? "Dit nummer is eerder onder een andere naam geïdentificeerd."
+          : "Sinds de eerste identificatie is de naam niet veranderd."}
+      </p>
+      <ol className="mt-6 space-y-4">
+        {entries.map((entry, index) => (
+          <li
+            key={`${entry.since}-${entry.callerName}`}
+            className="flex flex-wrap items-baseline justify-between gap-2 border-l-2 border-border pl-4"
+          >
+            <div>
+              <div className={index === 0 ? "font-medium text-foreground" : "text-muted-foreground"}>
+                {entry.callerName}
+              </div>
+              <div className="text-xs text-muted-foreground">{PROFILE_CHANGE_SOURCE_LABELS[entry.source]}</div>
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {index === 0 ? "Sinds" : "Vanaf"} {formatDateTime(entry.since)}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
+
+function RemovedOnRequest({ normalized }: { normalized: string }) {
+  return (
+    <main className="bg-gradient-to-br from-background via-background to-muted pb-16">
+      <div className="mx-auto max-w-4xl px-6 py-16 sm:py-20">
+        <Link
+          className="text-sm font-medium text-muted-foreground underline-offset-4 hover:text-foreground hover:underline"
+          href="/"
+        >
+          ← Terug naar zoekpagina
+        </Link>
+
+        <section className="mt-8 rounded-2xl border border-border bg-card/70 p-8 text-center shadow-sm backdrop-blur">
+          <Badge variant="outline">Verwijderd op verzoek</Badge>
+          <h1 className="mt-6 text-balance text-3xl font-semibold">
+            Er zijn geen gegevens beschikbaar voor dit nummer
+          </h1>
+          <p className="mt-4 text-balance text-sm text-muted-foreground">
+            De eigenaar van <span className="font-mono text-foreground">{normalized}</span> heeft
+            gevraagd om verwijdering. We bellen dit nummer niet en tonen geen profiel.
+          </p>
+        </section>
       </div>
     </main>
   );
@@ -1,3 +1,5 @@
+import Link from "next/link";
+
 import { LookupForm } from "@/components/lookup-form";
 import { HowItWorksSection } from "@/components/sections/how-it-works";
 import { TrustSignalsSection } from "@/components/sections/trust-signals";
@@ -40,9 +42,9 @@ export default function HomePage() {
           Privacy
         </a>
         <span> · </span>
-        <a className="underline-offset-4 hover:underline" href="#">
+        <Link className="underline-offset-4 hover:underline" href="/verwijderen">
           Verwijderen van gegevens
-        </a>
+        </Link>
       </footer>
     </main>
   );
@@ -0,0 +1,17 @@
+import type { MetadataRoute } from "next";
+
+import { getSiteUrl } from "@/lib/site";
+
+export default function robots(): MetadataRoute.Robots {
+  const siteUrl = getSiteUrl();
+
+  return {
+    rules: {
+      userAgent: "*",
+      allow: "/",
+      disallow: ["/api/"]
+    },
+    sitemap: `${siteUrl}/sitemap.xml`,
+    host: siteUrl
+  };
+}
@@ -0,0 +1,19 @@
+import { buildSitemapIndex } from "@/lib/sitemap";
+
+// Regenerated at most once an hour; new profiles do not need to be found sooner
+export const revalidate = 3600;
+
+/**
+ * GET /sitemap.xml
+ * Sitemap index over the static pages and all published profiles (lib/sitemap.ts).
+ */
+export async function GET() {
+  try {
+    return new Response(await buildSitemapIndex(), {
+      headers: { "Content-Type": "application/xml; charset=utf-8" }
+    });
+  } catch (error) {
+    console.error("❌ Sitemap index failed:", error instanceof Error ? error.message : error);
+    return new Response("Sitemap unavailable", { status: 503, headers: { "Retry-After": "3600" } });
+  }
+}
@@ -0,0 +1,34 @@
+import { buildProfileSitemap, buildStaticSitemap } from "@/lib/sitemap";
+
+export const revalidate = 3600;
+
+const PROFILE_SITEMAP_PATTERN = /^profiles-(\d+)\.xml$/;
+
+function xmlResponse(body: string) {
+  return new Response(body, {
+    headers: { "Content-Type": "application/xml; charset=utf-8" }
+  });
+}
+
+/**
+ * GET /sitemaps/pages.xml
+ * GET /sitemaps/profiles-<page>.xml  (pages are listed in /sitemap.xml)
+ */
+export async function GET(_request: Request, context: { params: { file: string } }) {
+  if (context.params.file === "pages.xml") {
+    return xmlResponse(buildStaticSitemap());
+  }
+
+  const match = PROFILE_SITEMAP_PATTERN.exec(context.params.file);
+  if (!match) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  try {
+    const sitemap = await buildProfileSitemap(Number(match[1]));
+    return sitemap ? xmlResponse(sitemap) : new Response("Not found", { status: 404 });
+  } catch (error) {
+    console.error("❌ Profile sitemap failed:", error instanceof Error ? error.message : error);
+    return new Response("Sitemap unavailable", { status: 503, headers: { "Retry-After": "3600" } });
+  }
+}
@@ -0,0 +1,49 @@
+import Link from "next/link";
+import type { Metadata } from "next";
+
+import { RemovalRequestForm } from "@/components/removal-request-form";
+
+export const metadata: Metadata = {
+  title: "Nummer laten verwijderen · AI Caller ID",
+  description:
+    "Vraag verwijdering van je telefoonnummer aan. We bellen het nummer daarna niet meer en verbergen het profiel.",
+  robots: {
+    index: false,
+    follow: true
+  }
+};
+
+type PageProps = {
+  searchParams: {
+    nummer?: string;
+  };
+};
+
+export default function RemovalRequestPage({ searchParams }: PageProps) {
+  const defaultPhoneNumber = typeof searchParams.nummer === "string" ? searchParams.nummer : "";
+
+  return (
+    <main className="bg-gradient-to-br from-background via-background to-muted pb-16">
+      <div className="mx-auto max-w-2xl px-6 py-16 sm:py-20">
+        <Link
+          className="text-sm font-medium text-muted-foreground underline-offset-4 hover:text-foreground hover:underline"
+          href="/"
+        >
+          ← Terug naar zoekpagina
+        </Link>
+
+        <section className="mt-8 rounded-2xl border border-border bg-card/70 p-8 shadow-sm backdrop-blur">
+          <h1 className="text-balance text-3xl font-semibold">Nummer laten verwijderen</h1>
+          <p className="mt-3 text-sm text-muted-foreground">
+            Is dit jouw nummer en wil je niet dat AI Caller ID het belt of een profiel toont? Bevestig
+            met een code via sms, een gesprek of e-mail dat het jouw nummer is. Daarna verbergen we het
+            profiel direct en zetten we het nummer op onze opt-outlijst.
+          </p>
+          <div className="mt-8">
+            <RemovalRequestForm defaultPhoneNumber={defaultPhoneNumber} />
+          </div>
+        </section>
+      </div>
+    </main>
+  );
+}
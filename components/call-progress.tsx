@@ -3,8 +3,10 @@
 import * as React from "react";
 import { AlertCircle, CheckCircle2, Circle, Loader2 } from "lucide-react";
 
+import { RETRY_REASON_LABELS, describeRetry } from "@/lib/call-retry";
 import { formatDateTime } from "@/lib/format";
-import type { CallAttemptSnapshot, LookupStatusValue } from "@/lib/lookup-status";
+import type { CallState, LookupStatus } from "@/lib/call-state";
+import type { CallAttemptSnapshot } from "@/lib/lookup-status";
 import { cn } from "@/lib/utils";
 
 const STAGES = [
@@ -28,46 +30,17 @@ const STAGES = [
 type StageId = (typeof STAGES)[number]["id"];
 type StageState = "pending" | "active" | "complete" | "error";
 
-const ANALYSIS_KEYWORDS = [
-  "analysis",
-  "analysing",
-  "analyzing",
-  "post_call",
-  "post-call",
-  "post_call_transcription",
-  "post-call-transcription",
-  "post_call_analysis",
-  "post-call-analysis",
-  "transcript",
-  "transcribing",
-  "transcription",
-  "summary",
-  "processing"
-];
-
-const COMPLETED_KEYWORDS = [
-  "complete",
-  "completed",
-  "finished",
-  "success",
-  "succeeded",
-  "done",
-  "resolved",
-  "cached"
-];
-
-const FAILURE_KEYWORDS = [
-  "failed",
-  "error",
-  "timeout",
-  "cancel",
-  "canceled",
-  "cancelled",
-  "hangup",
-  "no_answer",
-  "no-answer",
-  "busy"
-];
+// Every call state belongs to one stage; failures are shown on the stage the call reached
+const CALL_STATE_STAGES: Record<CallState, StageId> = {
+  scheduled: "scheduled",
+  retry_scheduled: "scheduled",
+  dialing: "scheduled",
+  initiating: "scheduled",
+  in_call: "analyzing",
+  completed: "completed",
+  failed: "analyzing",
+  cancelled: "scheduled"
+};
 
 const STATUS_LABELS: Record<string, string> = {
   scheduled: "Call ingepland",
@@ -79,6 +52,7 @@ const STATUS_LABELS: Record<string, string> = {
   call_started: "Gesprek gestart",
   call_initiated: "Gesprek gestart",
   conversation_initiated: "Gesprek wordt gestart",
+  in_call: "Gesprek bezig",
   in_progress: "Gesprek bezig",
   "in-progress": "Gesprek bezig",
   conversation_started: "Gesprek bezig",
@@ -94,19 +68,12 @@ const STATUS_LABELS: Record<string, string> = {
   failed: "Gesprek mislukt",
   error: "Fout opgetreden",
   no_answer: "Geen gehoor",
-  busy: "Lijn bezet"
+  busy: "Lijn bezet",
+  retry_scheduled: "Nieuwe poging ingepland",
+  dialing: "Nieuwe poging wordt gestart",
+  cancelled: "Poging geannuleerd"
 };
 
-function normalize(value?: string | null) {
-  if (!value) return "";
-  // Handle edge cases like "b'Success'" by stripping byte string prefixes
-  return String(value).replace(/^b['"]|['"]$/g, "").trim().toLowerCase();
-}
-
-function matchesAny(value: string, keywords: string[]) {
-  return keywords.some((keyword) => value.includes(keyword));
-}
-
 function formatStatusLabel(value?: string | null) {
   if (!value) return null;
   // Handle edge cases like "b'Success'" by stripping byte string prefixes
@@ -133,7 +100,7 @@ function determineStageStates({
   lookupStatus
 }: {
   callAttempt: CallAttemptSnapshot | null;
-  lookupStatus: LookupStatusValue | null;
+  lookupStatus: LookupStatus | null;
 }): { states: Record<StageId, StageState>; activeIndex: number; hasFailure: boolean; treatAsCompleted: boolean } {
   // If no call attempt exists yet, show stage 0 (pending)
   if (!callAttempt) {
@@ -149,86 +116,15 @@ function determineStageStates({
     };
   }
 
-  const statusValue = normalize(callAttempt?.status);
-  const elevenStatusValue = normalize(callAttempt?.elevenlabs_status);
-  const combinedStatus = [statusValue, elevenStatusValue].filter(Boolean).join(" ");
-
-  // Check payload for event information (webhook stores event in payload)
-  const payload = callAttempt?.payload;
-  const payloadEvent = payload && typeof payload === "object" && "event" in payload 
-    ? normalize(String(payload.event))
-    : "";
-  const payloadType = payload && typeof payload === "object" && "type" in payload
-    ? normalize(String(payload.type))
-    : "";
-  
-  const combinedStatusWithPayload = [combinedStatus, payloadEvent, payloadType].filter(Boolean).join(" ");
-
-  const hasFailure =
-    lookupStatus === "failed" || matchesAny(combinedStatusWithPayload, FAILURE_KEYWORDS);
-
-  // Determine which stage we're at based on sequential progression
-  let activeIndex = 0; // Start at stage 0 (scheduled)
-
-  // Stage 0: Scheduled (always true if callAttempt exists)
-  // Stage 1: Analysis - check if call is being analyzed or post-call transcription is happening
-  
-  const hasAnalysisStarted = matchesAny(combinedStatusWithPayload, ANALYSIS_KEYWORDS);
-  const hasCompletedData = callAttempt?.summary || callAttempt?.transcript;
+  const callState = callAttempt.status ?? "scheduled";
   const treatAsCompleted = lookupStatus === "cached";
-  
-  // Check for post-call events (indicates webhook has processed the call)
-  // This includes post_call_transcription which is the main event we're looking for
-  const hasPostCallEvent = 
-    matchesAny(combinedStatusWithPayload, [
-      "post_call",
-      "post-call",
-      "post_call_transcription",
-      "post-call-transcription",
-      "post_call_analysis",
-      "post-call-analysis",
-      "transcription",
-      "transcribing"
-    ]);
-
-  // Stage 2: Completed - check if truly completed
-  // Only mark as completed if:
-  // 1. Lookup status is cached (definitive)
-  // 2. OR we have completed keywords AND completed data
-  // 3. OR we have post-call event AND completed data (webhook just processed it)
-  const hasCompleted =
-    treatAsCompleted ||
-    (matchesAny(combinedStatusWithPayload, COMPLETED_KEYWORDS) && hasCompletedData) ||
-    (hasPostCallEvent && hasCompletedData);
-
-  // Check if status is just "scheduled" - but only if there are no events/data indicating progress
-  const isJustScheduled = 
-    (statusValue === "scheduled" || elevenStatusValue === "scheduled" || 
-     (statusValue === "" && elevenStatusValue === "")) &&
-    !hasPostCallEvent &&
-    !hasAnalysisStarted &&
-    !hasCompletedData;
-
-  // Determine active stage sequentially (skip dialing stage)
-  // Priority: completed > analysis > scheduled
-  if (treatAsCompleted || (hasCompleted && hasCompletedData)) {
-    // All done - show stage 2 as complete when lookup is cached or we have final data
-    activeIndex = 2;
-  } else if (hasAnalysisStarted || hasPostCallEvent || hasCompletedData) {
-    // Analysis stage - we have data being processed OR post-call events (webhook processing)
-    // This is triggered immediately when post_call_transcription webhook is received
-    // Even if status is still "scheduled", if we have post_call events OR completed data, we're analyzing
-    activeIndex = 1;
-  } else if (isJustScheduled) {
-    // Just scheduled - stay at stage 0
-    activeIndex = 0;
-  } else {
-    // If we have any status that's not scheduled, assume analysis has started
-    activeIndex = 1;
-  }
+  const hasFailure =
+    !treatAsCompleted && (lookupStatus === "failed" || callState === "failed" || callState === "cancelled");
+  const hasCompleted = treatAsCompleted || callState === "completed";
+  const activeIndex = treatAsCompleted
+    ? STAGES.length - 1
+    : STAGES.findIndex((stage) => stage.id === CALL_STATE_STAGES[callState]);
 
-  // Determine active stage sequentially (skip dialing stage)
-  // Priority: completed > analysis > scheduled
   const stageEntries = STAGES.map((stage, index) => {
     let state: StageState = "pending";
 
@@ -239,7 +135,7 @@ function determineStageStates({
     } else if (index === activeIndex) {
       if (hasFailure) {
         state = "error";
-      } else if ((hasCompleted || treatAsCompleted) && isFinalStage) {
+      } else if (hasCompleted && isFinalStage) {
         state = "complete";
       } else {
         state = "active";
@@ -281,10 +177,23 @@ function computeProgressPercentage(stageStates: Record<StageId, StageState>, act
 
 export interface CallProgressProps {
   callAttempt: CallAttemptSnapshot | null;
-  lookupStatus: LookupStatusValue | null;
+  lookupStatus: LookupStatus | null;
   etaSeconds?: number;
 }
 
+function useNow(enabled: boolean, intervalMs = 15000) {
+  const [now, setNow] = React.useState(() => new Date());
+
+  React.useEffect(() => {
+    if (!enabled) return;
+    setNow(new Date());
+    const id = window.setInterval(() => setNow(new Date()), intervalMs);
+    return () => window.clearInterval(id);
+  }, [enabled, intervalMs]);
+
+  return now;
+}
+
 export function CallProgress({ callAttempt, lookupStatus, etaSeconds }: CallProgressProps) {
   const { states, activeIndex, hasFailure, treatAsCompleted } = React.useMemo(
     () => determineStageStates({ callAttempt, lookupStatus }),
@@ -308,6 +217,13 @@ export function CallProgress({ callAttempt, lookupStatus, etaSeconds }: CallProg
   const latestStatusLabel = rawStatusLabel ?? (treatAsCompleted ? "Resultaat beschikbaar" : null);
   const updatedAtLabel = callAttempt?.updated_at ? formatDateTime(callAttempt.updated_at) : null;
 
+  // Re-render periodically so the retry countdown stays accurate between status updates
+  const retry = callAttempt?.retry ?? null;
+  const now = useNow(Boolean(retry));
+  const retryLabel = retry
+    ? `${RETRY_REASON_LABELS[retry.reason]} · ${describeRetry(retry.attempt_number, retry.scheduled_for, now)}`
+    : null;
+
   const etaLabel = (() => {
     if (!etaSeconds || etaSeconds <= 0) return null;
     if (etaSeconds >= 60) {
@@ -380,7 +296,14 @@ export function CallProgress({ callAttempt, lookupStatus, etaSeconds }: CallProg
         })}
       </ul>
 
-      {etaLabel ? <div className="text-xs text-muted-foreground">{etaLabel}</div> : null}
+      {retryLabel ? (
+        <div className="rounded-md border border-primary/30 bg-primary/5 px-3 py-2 text-xs text-foreground">
+          {retryLabel}
+          {retry ? ` (poging ${retry.attempt_number} van ${retry.max_attempts})` : ""}
+        </div>
+      ) : null}
+
+      {etaLabel && !retryLabel ? <div className="text-xs text-muted-foreground">{etaLabel}</div> : null}
 
       {hasFailure && callAttempt?.error_message ? (
         <div className="rounded-md border border-destructive/40 bg-destructive/10 px-3 py-2 text-xs text-destructive">
@@ -8,8 +8,15 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { PhoneInputField } from "@/components/ui/phone-input";
 import { TestTube } from "lucide-react";
+import { listFakeScenarios } from "@/lib/calls/fake/scenarios";
 import { formatDateTime } from "@/lib/format";
-import type { CallAttemptSnapshot, LookupStatusValue } from "@/lib/lookup-status";
+import type { CallState, LookupStatus } from "@/lib/call-state";
+import type {
+  CallAttemptSnapshot,
+  CallRetrySnapshot,
+  LookupStatusPayload,
+  LookupStatusUnchanged
+} from "@/lib/lookup-status";
 import { validatePhoneNumber } from "@/lib/phone";
 import { validatePhoneNumberClient } from "@/lib/phone-client";
 
@@ -118,7 +125,7 @@ type ProfileSnapshot = {
 };
 
 type ApiCallAttempt = {
-  status?: string | null;
+  status?: CallState | null;
   elevenlabs_status?: string | null;
   error_message?: string | null;
   summary?: string | null;
@@ -126,6 +133,8 @@ type ApiCallAttempt = {
   confidence?: number | null;
   updated_at?: string | null;
   payload?: Record<string, unknown> | null;
+  attempt_number?: number | null;
+  retry?: CallRetrySnapshot | null;
 };
 
 function stableStringify(value: unknown): string {
@@ -158,7 +167,9 @@ function computeDataHash(snapshot: CallAttemptSnapshot | null): string {
     transcript: snapshot.transcript ?? null,
     confidence: snapshot.confidence ?? null,
     updated_at: snapshot.updated_at ?? null,
-    payload: snapshot.payload ?? null
+    payload: snapshot.payload ?? null,
+    attempt_number: snapshot.attempt_number ?? null,
+    retry: snapshot.retry ?? null
   };
   
   return stableStringify(relevantFields);
@@ -174,7 +185,7 @@ function areSnapshotsEqual(a: CallAttemptSnapshot | null, b: CallAttemptSnapshot
 function buildCallAttemptSnapshot(
   apiAttempt: ApiCallAttempt | null,
   profile: ProfileSnapshot | null,
-  lookupStatus: LookupStatusValue | undefined
+  lookupStatus: LookupStatus | undefined
 ): CallAttemptSnapshot | null {
   if (!apiAttempt && lookupStatus !== "cached" && !profile) {
     return null;
@@ -196,7 +207,7 @@ function buildCallAttemptSnapshot(
     }
   }
 
-  const statusValue = apiAttempt?.status ?? (shouldForcePostCall ? "post_call_transcription" : null);
+  const statusValue = apiAttempt?.status ?? (shouldForcePostCall ? "completed" : null);
   const elevenStatusValue =
     apiAttempt?.elevenlabs_status ?? (shouldForcePostCall ? "post_call_transcription" : null);
   const summaryValue =
@@ -217,10 +228,23 @@ function buildCallAttemptSnapshot(
     transcript: transcriptValue,
     confidence: confidenceValue ?? null,
     updated_at: updatedAtValue,
-    payload: finalPayload
+    payload: finalPayload,
+    attempt_number: apiAttempt?.attempt_number ?? null,
+    retry: apiAttempt?.retry ?? null
   };
 }
 
+/**
+ * When a rate-limited visitor may try again, e.g. "Probeer het opnieuw over 12 minuten."
+ */
+function describeRetryAfter(retryAt: string, now = new Date()) {
+  const minutes = Math.max(1, Math.ceil((new Date(retryAt).getTime() - now.getTime()) / 60000));
+  if (minutes > 90) {
+    return `Probeer het opnieuw na ${formatDateTime(retryAt)}.`;
+  }
+  return `Probeer het opnieuw over ${minutes} ${minutes === 1 ? "minuut" : "minuten"}.`;
+}
+
 type FormStatus = "idle" | "validating" | "submitting" | "success" | "error";
 
 const isDev = process.env.NODE_ENV !== "production";
@@ -232,7 +256,7 @@ export function LookupForm() {
   const [status, setStatus] = React.useState<FormStatus>("idle");
   const [errorMessage, setErrorMessage] = React.useState<string | null>(null);
   const [result, setResult] = React.useState<LookupResult | null>(null);
-  const [lookupStatus, setLookupStatus] = React.useState<LookupStatusValue | null>(null);
+  const [lookupStatus, setLookupStatus] = React.useState<LookupStatus | null>(null);
   const [callAttempt, setCallAttempt] = React.useState<CallAttemptSnapshot | null>(null);
   const [resultTags, setResultTags] = React.useState<string[]>([]);
   const [isResetting, setIsResetting] = React.useState(false);
@@ -310,6 +334,8 @@ export function LookupForm() {
             setLookupStatus("cached");
           } else if (res.state === "calling") {
             setLookupStatus("calling");
+          } else if (res.state === "rate_limited" || res.state === "quota_exceeded") {
+            setLookupStatus(null);
           } else {
             setLookupStatus("not_found");
           }
@@ -332,313 +358,307 @@ export function LookupForm() {
 
     let stopped = false;
     let intervalId: number | null = null;
+    let eventSource: EventSource | null = null;
     let fetchStatusRef: (() => Promise<void>) | null = null;
     let lastETag: string | null = null;
+    let lastVersion: number | null = null;
     let lastSnapshotHash: string | null = null;
 
-    const fetchStatus = async () => {
-      try {
-        const headers: HeadersInit = {
-          "Cache-Control": "no-cache"
-        };
-        
-        // Add If-None-Match header if we have a previous ETag
-        if (lastETag) {
-          headers["If-None-Match"] = lastETag;
-        }
+    // Called once the result is final
+    const stopUpdates = () => {
+      if (intervalId) {
+        window.clearInterval(intervalId);
+        intervalId = null;
+      }
+      eventSource?.close();
+      eventSource = null;
+    };
 
-        const response = await fetch(`/api/lookups/${lookupId}/status?ts=${Date.now()}`, {
-          cache: "no-store",
-          headers
+    const applyStatus = (data: LookupStatusPayload) => {
+      lastVersion = Math.max(lastVersion ?? 0, data.lookup.version);
+      const profile = data.profile ?? null;
+
+      // Debug logging for profile data
+      if (isDev && profile) {
+        console.log("📋 Profile data received", {
+          callerName: profile.callerName,
+          normalized: profile.normalized,
+          hasSummary: !!profile.summary,
+          hasTranscriptPreview: !!profile.transcriptPreview,
+          confidence: profile.confidence,
+          tags: profile.tags
         });
+      }
 
-        // Handle 304 Not Modified response
-        if (response.status === 304) {
-          // No changes, skip processing
-          return;
-        }
-
-        if (!response.ok) {
-          return;
-        }
-
-        // Store ETag for next request
-        const etag = response.headers.get("ETag");
-        if (etag) {
-          lastETag = etag;
-        }
+      const latestStatus = data.lookup.status ?? undefined;
+      
+      if (latestStatus) {
+        setLookupStatus((prev) => (prev !== latestStatus ? latestStatus : prev));
+      }
 
-        const data = await response.json();
-        if (stopped) return;
+      const nextCallAttempt = buildCallAttemptSnapshot(
+        (data.callAttempt ?? null) as ApiCallAttempt | null,
+        profile,
+        latestStatus
+      );
+
+      // Compute hash for change detection
+      const nextHash = computeDataHash(nextCallAttempt);
+      const hasChanged = nextHash !== lastSnapshotHash;
+
+      // Debug logging in development
+      if (isDev) {
+        console.log("📊 Status update", {
+          lookupId,
+          hashChanged: hasChanged,
+          previousHash: lastSnapshotHash?.substring(0, 50) ?? "null",
+          nextHash: nextHash.substring(0, 50),
+          nextCallAttempt: {
+            status: nextCallAttempt?.status,
+            elevenlabs_status: nextCallAttempt?.elevenlabs_status,
+            hasSummary: !!nextCallAttempt?.summary,
+            hasTranscript: !!nextCallAttempt?.transcript,
+            updated_at: nextCallAttempt?.updated_at
+          },
+          hasProfile: !!profile,
+          latestStatus,
+          rawApiData: {
+            status: data.callAttempt?.status,
+            elevenlabs_status: data.callAttempt?.elevenlabs_status,
+            hasSummary: !!data.callAttempt?.summary,
+            hasTranscript: !!data.callAttempt?.transcript
+          }
+        });
+      }
 
-        const profile = data.profile ?? null;
-
-        // Debug logging for profile data
-        if (isDev && profile) {
-          console.log("📋 Profile data received", {
-            callerName: profile.callerName,
-            normalized: profile.normalized,
-            hasSummary: !!profile.summary,
-            hasTranscriptPreview: !!profile.transcriptPreview,
-            confidence: profile.confidence,
-            tags: profile.tags
-          });
-        }
+      // Update hash tracker for next comparison
+      lastSnapshotHash = nextHash;
 
-        const latestStatus = data.lookup?.status as LookupStatusValue | undefined;
-        
-        if (latestStatus) {
-          setLookupStatus((prev) => (prev !== latestStatus ? latestStatus : prev));
+      // Always update callAttempt state to ensure UI reflects latest data
+      setCallAttempt((prev) => {
+        // Double-check with areSnapshotsEqual for extra safety
+        if (areSnapshotsEqual(prev, nextCallAttempt)) {
+          return prev;
         }
 
-        const nextCallAttempt = buildCallAttemptSnapshot(
-          (data.callAttempt ?? null) as ApiCallAttempt | null,
-          profile,
-          latestStatus
-        );
-
-        // Compute hash for change detection
-        const nextHash = computeDataHash(nextCallAttempt);
-        const hasChanged = nextHash !== lastSnapshotHash;
-
-        // Debug logging in development
-        if (isDev) {
-          console.log("📊 Poll check", {
-            lookupId,
-            hashChanged: hasChanged,
-            previousHash: lastSnapshotHash?.substring(0, 50) ?? "null",
-            nextHash: nextHash.substring(0, 50),
-            nextCallAttempt: {
-              status: nextCallAttempt?.status,
-              elevenlabs_status: nextCallAttempt?.elevenlabs_status,
-              hasSummary: !!nextCallAttempt?.summary,
-              hasTranscript: !!nextCallAttempt?.transcript,
-              updated_at: nextCallAttempt?.updated_at
-            },
-            hasProfile: !!profile,
-            latestStatus,
-            rawApiData: {
-              status: data.callAttempt?.status,
-              elevenlabs_status: data.callAttempt?.elevenlabs_status,
-              hasSummary: !!data.callAttempt?.summary,
-              hasTranscript: !!data.callAttempt?.transcript
-            }
+        // Log only when there's an actual change
+        if (hasChanged && isDev) {
+          console.log("✅ Call attempt updated", {
+            status: nextCallAttempt?.status ?? null,
+            elevenlabs_status: nextCallAttempt?.elevenlabs_status ?? null,
+            hasSummary: !!nextCallAttempt?.summary,
+            hasTranscript: !!nextCallAttempt?.transcript
           });
         }
 
-        // Update hash tracker for next comparison
-        lastSnapshotHash = nextHash;
+        return nextCallAttempt;
+      });
 
-        // Always update callAttempt state to ensure UI reflects latest data
-        setCallAttempt((prev) => {
-          // Double-check with areSnapshotsEqual for extra safety
-          if (areSnapshotsEqual(prev, nextCallAttempt)) {
+      // Check if we have enough data to show a cached result
+      const hasProfileData =
+        profile &&
+        (profile.callerName || profile.summary || profile.transcriptPreview);
+      const hasCallAttemptData =
+        nextCallAttempt &&
+        (nextCallAttempt.summary || nextCallAttempt.transcript);
+      
+      const hasCompletedCall = nextCallAttempt?.status === "completed";
+
+      // Show cached result if:
+      // 1. Lookup status is cached (webhook already processed it)
+      // 2. OR the call completed AND we have profile or call attempt data (lookup update still on its way)
+      const shouldShowCachedResult =
+        latestStatus === "cached" || (hasCompletedCall && (hasProfileData || hasCallAttemptData));
+
+      if (shouldShowCachedResult) {
+        const attemptPayload = nextCallAttempt?.payload ?? null;
+        const derivedName = extractNameFromPayload(attemptPayload);
+        const summaryText =
+          profile?.summary ??
+          nextCallAttempt?.summary ??
+          nextCallAttempt?.transcript ??
+          "Samenvatting volgt zodra de agent klaar is.";
+        const confidenceValue =
+          profile?.confidence ?? nextCallAttempt?.confidence ?? null;
+        const lastCheckedSource =
+          profile?.lastChecked ?? nextCallAttempt?.updated_at ?? new Date().toISOString();
+
+        setResult((prev) => {
+          if (!prev) {
             return prev;
           }
 
-          // Log only when there's an actual change
-          if (hasChanged && isDev) {
-            console.log("✅ Call attempt updated", {
-              status: nextCallAttempt?.status ?? null,
-              elevenlabs_status: nextCallAttempt?.elevenlabs_status ?? null,
-              hasSummary: !!nextCallAttempt?.summary,
-              hasTranscript: !!nextCallAttempt?.transcript
-            });
+          const prevLookupId = (prev as { lookupId?: string }).lookupId;
+          if (prevLookupId && prevLookupId !== lookupId) {
+            return prev;
           }
 
-          return nextCallAttempt;
+          const callerName =
+            profile?.callerName ??
+            derivedName ??
+            (prev.state === "cached" ? prev.callerName : null) ?? // Preserve existing callerName if available
+            "Onbekende beller";
+
+          return {
+            state: "cached",
+            normalized:
+              profile?.normalized ??
+              data.lookup?.normalized ??
+              prev.normalized,
+            callerName,
+            lastChecked: formatDateTime(lastCheckedSource),
+            summary: summaryText,
+            confidence:
+              confidenceValue ??
+              (prev.state === "cached" ? prev.confidence : 0),
+            refreshing: prev.state === "cached" ? prev.refreshing : undefined,
+            numberDescription:
+              prev.state === "cached" || prev.state === "calling" ? prev.numberDescription : undefined,
+            lookupId,
+            debugMessage: prev.debugMessage
+          };
         });
 
-        // Check if we have enough data to show a cached result
-        const hasProfileData =
-          profile &&
-          (profile.callerName || profile.summary || profile.transcriptPreview);
-        const hasCallAttemptData =
-          nextCallAttempt &&
-          (nextCallAttempt.summary || nextCallAttempt.transcript);
-        
-        // Normalize status values to handle edge cases like "b'Success'"
-        const normalizeStatusForCheck = (value?: string | null) => {
-          if (!value) return "";
-          const str = String(value).replace(/^b['"]|['"]$/g, "").trim().toLowerCase();
-          return str;
-        };
-        
-        const elevenStatusNormalized = normalizeStatusForCheck(nextCallAttempt?.elevenlabs_status);
-        const statusNormalized = normalizeStatusForCheck(nextCallAttempt?.status);
-        
-        // Check payload for event information (webhook stores event in payload)
-        const payload = nextCallAttempt?.payload;
-        const payloadEvent = payload && typeof payload === "object" && "event" in payload 
-          ? normalizeStatusForCheck(String(payload.event))
-          : "";
-        const payloadType = payload && typeof payload === "object" && "type" in payload
-          ? normalizeStatusForCheck(String(payload.type))
-          : "";
-        
-        // Check for post-call events (webhook indicates completion)
-        // Specifically check for post_call_transcription which is the main event we're looking for
-        const hasPostCallEvent = 
-          elevenStatusNormalized.includes("post_call_transcription") ||
-          elevenStatusNormalized.includes("post-call-transcription") ||
-          elevenStatusNormalized.includes("post_call") ||
-          elevenStatusNormalized.includes("post-call") ||
-          statusNormalized.includes("post_call_transcription") ||
-          statusNormalized.includes("post-call-transcription") ||
-          statusNormalized.includes("post_call") ||
-          statusNormalized.includes("post-call") ||
-          elevenStatusNormalized.includes("transcription") ||
-          statusNormalized.includes("transcription") ||
-          payloadEvent.includes("post_call_transcription") ||
-          payloadEvent.includes("post-call-transcription") ||
-          payloadEvent.includes("post_call") ||
-          payloadEvent.includes("post-call") ||
-          payloadEvent.includes("transcription") ||
-          payloadType.includes("post_call_transcription") ||
-          payloadType.includes("post-call-transcription") ||
-          payloadType.includes("post_call") ||
-          payloadType.includes("post-call") ||
-          payloadType.includes("transcription");
-        
-        const hasCompletedStatus =
-          latestStatus === "cached" ||
-          (nextCallAttempt &&
-            (elevenStatusNormalized.includes("success") ||
-              elevenStatusNormalized.includes("completed") ||
-              elevenStatusNormalized.includes("finished") ||
-              elevenStatusNormalized.includes("succeeded") ||
-              statusNormalized.includes("success") ||
-              statusNormalized.includes("completed") ||
-              statusNormalized.includes("finished") ||
-              statusNormalized.includes("succeeded") ||
-              hasPostCallEvent));
-
-        // Show cached result if:
-        // 1. Lookup status is cached (webhook already processed it)
-        // 2. OR we have completed status AND (profile data OR call attempt data)
-        // 3. OR we have post-call event AND call attempt data (webhook just processed it)
-        const shouldShowCachedResult =
-          latestStatus === "cached" ||
-          (hasCompletedStatus && (hasProfileData || hasCallAttemptData)) ||
-          (hasPostCallEvent && hasCallAttemptData);
-
-        if (shouldShowCachedResult) {
-          const attemptPayload = nextCallAttempt?.payload ?? null;
-          const derivedName = extractNameFromPayload(attemptPayload);
-          const summaryText =
-            profile?.summary ??
-            nextCallAttempt?.summary ??
-            nextCallAttempt?.transcript ??
-            "Samenvatting volgt zodra de agent klaar is.";
-          const confidenceValue =
-            profile?.confidence ?? nextCallAttempt?.confidence ?? null;
-          const lastCheckedSource =
-            profile?.lastChecked ?? nextCallAttempt?.updated_at ?? new Date().toISOString();
-
-          setResult((prev) => {
-            if (!prev) {
-              return prev;
-            }
+        setResultTags((prev) => {
+          const profileTags = Array.isArray(profile?.tags)
+            ? profile.tags.filter(
+                (tag: unknown): tag is string => typeof tag === "string" && tag.trim().length > 0
+              )
+            : [];
 
-            const prevLookupId = (prev as { lookupId?: string }).lookupId;
-            if (prevLookupId && prevLookupId !== lookupId) {
-              return prev;
-            }
+          if (profileTags.length > 0) {
+            return profileTags;
+          }
 
-            const callerName =
-              profile?.callerName ??
-              derivedName ??
-              (prev.state === "cached" ? prev.callerName : null) ?? // Preserve existing callerName if available
-              "Onbekende beller";
-
-            return {
-              state: "cached",
-              normalized:
-                profile?.normalized ??
-                data.lookup?.normalized ??
-                data.lookup?.raw_input ??
-                prev.normalized,
-              callerName,
-              lastChecked: formatDateTime(lastCheckedSource),
-              summary: summaryText,
-              confidence:
-                confidenceValue ??
-                (prev.state === "cached" ? prev.confidence : 0),
-              lookupId,
-              debugMessage: prev.debugMessage
-            };
-          });
+          const caller = profile?.callerName ?? derivedName ?? null;
+          const derivedTag = deriveEntityTag(summaryText, caller);
 
-          setResultTags((prev) => {
-            const profileTags = Array.isArray(profile?.tags)
-              ? profile.tags.filter(
-                  (tag: unknown): tag is string => typeof tag === "string" && tag.trim().length > 0
-                )
-              : [];
+          if (derivedTag) {
+            return prev.includes(derivedTag) ? prev : [...prev, derivedTag];
+          }
 
-            if (profileTags.length > 0) {
-              return profileTags;
-            }
+          return prev;
+        });
 
-            const caller = profile?.callerName ?? derivedName ?? null;
-            const derivedTag = deriveEntityTag(summaryText, caller);
+        // Update lookup status if it's still "calling" but we have completed data
+        // This ensures the UI reflects the correct status even if the backend hasn't updated yet
+        if (latestStatus !== "cached" && hasCompletedCall) {
+          setLookupStatus("cached");
+        }
 
-            if (derivedTag) {
-              return prev.includes(derivedTag) ? prev : [...prev, derivedTag];
-            }
+        stopUpdates();
+      }
 
+      if (latestStatus === "failed") {
+        setResult((prev) => {
+          if (!prev) {
             return prev;
-          });
-
-          // Update lookup status if it's still "calling" but we have completed data
-          // This ensures the UI reflects the correct status even if the backend hasn't updated yet
-          if (latestStatus !== "cached" && (hasCompletedStatus || hasPostCallEvent)) {
-            setLookupStatus("cached");
           }
 
-          if (intervalId) {
-            window.clearInterval(intervalId);
-            intervalId = null;
+          const prevLookupId = (prev as { lookupId?: string }).lookupId;
+          if (prevLookupId && prevLookupId !== lookupId) {
+            return prev;
           }
+
+          return {
+            state: "not_found",
+            normalized: data.lookup?.normalized ?? prev.normalized,
+            message:
+              nextCallAttempt?.error_message ??
+              (prev.state === "not_found"
+                ? prev.message
+                : "De AI-call is mislukt. Probeer het later opnieuw."),
+            lookupId
+          };
+        });
+
+        stopUpdates();
+      }
+    };
+
+    const fetchStatus = async () => {
+      try {
+        const headers: HeadersInit = {
+          "Cache-Control": "no-cache"
+        };
+        
+        // Add If-None-Match header if we have a previous ETag
+        if (lastETag) {
+          headers["If-None-Match"] = lastETag;
         }
 
-        if (latestStatus === "failed") {
-          setResult((prev) => {
-            if (!prev) {
-              return prev;
-            }
+        // The route answers `unchanged` right away until a newer version than ours is written
+        const since = lastVersion !== null ? `&since=${lastVersion}` : "";
+        const response = await fetch(`/api/lookups/${lookupId}/status?ts=${Date.now()}${since}`, {
+          cache: "no-store",
+          headers
+        });
 
-            const prevLookupId = (prev as { lookupId?: string }).lookupId;
-            if (prevLookupId && prevLookupId !== lookupId) {
-              return prev;
-            }
+        // Handle 304 Not Modified response
+        if (response.status === 304) {
+          // No changes, skip processing
+          return;
+        }
 
-            return {
-              state: "not_found",
-              normalized: data.lookup?.normalized ?? prev.normalized,
-              message:
-                nextCallAttempt?.error_message ??
-                (prev.state === "not_found"
-                  ? prev.message
-                  : "De AI-call is mislukt. Probeer het later opnieuw."),
-              lookupId
-            };
-          });
+        if (!response.ok) {
+          return;
+        }
 
-          if (intervalId) {
-            window.clearInterval(intervalId);
-            intervalId = null;
-          }
+        // Store ETag for next request
+        const etag = response.headers.get("ETag");
+        if (etag) {
+          lastETag = etag;
         }
+
+        const data = (await response.json()) as LookupStatusPayload | LookupStatusUnchanged;
+        if (stopped || "unchanged" in data) return;
+
+        applyStatus(data);
       } catch {
         // Ignore polling errors; next interval will retry.
       }
     };
 
+    const startPolling = () => {
+      if (stopped || intervalId) return;
+      fetchStatus();
+      // Shorter interval in development for faster testing
+      intervalId = window.setInterval(fetchStatus, isDev ? 2000 : 5000);
+    };
+
     fetchStatusRef = fetchStatus;
-    fetchStatus();
-    // Shorter interval in development for faster testing
-    intervalId = window.setInterval(fetchStatus, isDev ? 2000 : 5000);
+
+    // Live updates are pushed over Server-Sent Events; polling is only the fallback
+    if (typeof window.EventSource === "function") {
+      const source = new EventSource(`/api/lookups/${lookupId}/events`);
+      let hasReceivedStatus = false;
+      eventSource = source;
+
+      source.addEventListener("status", (event) => {
+        hasReceivedStatus = true;
+        if (stopped) return;
+        applyStatus(JSON.parse((event as MessageEvent<string>).data) as LookupStatusPayload);
+      });
+      source.addEventListener("done", () => {
+        source.close();
+      });
+      source.onerror = () => {
+        // A stream that worked reconnects by itself when the server ends it; one that never did falls back
+        if (hasReceivedStatus && source.readyState !== EventSource.CLOSED) {
+          return;
+        }
+        if (isDev) {
+          console.log("📡 Status stream unavailable, falling back to polling", { lookupId });
+        }
+        source.close();
+        if (eventSource === source) {
+          eventSource = null;
+        }
+        startPolling();
+      };
+    } else {
+      startPolling();
+    }
 
     // Listen for manual refresh events (triggered after webhook simulation)
     const handleRefresh = () => {
@@ -655,9 +675,7 @@ export function LookupForm() {
 
     return () => {
       stopped = true;
-      if (intervalId) {
-        window.clearInterval(intervalId);
-      }
+      stopUpdates();
       window.removeEventListener("refresh-status", handleRefresh);
     };
   }, [result?.lookupId]);
@@ -725,7 +743,6 @@ export function LookupForm() {
             callAttempt={callAttempt}
             lookupStatus={lookupStatus}
             tags={resultTags}
-            setCallAttempt={setCallAttempt}
             showDevTools={showDevTools}
           />
         ) : null}
@@ -774,14 +791,12 @@ function ResultCard({
   callAttempt,
   lookupStatus,
   tags,
-  setCallAttempt,
   showDevTools
 }: {
   result: LookupResult;
   callAttempt: CallAttemptSnapshot | null;
-  lookupStatus: LookupStatusValue | null;
+  lookupStatus: LookupStatus | null;
   tags: string[];
-  setCallAttempt: React.Dispatch<React.SetStateAction<CallAttemptSnapshot | null>>;
   showDevTools: boolean;
 }) {
   if (result.state === "cached") {
@@ -792,8 +807,14 @@ function ResultCard({
         </div>
         <h3 className="mt-2 text-xl font-semibold">{result.callerName}</h3>
         <p className="mt-2 text-sm text-muted-foreground">{result.summary}</p>
+        {result.refreshing ? (
+          <p className="mt-2 text-sm text-muted-foreground">
+            We controleren dit nummer opnieuw. Het resultaat wordt bijgewerkt zodra de nieuwe call klaar is.
+          </p>
+        ) : null}
         <div className="mt-3 text-xs text-muted-foreground">
           Nummer: {result.normalized}
+          {result.numberDescription ? ` · ${result.numberDescription}` : null}
         </div>
         {tags.length > 0 ? (
           <div className="mt-3 flex flex-wrap gap-2">
@@ -828,17 +849,66 @@ function ResultCard({
           lookupStatus={lookupStatus}
           etaSeconds={result.etaSeconds}
         />
-        <div className="mt-4 text-xs text-muted-foreground">Nummer: {result.normalized}</div>
+        <div className="mt-4 text-xs text-muted-foreground">
+          Nummer: {result.normalized}
+          {result.numberDescription ? ` · ${result.numberDescription}` : null}
+        </div>
         {isDev && result.debugMessage ? (
           <p className="mt-3 text-xs text-destructive">{result.debugMessage}</p>
         ) : null}
       {showDevTools && result.lookupId ? (
-        <WebhookSimulator lookupId={result.lookupId} setCallAttempt={setCallAttempt} />
+        <WebhookSimulator lookupId={result.lookupId} />
       ) : null}
       </div>
     );
   }
 
+  if (result.state === "rate_limited") {
+    return (
+      <div className="rounded-lg border border-border bg-muted/40 p-4 text-left shadow-sm">
+        <div className="text-sm font-medium text-secondary-foreground uppercase tracking-wide">
+          Even geduld
+        </div>
+        <p className="mt-2 text-sm text-muted-foreground">{result.message}</p>
+        <p className="mt-2 text-sm text-muted-foreground">{describeRetryAfter(result.retryAt)}</p>
+        <div className="mt-3 text-xs text-muted-foreground">
+          Nummer: {result.normalized}
+        </div>
+      </div>
+    );
+  }
+
+  if (result.state === "quota_exceeded") {
+    return (
+      <div className="rounded-lg border border-border bg-muted/40 p-4 text-left shadow-sm">
+        <div className="text-sm font-medium text-secondary-foreground uppercase tracking-wide">
+          Belbudget bereikt
+        </div>
+        <p className="mt-2 text-sm text-muted-foreground">{result.message}</p>
+        <p className="mt-2 text-sm text-muted-foreground">
+          Nieuwe calls zijn weer mogelijk vanaf {formatDateTime(result.resetsAt)}.
+        </p>
+        <div className="mt-3 text-xs text-muted-foreground">
+          Nummer: {result.normalized}
+        </div>
+      </div>
+    );
+  }
+
+  if (result.state === "suppressed") {
+    return (
+      <div className="rounded-lg border border-border bg-muted/40 p-4 text-left shadow-sm">
+        <div className="text-sm font-medium text-secondary-foreground uppercase tracking-wide">
+          Verwijderd op verzoek
+        </div>
+        <p className="mt-2 text-sm text-muted-foreground">{result.message}</p>
+        <div className="mt-3 text-xs text-muted-foreground">
+          Nummer: {result.normalized}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="rounded-lg border border-border bg-secondary/10 p-4 text-left shadow-sm">
       <div className="text-sm font-medium text-secondary-foreground uppercase tracking-wide">
@@ -855,7 +925,7 @@ function ResultCard({
         <p className="mt-3 text-xs text-destructive">{result.debugMessage}</p>
       ) : null}
       {showDevTools && result.lookupId ? (
-        <WebhookSimulator lookupId={result.lookupId} setCallAttempt={setCallAttempt} />
+        <WebhookSimulator lookupId={result.lookupId} />
       ) : null}
     </div>
   );
@@ -891,71 +961,44 @@ function DevUtilities({
   );
 }
 
-function WebhookSimulator({ 
-  lookupId, 
-  setCallAttempt 
-}: { 
-  lookupId: string;
-  setCallAttempt: React.Dispatch<React.SetStateAction<CallAttemptSnapshot | null>>;
-}) {
+function WebhookSimulator({ lookupId }: { lookupId: string }) {
   const [isSimulating, setIsSimulating] = React.useState(false);
   const [lastEvent, setLastEvent] = React.useState<string | null>(null);
   const [callerName, setCallerName] = React.useState<string>("");
 
-  const simulateWebhook = async (event: string) => {
+  const runScenario = async (scenario: string) => {
     setIsSimulating(true);
-    setLastEvent(null);
-    
+    setLastEvent(scenario);
+
     try {
-      console.log("🚀 Starting webhook simulation:", { lookupId, event });
-      console.log("🔍 setCallAttempt type:", typeof setCallAttempt, setCallAttempt);
-      
-      const response = await fetch(`/api/test/webhook-simulation?lookupId=${lookupId}&event=${event}`, {
-        method: "POST"
-      });
-      
+      console.log("🚀 Starting fake call scenario:", { lookupId, scenario });
+
+      const url = new URL(`/api/test/fake-call`, window.location.origin);
+      url.searchParams.set("lookupId", lookupId);
+      url.searchParams.set("scenario", scenario);
+      if (callerName.trim()) url.searchParams.set("callerName", callerName.trim());
+
+      const response = await fetch(url.toString(), { method: "POST" });
       const data = await response.json();
-      
-      if (response.ok) {
-        setLastEvent(event);
-        console.log("✅ Webhook simulated:", data);
-        
-        // If the response contains updated callAttempt data, use it directly
-        if (data.callAttempt) {
-          const snapshot = buildCallAttemptSnapshot(
-            data.callAttempt as ApiCallAttempt,
-            null,
-            data.lookup?.status as LookupStatusValue | undefined
-          );
-          setCallAttempt(snapshot);
 
-          const refreshDelayMs = 3000;
-          setTimeout(() => {
-            if (isDev) {
-              console.log("🔄 Triggering delayed refresh after simulator update");
-            }
-            window.dispatchEvent(new Event("refresh-status"));
-          }, refreshDelayMs);
-        } else {
-          // No callAttempt in response - trigger immediate refresh to fetch it
-          if (isDev) {
-            console.log("🔄 Triggering immediate refresh (no callAttempt in response)");
-          }
-          window.dispatchEvent(new Event("refresh-status"));
-          
-          // Backup refresh after short delay
-          setTimeout(() => {
-            console.log("🔄 Triggering backup refresh");
-            window.dispatchEvent(new Event("refresh-status"));
-          }, 1000);
-        }
-      } else {
-        console.error("❌ Webhook simulation failed:", data);
-        alert(`Failed to simulate webhook: ${data.error || "Unknown error"}`);
+      if (!response.ok) {
+        console.error("❌ Fake call scenario failed:", data);
+        alert(`Failed to run scenario: ${data.error || "Unknown error"}`);
+        return;
+      }
+
+      console.log("✅ Fake call scenario started:", data);
+
+      // Refresh after every planned webhook so each step shows up
+      const planned = Array.isArray(data.planned) ? (data.planned as Array<{ delayMs: number }>) : [];
+      let elapsedMs = 0;
+      for (const step of planned) {
+        elapsedMs += step.delayMs;
+        setTimeout(() => window.dispatchEvent(new Event("refresh-status")), elapsedMs + 1000);
       }
     } catch (error) {
-      console.error("❌ Webhook simulation error:", error);
-      alert(`Error simulating webhook: ${error instanceof Error ? error.message : "Unknown error"}`);
+      console.error("❌ Fake call scenario error:", error);
+      alert(`Error running scenario: ${error instanceof Error ? error.message : "Unknown error"}`);
     } finally {
       setIsSimulating(false);
     }
@@ -1014,50 +1057,24 @@ function WebhookSimulator({
         </Button>
       </div>
       <div className="flex flex-wrap gap-2">
-        <Button
-          type="button"
-          variant="outline"
-          size="sm"
-          onClick={() => simulateWebhook("post_call_transcription")}
-          disabled={isSimulating}
-          className="h-7 text-xs"
-        >
-          {isSimulating && lastEvent === "post_call_transcription" ? "..." : "📞 Post Call"}
-        </Button>
-        <Button
-          type="button"
-          variant="outline"
-          size="sm"
-          onClick={() => simulateWebhook("initiating")}
-          disabled={isSimulating}
-          className="h-7 text-xs"
-        >
-          {isSimulating && lastEvent === "initiating" ? "..." : "▶️ Initiate"}
-        </Button>
-        <Button
-          type="button"
-          variant="outline"
-          size="sm"
-          onClick={() => simulateWebhook("scheduled")}
-          disabled={isSimulating}
-          className="h-7 text-xs"
-        >
-          {isSimulating && lastEvent === "scheduled" ? "..." : "⏸️ Scheduled"}
-        </Button>
-        <Button
-          type="button"
-          variant="outline"
-          size="sm"
-          onClick={() => simulateWebhook("completed")}
-          disabled={isSimulating}
-          className="h-7 text-xs"
-        >
-          {isSimulating && lastEvent === "completed" ? "..." : "✅ Completed"}
-        </Button>
+        {listFakeScenarios().map((scenario) => (
+          <Button
+            key={scenario.id}
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => runScenario(scenario.id)}
+            disabled={isSimulating}
+            className="h-7 text-xs"
+            title={scenario.description}
+          >
+            {isSimulating && lastEvent === scenario.id ? "..." : scenario.label}
+          </Button>
+        ))}
       </div>
       {lastEvent && (
         <p className="mt-2 text-xs text-muted-foreground">
-          Laatste event: <span className="font-medium">{lastEvent}</span> (wacht ~5 sec voor update)
+          Laatste scenario: <span className="font-medium">{lastEvent}</span> (webhooks volgen in ~10 sec)
         </p>
       )}
     </div>
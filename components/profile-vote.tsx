@@ -0,0 +1,141 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { ThumbsDown, ThumbsUp } from "lucide-react";
+
+import { submitProfileReport } from "@/app/actions/report";
+import { REPORT_REASONS } from "@/lib/reports";
+import type { ProfileVote as ProfileVoteValue } from "@/lib/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+
+type FormStatus = "idle" | "submitting" | "success" | "error";
+
+export function ProfileVote({ phoneNumber }: { phoneNumber: string }) {
+  const router = useRouter();
+  const [vote, setVote] = React.useState<ProfileVoteValue | null>(null);
+  const [reason, setReason] = React.useState<string | null>(null);
+  const [note, setNote] = React.useState("");
+  const [status, setStatus] = React.useState<FormStatus>("idle");
+  const [message, setMessage] = React.useState<string | null>(null);
+  const [isPending, startTransition] = React.useTransition();
+
+  const reasons = vote ? Object.entries(REPORT_REASONS[vote]) : [];
+
+  const handleVote = (value: ProfileVoteValue) => {
+    setVote(value);
+    setReason(null);
+    setMessage(null);
+    setStatus("idle");
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!vote || !reason) {
+      setStatus("error");
+      setMessage("Kies een reden.");
+      return;
+    }
+
+    startTransition(() => {
+      setStatus("submitting");
+      submitProfileReport({ phoneNumber, vote, reason, note })
+        .then((result) => {
+          setStatus(result.status);
+          setMessage(result.message);
+          if (result.status === "success") {
+            setNote("");
+            router.refresh();
+          }
+        })
+        .catch(() => {
+          setStatus("error");
+          setMessage("Er ging iets mis. Probeer het over een paar minuten opnieuw.");
+        });
+    });
+  };
+
+  return (
+    <div className="rounded-2xl border border-border bg-card/60 p-6 shadow-sm backdrop-blur">
+      <h3 className="text-base font-semibold">Klopt dit?</h3>
+      <p className="mt-2 text-sm text-muted-foreground">
+        Werd je door dit nummer gebeld? Laat weten of de gegevens kloppen.
+      </p>
+
+      <div className="mt-4 grid grid-cols-2 gap-2">
+        <Button
+          disabled={isPending}
+          onClick={() => handleVote("confirm")}
+          type="button"
+          variant={vote === "confirm" ? "default" : "outline"}
+        >
+          <ThumbsUp className="mr-2 h-4 w-4" aria-hidden />
+          Klopt
+        </Button>
+        <Button
+          disabled={isPending}
+          onClick={() => handleVote("dispute")}
+          type="button"
+          variant={vote === "dispute" ? "default" : "outline"}
+        >
+          <ThumbsDown className="mr-2 h-4 w-4" aria-hidden />
+          Klopt niet
+        </Button>
+      </div>
+
+      {vote ? (
+        <form className="mt-4 space-y-3" onSubmit={handleSubmit} noValidate>
+          <fieldset className="space-y-2">
+            <legend className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+              Reden
+            </legend>
+            <div className="flex flex-wrap gap-2">
+              {reasons.map(([value, label]) => (
+                <button
+                  key={value}
+                  className={cn(
+                    "rounded-full border px-3 py-1 text-sm transition-colors",
+                    reason === value
+                      ? "border-primary bg-primary/10 text-foreground"
+                      : "border-border bg-background/80 text-muted-foreground hover:text-foreground"
+                  )}
+                  disabled={isPending}
+                  onClick={() => setReason(value)}
+                  type="button"
+                  aria-pressed={reason === value}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </fieldset>
+          <Input
+            aria-label="Toelichting (optioneel)"
+            disabled={isPending}
+            maxLength={280}
+            onChange={(event) => setNote(event.target.value)}
+            placeholder="Toelichting (optioneel)"
+            value={note}
+          />
+          <Button className="w-full" disabled={isPending || !reason} type="submit">
+            {isPending ? "Versturen…" : "Verstuur melding"}
+          </Button>
+        </form>
+      ) : null}
+
+      {message ? (
+        <p
+          className={cn(
+            "mt-3 text-sm",
+            status === "error" ? "text-destructive" : "text-muted-foreground"
+          )}
+          aria-live="polite"
+        >
+          {message}
+        </p>
+      ) : null}
+    </div>
+  );
+}
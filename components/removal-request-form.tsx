@@ -0,0 +1,207 @@
+"use client";
+
+import * as React from "react";
+
+import { confirmNumberRemoval, requestNumberRemoval } from "@/app/actions/removal";
+import { validateRemovalRequest } from "@/lib/forms";
+import type { VerificationMethod } from "@/lib/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { PhoneInputField } from "@/components/ui/phone-input";
+import { cn } from "@/lib/utils";
+
+type FormStatus = "idle" | "validating" | "submitting" | "code_sent" | "success" | "error";
+
+const METHOD_OPTIONS: Array<{ value: VerificationMethod; label: string; description: string }> = [
+  { value: "sms", label: "Sms", description: "Code per sms naar dit nummer" },
+  { value: "voice", label: "Gesprek", description: "We bellen en lezen de code voor" },
+  { value: "email", label: "E-mail", description: "Code naar je e-mailadres" }
+];
+
+export function RemovalRequestForm({ defaultPhoneNumber = "" }: { defaultPhoneNumber?: string }) {
+  const [phoneNumber, setPhoneNumber] = React.useState(defaultPhoneNumber);
+  const [method, setMethod] = React.useState<VerificationMethod>("sms");
+  const [email, setEmail] = React.useState("");
+  const [reason, setReason] = React.useState("");
+  const [requestId, setRequestId] = React.useState<string | null>(null);
+  const [code, setCode] = React.useState("");
+  const [status, setStatus] = React.useState<FormStatus>("idle");
+  const [message, setMessage] = React.useState<string | null>(null);
+  const [isPending, startTransition] = React.useTransition();
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setMessage(null);
+    setStatus("validating");
+
+    const validation = validateRemovalRequest({ phoneNumber, method, email, reason });
+    if (!validation.success) {
+      setStatus("error");
+      setMessage(validation.message);
+      return;
+    }
+
+    startTransition(() => {
+      setStatus("submitting");
+      requestNumberRemoval({ phoneNumber: validation.data.phoneNumber, method, email, reason })
+        .then((result) => {
+          if (result.status === "code_sent") {
+            setRequestId(result.requestId);
+            setStatus("code_sent");
+          } else {
+            setStatus("error");
+          }
+          setMessage(result.message);
+        })
+        .catch(() => {
+          setStatus("error");
+          setMessage("Er ging iets mis. Probeer het over een paar minuten opnieuw.");
+        });
+    });
+  };
+
+  const handleConfirm = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!requestId) {
+      return;
+    }
+
+    startTransition(() => {
+      confirmNumberRemoval({ requestId, code })
+        .then((result) => {
+          // Keep the code step open on a wrong code so the user can retry.
+          setStatus(result.status === "success" ? "success" : "code_sent");
+          setMessage(result.message);
+        })
+        .catch(() => {
+          setMessage("Er ging iets mis. Probeer het over een paar minuten opnieuw.");
+        });
+    });
+  };
+
+  const handleRestart = () => {
+    setRequestId(null);
+    setCode("");
+    setStatus("idle");
+    setMessage(null);
+  };
+
+  if (status === "success") {
+    return (
+      <div className="rounded-lg border border-border bg-secondary/40 p-4 text-left text-sm text-secondary-foreground">
+        {message}
+      </div>
+    );
+  }
+
+  if (requestId) {
+    return (
+      <form className="space-y-4 text-left" onSubmit={handleConfirm} noValidate>
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-foreground" htmlFor="removal-code">
+            Verificatiecode
+          </label>
+          <Input
+            id="removal-code"
+            autoComplete="one-time-code"
+            inputMode="numeric"
+            maxLength={6}
+            onChange={(event) => setCode(event.target.value.replace(/\D/g, ""))}
+            placeholder="123456"
+            value={code}
+            disabled={isPending}
+            aria-describedby="removal-feedback"
+          />
+        </div>
+        <div className="flex flex-wrap gap-3">
+          <Button className="w-full sm:w-auto" disabled={isPending || code.length !== 6} type="submit">
+            {isPending ? "Controleren…" : "Bevestigen en verwijderen"}
+          </Button>
+          <Button disabled={isPending} onClick={handleRestart} type="button" variant="ghost">
+            Opnieuw beginnen
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground" id="removal-feedback" aria-live="polite">
+          {message}
+        </p>
+      </form>
+    );
+  }
+
+  return (
+    <form className="space-y-4 text-left" onSubmit={handleSubmit} noValidate>
+      <div className="space-y-2">
+        <div className="text-sm font-medium text-foreground">Telefoonnummer</div>
+        <PhoneInputField
+          value={phoneNumber}
+          onChange={setPhoneNumber}
+          disabled={isPending}
+          aria-invalid={status === "error"}
+          aria-describedby="removal-feedback"
+        />
+      </div>
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium text-foreground">Bevestigen via</legend>
+        <div className="grid gap-2 sm:grid-cols-3">
+          {METHOD_OPTIONS.map((option) => (
+            <label
+              key={option.value}
+              className={cn(
+                "flex cursor-pointer flex-col rounded-lg border p-3 text-sm transition-colors",
+                method === option.value
+                  ? "border-primary bg-primary/5"
+                  : "border-input hover:bg-accent/50"
+              )}
+            >
+              <input
+                checked={method === option.value}
+                className="sr-only"
+                disabled={isPending}
+                name="removal-method"
+                onChange={() => setMethod(option.value)}
+                type="radio"
+                value={option.value}
+              />
+              <span className="font-medium text-foreground">{option.label}</span>
+              <span className="text-xs text-muted-foreground">{option.description}</span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-foreground" htmlFor="removal-email">
+          {method === "email" ? "E-mailadres" : "E-mailadres (optioneel)"}
+        </label>
+        <Input
+          id="removal-email"
+          autoComplete="email"
+          inputMode="email"
+          onChange={(event) => setEmail(event.target.value)}
+          placeholder="jij@voorbeeld.nl"
+          type="email"
+          value={email}
+          disabled={isPending}
+        />
+      </div>
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-foreground" htmlFor="removal-reason">
+          Toelichting (optioneel)
+        </label>
+        <Input
+          id="removal-reason"
+          onChange={(event) => setReason(event.target.value)}
+          placeholder="Bijvoorbeeld: dit is mijn privénummer"
+          value={reason}
+          disabled={isPending}
+        />
+      </div>
+      <Button className="w-full sm:w-auto" disabled={isPending} type="submit">
+        {isPending ? "Versturen…" : "Verificatiecode versturen"}
+      </Button>
+      <p className="text-sm text-muted-foreground" id="removal-feedback" aria-live="polite">
+        {message ??
+          "Na bevestiging via sms of telefoon bellen we dit nummer niet meer en verbergen we het profiel direct. Bevestig je via e-mail, dan beoordelen we het verzoek eerst."}
+      </p>
+    </form>
+  );
+}
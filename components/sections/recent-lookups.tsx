@@ -1,16 +1,11 @@
 import Link from "next/link";
 
+import { CALL_OUTCOME_BADGE_VARIANTS, CALL_OUTCOME_LABELS } from "@/lib/call-outcome";
 import { listMockProfiles } from "@/lib/mock-profiles";
 import { formatDateTime } from "@/lib/format";
 import { Badge } from "@/components/ui/badge";
 import { listRecentProfiles } from "@/lib/supabase/lookups";
 
-const STATUS_LABELS: Record<string, string> = {
-  confirmed: "Bevestigd",
-  voicemail: "Voicemail",
-  pending: "In behandeling"
-};
-
 export async function RecentLookupsSection() {
   const supabaseProfiles = await listRecentProfiles(3);
   const profiles =
@@ -43,8 +38,8 @@ export async function RecentLookupsSection() {
               className="flex h-full flex-col justify-between rounded-2xl border border-border bg-background/90 p-6 text-left shadow-sm"
             >
               <div>
-                <Badge variant={profile.callOutcome === "confirmed" ? "success" : "secondary"}>
-                  {STATUS_LABELS[profile.callOutcome]}
+                <Badge variant={CALL_OUTCOME_BADGE_VARIANTS[profile.callOutcome]}>
+                  {CALL_OUTCOME_LABELS[profile.callOutcome]}
                 </Badge>
                 <h3 className="mt-4 text-lg font-semibold text-foreground">
                   {profile.callerName}
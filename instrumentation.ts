@@ -0,0 +1,16 @@
+/**
+ * Runs once when the server starts. Production refuses to boot without the secrets that
+ * authenticate incoming webhooks, instead of failing on the first delivery.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs" || process.env.NODE_ENV !== "production") {
+    return;
+  }
+  // `next build` also loads this file; secrets are only needed at runtime
+  if (process.env.NEXT_PHASE === "phase-production-build") {
+    return;
+  }
+
+  const { getElevenLabsWebhookSecrets } = await import("@/lib/calls/providers/elevenlabs");
+  getElevenLabsWebhookSecrets();
+}
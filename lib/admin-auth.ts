@@ -0,0 +1,16 @@
+import type { NextRequest } from "next/server";
+
+import { isBearerAuthorized } from "@/lib/bearer-auth";
+
+/**
+ * Admin API routes are protected with a shared bearer token (`ADMIN_API_TOKEN`).
+ * Without a configured token every admin request is refused.
+ */
+export function isAdminRequest(request: NextRequest) {
+  const token = process.env.ADMIN_API_TOKEN;
+  if (!token) {
+    return false;
+  }
+
+  return isBearerAuthorized(request, token);
+}
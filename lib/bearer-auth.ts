@@ -0,0 +1,22 @@
+import crypto from "node:crypto";
+
+import type { NextRequest } from "next/server";
+
+/**
+ * Whether the request carries `Authorization: Bearer <secret>`, compared in constant time.
+ */
+export function isBearerAuthorized(request: NextRequest, secret: string) {
+  const header = request.headers.get("authorization") ?? "";
+  const provided = header.replace(/^Bearer\s+/i, "").trim();
+  if (!provided) {
+    return false;
+  }
+
+  const expectedBuffer = Buffer.from(secret);
+  const providedBuffer = Buffer.from(provided);
+  if (expectedBuffer.length !== providedBuffer.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(expectedBuffer, providedBuffer);
+}
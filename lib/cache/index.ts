@@ -0,0 +1,26 @@
+import { memoryCacheStore } from "@/lib/cache/stores/memory";
+import { redisCacheStore } from "@/lib/cache/stores/redis";
+import type { CacheStore } from "@/lib/cache/types";
+
+export type { CacheStore } from "@/lib/cache/types";
+
+const STORES: Record<string, CacheStore> = {
+  memory: memoryCacheStore,
+  redis: redisCacheStore
+};
+
+/**
+ * Resolve the shared cache. `CACHE_STORE` picks one explicitly; otherwise `redis` when
+ * `REDIS_URL` is set and the per-process `memory` store when it is not.
+ */
+export function getCacheStore(): CacheStore {
+  const configured = process.env.CACHE_STORE?.toLowerCase().trim();
+  const storeId = configured || (process.env.REDIS_URL ? "redis" : "memory");
+
+  const store = STORES[storeId];
+  if (!store) {
+    throw new Error(`Unknown cache store: ${storeId}`);
+  }
+
+  return store;
+}
@@ -1,20 +1,19 @@
+import crypto from "node:crypto";
+
+import { getCacheStore } from "@/lib/cache";
+import type { LookupStatusPayload } from "@/lib/lookup-status";
+
 /**
- * In-memory cache for lookup status responses
- * Cache is invalidated when data changes (via cache invalidation calls)
+ * Cache for lookup status responses in the shared cache store (see lib/cache/index.ts).
+ * Writes to lookups and call attempts invalidate their entry, so a cached response is never
+ * older than the last write that went through this process or the shared store.
  */
 
-interface CacheEntry {
-  data: {
-    lookup: unknown;
-    callAttempt: unknown;
-    profile: unknown;
-  };
+export interface CachedStatus {
+  data: LookupStatusPayload;
   etag: string;
-  expiresAt: number;
 }
 
-const statusCache = new Map<string, CacheEntry>();
-
 // Cache TTL in milliseconds
 const ACTIVE_LOOKUP_TTL = 5000; // 5 seconds for active lookups
 const COMPLETED_LOOKUP_TTL = 60000; // 60 seconds for completed lookups
@@ -23,102 +22,55 @@ const COMPLETED_LOOKUP_TTL = 60000; // 60 seconds for completed lookups
  * Generate cache key from lookupId
  */
 function getCacheKey(lookupId: string): string {
-  return `lookup:${lookupId}`;
+  return `lookup-status:${lookupId}`;
 }
 
 /**
- * Generate ETag from updated_at timestamp
+ * Strong ETag over the response body, so identical responses always get the same tag
  */
-export function generateETag(
-  updatedAt: string | null
-): string {
-  const timestamp = updatedAt || Date.now().toString();
-  return `"${timestamp}"`;
+export function generateETag(data: LookupStatusPayload): string {
+  return `"${crypto.createHash("sha1").update(JSON.stringify(data)).digest("hex")}"`;
 }
 
 /**
- * Get cached response if available and not expired
+ * Get the cached response if available and not expired. Cache errors count as a miss.
  */
-export function getCachedResponse(
-  lookupId: string,
-  ifNoneMatch?: string | null
-): { data: CacheEntry["data"]; etag: string } | null {
-  const key = getCacheKey(lookupId);
-  const entry = statusCache.get(key);
-
-  if (!entry) {
+export async function getCachedStatus(lookupId: string): Promise<CachedStatus | null> {
+  try {
+    const value = await getCacheStore().get(getCacheKey(lookupId));
+    return value ? (JSON.parse(value) as CachedStatus) : null;
+  } catch (error) {
+    console.error("Failed to read status cache", { lookupId, error });
     return null;
   }
-
-  // Check if expired
-  if (Date.now() > entry.expiresAt) {
-    statusCache.delete(key);
-    return null;
-  }
-
-  // Check if client has matching ETag (304 Not Modified)
-  if (ifNoneMatch && ifNoneMatch === entry.etag) {
-    return null; // Signal 304 response
-  }
-
-  return {
-    data: entry.data,
-    etag: entry.etag
-  };
 }
 
 /**
- * Store response in cache
+ * Store a response in the cache
  */
-export function setCachedResponse(
-  lookupId: string,
-  data: CacheEntry["data"],
-  etag: string,
-  isCompleted: boolean
-): void {
-  const key = getCacheKey(lookupId);
+export async function setCachedStatus(lookupId: string, cached: CachedStatus, isCompleted: boolean) {
   const ttl = isCompleted ? COMPLETED_LOOKUP_TTL : ACTIVE_LOOKUP_TTL;
 
-  statusCache.set(key, {
-    data,
-    etag,
-    expiresAt: Date.now() + ttl
-  });
-}
-
-/**
- * Invalidate cache for a specific lookup
- */
-export function invalidateCache(lookupId: string): void {
-  const key = getCacheKey(lookupId);
-  const hadEntry = statusCache.has(key);
-  statusCache.delete(key);
-  
-  if (process.env.NODE_ENV !== "production") {
-    console.log("🗑️ Cache invalidated", {
-      lookupId,
-      key,
-      hadEntry
-    });
+  try {
+    await getCacheStore().set(getCacheKey(lookupId), JSON.stringify(cached), ttl);
+  } catch (error) {
+    console.error("Failed to write status cache", { lookupId, error });
   }
 }
 
 /**
- * Clear all cache entries (useful for testing)
+ * Invalidate cache for a specific lookup. Never throws, so a cache outage does not fail the write
+ * that triggered it; the entry then expires after its TTL.
  */
-export function clearCache(): void {
-  statusCache.clear();
-}
+export async function invalidateCache(lookupId: string) {
+  try {
+    await getCacheStore().delete(getCacheKey(lookupId));
+  } catch (error) {
+    console.error("Failed to invalidate status cache", { lookupId, error });
+    return;
+  }
 
-/**
- * Clean up expired entries (call periodically)
- */
-export function cleanupExpiredEntries(): void {
-  const now = Date.now();
-  for (const [key, entry] of statusCache.entries()) {
-    if (now > entry.expiresAt) {
-      statusCache.delete(key);
-    }
+  if (process.env.NODE_ENV !== "production") {
+    console.log("🗑️ Cache invalidated", { lookupId });
   }
 }
-
@@ -0,0 +1,48 @@
+import type { CacheStore } from "@/lib/cache/types";
+
+const MAX_ENTRIES = 5000;
+
+const entries = new Map<string, { value: string; expiresAt: number }>();
+
+function removeExpired(now: number) {
+  for (const [key, entry] of entries) {
+    if (entry.expiresAt <= now) {
+      entries.delete(key);
+    }
+  }
+}
+
+/**
+ * Per-process cache. Fine for a single server; serverless instances each have their own copy,
+ * so invalidations do not reach the others.
+ */
+export const memoryCacheStore: CacheStore = {
+  id: "memory",
+  async get(key) {
+    const entry = entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  },
+  async set(key, value, ttlMs) {
+    if (entries.size >= MAX_ENTRIES) {
+      removeExpired(Date.now());
+    }
+    if (entries.size >= MAX_ENTRIES) {
+      // Still full: drop the oldest entry
+      const oldest = entries.keys().next().value;
+      if (oldest !== undefined) {
+        entries.delete(oldest);
+      }
+    }
+    entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  },
+  async delete(key) {
+    entries.delete(key);
+  }
+};
@@ -0,0 +1,67 @@
+import { createClient } from "redis";
+
+import type { CacheStore } from "@/lib/cache/types";
+
+const CONNECT_TIMEOUT_MS = 2000;
+const COMMAND_TIMEOUT_MS = 1000;
+
+type RedisClient = ReturnType<typeof createClient>;
+
+// Shared across hot reloads and requests in the same process
+const globalForRedis = globalThis as unknown as { redisClient?: Promise<RedisClient> | null };
+
+/**
+ * Connect with node-redis. The client does not reconnect or queue commands on its own: a cache
+ * read must fail fast, so a dropped or failed connection is replaced on the next command instead.
+ */
+function getClient() {
+  const redisUrl = process.env.REDIS_URL;
+  if (!redisUrl) {
+    throw new Error("REDIS_URL is not set");
+  }
+
+  if (!globalForRedis.redisClient) {
+    const client: RedisClient = createClient({
+      url: redisUrl,
+      socket: { connectTimeout: CONNECT_TIMEOUT_MS, reconnectStrategy: false },
+      disableOfflineQueue: true,
+      commandOptions: { timeout: COMMAND_TIMEOUT_MS }
+    });
+
+    const connection = client.connect();
+    const forget = () => {
+      if (globalForRedis.redisClient === connection) {
+        globalForRedis.redisClient = null;
+      }
+    };
+
+    // Errors also reject the pending command; without a listener they would crash the process
+    client.on("error", (error) => console.error("Redis client error", error));
+    client.on("end", forget);
+    connection.catch(forget);
+    globalForRedis.redisClient = connection;
+  }
+
+  return globalForRedis.redisClient;
+}
+
+/**
+ * Store in any server that speaks the Redis protocol (Redis, Valkey, KeyDB, Upstash over TLS),
+ * configured with `REDIS_URL`, e.g. `redis://localhost:6379` or `rediss://:password@host:6380/0`.
+ */
+export const redisCacheStore: CacheStore = {
+  id: "redis",
+  async get(key) {
+    const client = await getClient();
+    const reply = await client.get(key);
+    return typeof reply === "string" ? reply : null;
+  },
+  async set(key, value, ttlMs) {
+    const client = await getClient();
+    await client.set(key, value, { expiration: { type: "PX", value: Math.max(1, Math.round(ttlMs)) } });
+  },
+  async delete(key) {
+    const client = await getClient();
+    await client.del(key);
+  }
+};
@@ -0,0 +1,10 @@
+/**
+ * A shared key/value store with expiry. Implementations throw when the backend is unreachable;
+ * callers decide whether a cache failure is fatal.
+ */
+export interface CacheStore {
+  id: string;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
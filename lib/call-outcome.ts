@@ -0,0 +1,14 @@
+import type { BadgeProps } from "@/components/ui/badge";
+import type { CallOutcome } from "@/lib/mock-profiles";
+
+export const CALL_OUTCOME_LABELS: Record<CallOutcome, string> = {
+  confirmed: "Bevestigd",
+  voicemail: "Voicemail",
+  pending: "In behandeling"
+};
+
+export const CALL_OUTCOME_BADGE_VARIANTS: Record<CallOutcome, NonNullable<BadgeProps["variant"]>> = {
+  confirmed: "success",
+  voicemail: "outline",
+  pending: "secondary"
+};
@@ -0,0 +1,106 @@
+export type RetryReason = "busy" | "no_answer" | "voicemail" | "provider_error";
+
+interface RetryPolicy {
+  /** Total attempts including the first call. */
+  maxAttempts: number;
+  /** Delay before attempt n + 1, indexed by the number of attempts already made minus one. */
+  delaysMs: number[];
+}
+
+const MINUTE = 60 * 1000;
+
+export const RETRY_POLICIES: Record<RetryReason, RetryPolicy> = {
+  busy: { maxAttempts: 3, delaysMs: [5 * MINUTE, 15 * MINUTE] },
+  no_answer: { maxAttempts: 2, delaysMs: [10 * MINUTE] },
+  voicemail: { maxAttempts: 2, delaysMs: [30 * MINUTE] },
+  provider_error: { maxAttempts: 2, delaysMs: [1 * MINUTE] }
+};
+
+export const RETRY_REASON_LABELS: Record<RetryReason, string> = {
+  busy: "Lijn bezet",
+  no_answer: "Geen gehoor",
+  voicemail: "Voicemail",
+  provider_error: "Call kon niet worden gestart"
+};
+
+const ORDINALS = ["Eerste", "Tweede", "Derde", "Vierde", "Vijfde"];
+
+/**
+ * Map failure signals from the provider onto a retry reason.
+ * Returns null when the call did not fail in a way we retry (e.g. it succeeded).
+ */
+export function classifyCallFailure(signals: {
+  status?: string | null;
+  event?: string | null;
+  failureReason?: string | null;
+  terminationReason?: string | null;
+  errorMessage?: string | null;
+}): RetryReason | null {
+  const combined = [
+    signals.status,
+    signals.event,
+    signals.failureReason,
+    signals.terminationReason,
+    signals.errorMessage
+  ]
+    .filter((value): value is string => typeof value === "string" && value.length > 0)
+    .join(" ")
+    .toLowerCase();
+
+  if (!combined) {
+    return null;
+  }
+
+  if (/\bbusy\b|in gesprek/.test(combined)) {
+    return "busy";
+  }
+  if (/no[-_ ]?answer|unanswered|not answered|geen gehoor|ring[-_ ]?timeout/.test(combined)) {
+    return "no_answer";
+  }
+  if (/voicemail|voice[-_ ]mail|answering[-_ ]machine|machine[-_ ]detected/.test(combined)) {
+    return "voicemail";
+  }
+  if (/fail|error|cancel|rejected|unreachable/.test(combined)) {
+    return "provider_error";
+  }
+
+  return null;
+}
+
+/**
+ * Decide whether (and when) a follow-up attempt should be made.
+ * `attemptNumber` is the number of the attempt that just failed.
+ */
+export function planRetry(reason: RetryReason, attemptNumber: number, now = new Date()) {
+  const policy = RETRY_POLICIES[reason];
+  if (attemptNumber >= policy.maxAttempts) {
+    return null;
+  }
+
+  const delayMs = policy.delaysMs[Math.min(attemptNumber - 1, policy.delaysMs.length - 1)];
+
+  return {
+    attemptNumber: attemptNumber + 1,
+    maxAttempts: policy.maxAttempts,
+    scheduledFor: new Date(now.getTime() + delayMs)
+  };
+}
+
+export function getMaxAttempts(reason: RetryReason | null | undefined) {
+  return reason ? RETRY_POLICIES[reason].maxAttempts : 1;
+}
+
+/**
+ * Human readable retry line, e.g. "Tweede poging over 5 minuten".
+ */
+export function describeRetry(attemptNumber: number, scheduledFor: string | Date, now = new Date()) {
+  const ordinal = ORDINALS[attemptNumber - 1] ?? `${attemptNumber}e`;
+  const remainingMs = new Date(scheduledFor).getTime() - now.getTime();
+
+  if (remainingMs <= 30 * 1000) {
+    return `${ordinal} poging wordt nu gestart`;
+  }
+
+  const minutes = Math.max(1, Math.round(remainingMs / MINUTE));
+  return `${ordinal} poging over ${minutes} ${minutes === 1 ? "minuut" : "minuten"}`;
+}
@@ -0,0 +1,62 @@
+import { getCallSpend } from "@/lib/supabase/call-spend";
+
+export type SpendPeriod = "day" | "month";
+
+/** Calls should stay under this; longer ones are counted as `long_calls`. */
+export const TARGET_CALL_SECONDS = 60;
+
+export const QUOTA_EXCEEDED_MESSAGES: Record<SpendPeriod, string> = {
+  day: "Onze AI-agent heeft het belbudget voor vandaag bereikt. Bestaande resultaten blijven beschikbaar.",
+  month: "Onze AI-agent heeft het belbudget voor deze maand bereikt. Bestaande resultaten blijven beschikbaar."
+};
+
+function readBudget(envName: string) {
+  const value = Number(process.env[envName]);
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * `CALL_SPEND_DAILY_BUDGET` and `CALL_SPEND_MONTHLY_BUDGET`, in the provider's billing units
+ * (ElevenLabs credits). An unset budget is not enforced.
+ */
+export function getSpendBudgets(): Record<SpendPeriod, number | null> {
+  return {
+    day: readBudget("CALL_SPEND_DAILY_BUDGET"),
+    month: readBudget("CALL_SPEND_MONTHLY_BUDGET")
+  };
+}
+
+/** Start of the next UTC day or month, when the spend for `period` starts from zero again. */
+function getPeriodEnd(period: SpendPeriod, now: Date) {
+  return period === "day"
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+export type SpendBudgetResult =
+  | { allowed: true }
+  | { allowed: false; period: SpendPeriod; spent: number; budget: number; resetsAt: string };
+
+/**
+ * Whether a new call fits the spend budgets. Costs arrive with the post-call webhook, so calls
+ * still running are not counted yet and the budget can be overshot by those.
+ * Throws when the spend cannot be read.
+ */
+export async function checkSpendBudget(now = new Date()): Promise<SpendBudgetResult> {
+  const budgets = getSpendBudgets();
+  if (budgets.day === null && budgets.month === null) {
+    return { allowed: true };
+  }
+
+  const spend = await getCallSpend(now);
+
+  for (const period of ["month", "day"] as const) {
+    const budget = budgets[period];
+    const spent = Number(spend[period].billed_cost);
+    if (budget !== null && spent >= budget) {
+      return { allowed: false, period, spent, budget, resetsAt: getPeriodEnd(period, now).toISOString() };
+    }
+  }
+
+  return { allowed: true };
+}
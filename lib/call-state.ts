@@ -0,0 +1,76 @@
+/**
+ * The states a lookup and its call attempts can be in, shared by the webhook, the status routes,
+ * the UI and the database (`phone_lookups.status` enum, `call_attempts.status` check constraint).
+ * Keep this file free of server imports; `CallProgress` uses it in the browser.
+ */
+
+export const LOOKUP_STATUSES = ["pending", "calling", "cached", "not_found", "failed"] as const;
+
+export type LookupStatus = (typeof LOOKUP_STATUSES)[number];
+
+/** A lookup in one of these states will not change anymore without a new lookup. */
+export const FINAL_LOOKUP_STATUSES: readonly LookupStatus[] = ["cached", "failed", "not_found"];
+
+export function isFinalLookupStatus(status: string | null | undefined): status is LookupStatus {
+  return FINAL_LOOKUP_STATUSES.includes(status as LookupStatus);
+}
+
+/**
+ * `call_attempts.status`. The provider's own wording is kept in `elevenlabs_status`.
+ *
+ * - `scheduled`: the provider accepted the call
+ * - `retry_scheduled`: a follow-up attempt waits for `scheduled_for`
+ * - `dialing`: a retry was claimed and is being handed to the provider
+ * - `initiating`: the call is being set up (ringing, connecting)
+ * - `in_call`: the conversation is running
+ * - `completed`: the call ended and its transcript or analysis arrived
+ * - `failed`: busy, unanswered or a provider error
+ * - `cancelled`: a retry that was never dialed (lookup gone, number suppressed)
+ */
+export const CALL_STATES = [
+  "scheduled",
+  "retry_scheduled",
+  "dialing",
+  "initiating",
+  "in_call",
+  "completed",
+  "failed",
+  "cancelled"
+] as const;
+
+export type CallState = (typeof CALL_STATES)[number];
+
+/**
+ * Where an attempt may go from each state. Providers redeliver and reorder webhooks, so anything
+ * not listed (e.g. initiation metadata after the transcript) is stale and must not be applied.
+ * Staying in the same state is always allowed, so a corrected payload still overwrites the first one.
+ */
+const CALL_TRANSITIONS: Record<CallState, readonly CallState[]> = {
+  scheduled: ["initiating", "in_call", "completed", "failed"],
+  retry_scheduled: ["dialing", "cancelled"],
+  dialing: ["scheduled", "failed", "cancelled"],
+  initiating: ["in_call", "completed", "failed"],
+  in_call: ["completed", "failed"],
+  // A transcript after a failure report is still applied, a failure after a transcript is not
+  failed: ["completed"],
+  completed: [],
+  cancelled: []
+};
+
+export function canTransitionCall(from: CallState, to: CallState) {
+  return from === to || CALL_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * States an attempt must be in for a move to `to`, used to guard updates in the database.
+ */
+export function getCallStatesLeadingTo(to: CallState): CallState[] {
+  return CALL_STATES.filter((from) => canTransitionCall(from, to));
+}
+
+/**
+ * Why moving an attempt from `from` to `to` is not allowed, or null when it is.
+ */
+export function getCallTransitionError(from: CallState, to: CallState) {
+  return canTransitionCall(from, to) ? null : `${to} after ${from}`;
+}
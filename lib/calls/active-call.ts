@@ -0,0 +1,35 @@
+import { getActiveLookupByNormalized, updateLookupStatus } from "@/lib/supabase/lookups";
+
+// Calls last about a minute and their webhooks follow within minutes; a lookup that has been
+// quiet for longer lost its call (e.g. a webhook that never arrived) and must not block the number.
+const STALE_AFTER_MS = 15 * 60 * 1000;
+
+/**
+ * The lookup whose call for this number is still in progress, so a new lookup can follow that call
+ * instead of dialing again. A lookup waiting for a scheduled retry counts as in progress; a stale
+ * one is marked failed and released.
+ */
+export async function findActiveLookup(normalized: string, now = new Date()) {
+  const active = await getActiveLookupByNormalized(normalized);
+  if (!active) {
+    return null;
+  }
+
+  const { lookup, attempt } = active;
+  if (attempt?.status === "retry_scheduled") {
+    return active;
+  }
+
+  const lastActivity = new Date(attempt?.updated_at ?? lookup.created_at).getTime();
+  if (now.getTime() - lastActivity > STALE_AFTER_MS) {
+    console.log("🧹 Releasing stale active lookup:", {
+      lookupId: lookup.id,
+      attemptStatus: attempt?.status ?? null,
+      lastActivity: new Date(lastActivity).toISOString()
+    });
+    await updateLookupStatus(lookup.id, "failed");
+    return null;
+  }
+
+  return active;
+}
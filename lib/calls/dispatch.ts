@@ -0,0 +1,217 @@
+import { classifyCallFailure, planRetry, type RetryReason } from "@/lib/call-retry";
+import { checkSpendBudget, QUOTA_EXCEEDED_MESSAGES, type SpendBudgetResult } from "@/lib/call-spend";
+import { getCallProvider, type CallProviderId } from "@/lib/calls";
+import { getNumberIntelligence } from "@/lib/number-intelligence";
+import {
+  claimRetryAttempt,
+  getRetryForAttempt,
+  listDueRetryAttempts,
+  recordCallAttempt,
+  updateCallAttemptById
+} from "@/lib/supabase/call-attempts";
+import { getLookupById, updateLookupStatus } from "@/lib/supabase/lookups";
+import { isNumberSuppressed } from "@/lib/supabase/suppressions";
+import type { CallAttemptRecord } from "@/lib/supabase/types";
+
+const isDev = process.env.NODE_ENV !== "production";
+
+export interface PlacedCall {
+  conversationId: string | null;
+  message: string | null;
+  callSid: string | null;
+  provider: CallProviderId;
+  mock: boolean;
+}
+
+/**
+ * Start an outbound call for a lookup through the configured provider (see lib/calls/index.ts).
+ * Throws when the provider refuses the call.
+ */
+export async function placeCall({
+  lookupId,
+  normalized,
+  rawInput,
+  attemptNumber = 1
+}: {
+  lookupId: string;
+  normalized: string;
+  rawInput?: string;
+  attemptNumber?: number;
+}): Promise<PlacedCall> {
+  const provider = getCallProvider();
+
+  if (isDev) {
+    console.log("📞 Starting call:", {
+      provider: provider.id,
+      DEV_DEBUG: process.env.DEV_DEBUG,
+      CALL_PROVIDER: process.env.CALL_PROVIDER,
+      phoneNumber: normalized,
+      lookupId,
+      attemptNumber
+    });
+  }
+
+  // Also available to the agent prompt as dynamic variables ({{numberType}}, {{numberRegion}}, ...)
+  const numberInfo = await getNumberIntelligence(normalized);
+
+  const started = await provider.startCall({
+    lookupId,
+    phoneNumber: normalized,
+    metadata: {
+      lookupId,
+      source: attemptNumber > 1 ? "retry" : "web_lookup",
+      normalized,
+      rawInput: rawInput ?? normalized,
+      attemptNumber,
+      numberType: numberInfo.type,
+      ...(numberInfo.regionCode ? { numberRegion: numberInfo.regionCode } : {}),
+      ...(numberInfo.timeZone ? { numberTimeZone: numberInfo.timeZone } : {})
+    }
+  });
+
+  if (isDev) {
+    console.log("✅ Call started:", {
+      provider: provider.id,
+      conversationId: started.conversationId,
+      callSid: started.callSid,
+      message: started.message
+    });
+  }
+
+  return {
+    ...started,
+    provider: provider.id,
+    mock: provider.id === "fake"
+  };
+}
+
+/**
+ * Create the follow-up attempt for a failed one, following the per-reason policy.
+ * Returns null when the policy is exhausted. Safe to call twice for the same attempt.
+ */
+export async function scheduleRetry(failedAttempt: CallAttemptRecord, reason: RetryReason) {
+  const existing = await getRetryForAttempt(failedAttempt.id);
+  if (existing) {
+    return existing;
+  }
+
+  const plan = planRetry(reason, failedAttempt.attempt_number ?? 1);
+  if (!plan) {
+    return null;
+  }
+
+  console.log("🔁 Scheduling call retry:", {
+    lookupId: failedAttempt.lookup_id,
+    reason,
+    attemptNumber: plan.attemptNumber,
+    scheduledFor: plan.scheduledFor.toISOString()
+  });
+
+  return recordCallAttempt({
+    lookupId: failedAttempt.lookup_id,
+    status: "retry_scheduled",
+    attemptNumber: plan.attemptNumber,
+    retryReason: reason,
+    scheduledFor: plan.scheduledFor,
+    retryOf: failedAttempt.id,
+    payload: { max_attempts: plan.maxAttempts }
+  });
+}
+
+/**
+ * Dial a due retry. Claims the row first so overlapping cron runs never dial twice.
+ * A retry is a new paid call: when the spend budget is used up it is cancelled instead, and when
+ * the spend cannot be read it is left for the next run.
+ */
+export async function dispatchRetryAttempt(attempt: CallAttemptRecord) {
+  let budget: SpendBudgetResult;
+  try {
+    budget = await checkSpendBudget();
+  } catch (error) {
+    console.error("Failed to check call spend before retry:", { attemptId: attempt.id, error });
+    return null;
+  }
+
+  const claimed = await claimRetryAttempt(attempt.id);
+  if (!claimed) {
+    return null;
+  }
+
+  const lookup = await getLookupById(claimed.lookup_id);
+  if (!lookup) {
+    return updateCallAttemptById(claimed.id, {
+      status: "cancelled",
+      errorMessage: "Lookup bestaat niet meer"
+    });
+  }
+
+  if (await isNumberSuppressed(lookup.normalized)) {
+    await updateLookupStatus(lookup.id, "failed");
+    return updateCallAttemptById(claimed.id, {
+      status: "cancelled",
+      errorMessage: "Nummer staat op de opt-outlijst"
+    });
+  }
+
+  if (!budget.allowed) {
+    console.log("💸 Call spend budget reached, cancelling retry:", { attemptId: claimed.id, ...budget });
+    if (lookup.status !== "cached") {
+      await updateLookupStatus(lookup.id, "failed");
+    }
+    return updateCallAttemptById(claimed.id, {
+      status: "cancelled",
+      errorMessage: QUOTA_EXCEEDED_MESSAGES[budget.period]
+    });
+  }
+
+  try {
+    const placed = await placeCall({
+      lookupId: lookup.id,
+      normalized: lookup.normalized,
+      attemptNumber: claimed.attempt_number
+    });
+
+    return updateCallAttemptById(claimed.id, {
+      status: "scheduled",
+      conversationId: placed.conversationId,
+      elevenLabsStatus: placed.message,
+      payload: {
+        ...(claimed.payload ?? {}),
+        callSid: placed.callSid,
+        provider: placed.provider,
+        mock: placed.mock ? true : undefined
+      }
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Onbekende fout";
+    const failed = await updateCallAttemptById(claimed.id, {
+      status: "failed",
+      errorMessage: message
+    });
+
+    const reason = classifyCallFailure({ errorMessage: message }) ?? "provider_error";
+    const next = failed ? await scheduleRetry(failed, reason) : null;
+    if (!next && lookup.status !== "cached") {
+      await updateLookupStatus(lookup.id, "failed");
+    }
+
+    return failed;
+  }
+}
+
+/**
+ * Dial every retry whose time has come. Used by the cron route.
+ */
+export async function dispatchDueRetries(limit = 10) {
+  const due = await listDueRetryAttempts(limit);
+  let dispatched = 0;
+
+  for (const attempt of due) {
+    const result = await dispatchRetryAttempt(attempt);
+    if (result) {
+      dispatched += 1;
+    }
+  }
+
+  return { due: due.length, dispatched };
+}
@@ -0,0 +1,352 @@
+import { z } from "zod";
+
+import { parsePhoneNumber } from "@/lib/phone";
+import type { CallState, LookupStatus } from "@/lib/call-state";
+
+/**
+ * Typed view of an ElevenLabs-shaped webhook payload (the fake provider sends the same shape).
+ * The payload is validated with zod and normalised into one of four event kinds, so the webhook
+ * route no longer has to sniff fields itself.
+ */
+
+type PlainObject = Record<string, unknown>;
+
+const optionalText = z.string().optional().catch(undefined);
+const optionalNumber = z.number().optional().catch(undefined);
+const plainObject = z.record(z.string(), z.unknown()).catch({});
+
+const transcriptEntrySchema = z.looseObject({
+  role: optionalText,
+  speaker: optionalText,
+  participant: optionalText,
+  message: z.string().nullish().catch(undefined),
+  text: optionalText,
+  content: optionalText,
+  timestamp: optionalNumber,
+  start: optionalNumber,
+  offset: optionalNumber,
+  time: optionalNumber,
+  time_in_call_secs: optionalNumber
+});
+
+const transcriptSchema = z.array(z.unknown()).optional().catch(undefined);
+
+const envelopeSchema = z.looseObject({
+  type: optionalText,
+  event: optionalText,
+  conversation: z.record(z.string(), z.unknown()).optional().catch(undefined),
+  data: plainObject,
+  metadata: z.unknown().optional()
+});
+
+export type ElevenLabsEventKind = "initiation" | "status" | "failure" | "post_call";
+
+export interface TranscriptMessage {
+  role?: string;
+  message: string;
+  timestamp?: number;
+}
+
+/** The raw objects the identification heuristics scan for names. */
+export interface ElevenLabsEventSources {
+  payload: PlainObject;
+  /** `payload.data`, where ElevenLabs puts the conversation. */
+  data: PlainObject;
+  /** `payload.conversation`, falling back to `payload.data`. */
+  conversation: PlainObject;
+  metadata: PlainObject;
+  /** Dynamic variables the call was started with (`lookupId`, `normalized`, …). */
+  dynamicVariables: PlainObject;
+}
+
+interface ElevenLabsEventBase {
+  /** Raw `type`/`event` field, e.g. "post_call_transcription". */
+  type: string | undefined;
+  conversationId: string;
+  lookupId: string | null;
+  /** First number in the payload that parses as E.164. */
+  normalizedNumber: string | null;
+  /** Conversation status reported by the provider. */
+  status: string | undefined;
+  /** What this event means for the lookup; undefined leaves it unchanged. */
+  lookupStatus: LookupStatus | undefined;
+  /** State the call attempt moves to (see lib/call-state.ts). */
+  attemptStatus: CallState;
+  /** Provider status stored on the call attempt. */
+  providerStatus: string | null;
+  transcript: string | null;
+  summary: string | null;
+  confidence: number | null;
+  endedAt: string | null;
+  terminationReason: string | null;
+  failureReason: string | null;
+  sources: ElevenLabsEventSources;
+}
+
+/** The call is being set up (initiation metadata, ringing, connecting). */
+export interface ElevenLabsInitiationEvent extends ElevenLabsEventBase {
+  kind: "initiation";
+}
+
+/** Any other in-call status update. */
+export interface ElevenLabsStatusEvent extends ElevenLabsEventBase {
+  kind: "status";
+}
+
+/** The call could not be completed (busy, no answer, provider error). */
+export interface ElevenLabsFailureEvent extends ElevenLabsEventBase {
+  kind: "failure";
+}
+
+/** The call finished and the transcript and analysis are available. */
+export interface ElevenLabsPostCallEvent extends ElevenLabsEventBase {
+  kind: "post_call";
+  transcriptMessages: TranscriptMessage[];
+  analysis: PlainObject;
+  durationSeconds: number | null;
+  /** What the provider billed for the call (`metadata.cost`, ElevenLabs credits). */
+  billedCost: number | null;
+}
+
+export type ElevenLabsEvent =
+  | ElevenLabsInitiationEvent
+  | ElevenLabsStatusEvent
+  | ElevenLabsFailureEvent
+  | ElevenLabsPostCallEvent;
+
+export type ParsedElevenLabsEvent = { ok: true; event: ElevenLabsEvent } | { ok: false; error: string };
+
+const EVENT_CALL_STATES: Record<ElevenLabsEventKind, CallState> = {
+  initiation: "initiating",
+  status: "in_call",
+  failure: "failed",
+  post_call: "completed"
+};
+
+const COMPLETED_STATUSES = ["completed", "succeeded", "success", "finished", "done"];
+const FAILED_STATUSES = ["failed", "error", "cancelled", "canceled"];
+const INITIATION_STATUSES = ["connecting", "ringing", "dialing", "initiating", "initiate"];
+
+export function toPlainObject(value: unknown): PlainObject {
+  return plainObject.parse(value);
+}
+
+export function pickString(...values: unknown[]): string | null {
+  for (const value of values) {
+    if (typeof value !== "string") continue;
+    const trimmed = value.trim();
+    if (trimmed.length > 1) {
+      return trimmed;
+    }
+  }
+  return null;
+}
+
+function firstString(...values: unknown[]): string | null {
+  return (values.find((value) => typeof value === "string") as string | undefined) ?? null;
+}
+
+function determineLookupStatus(type?: string, status?: string): LookupStatus | undefined {
+  const statusLower = status?.toLowerCase();
+  const typeLower = type?.toLowerCase();
+
+  if (statusLower && COMPLETED_STATUSES.includes(statusLower)) {
+    return "cached";
+  }
+
+  if (typeLower && (typeLower.includes("completed") || typeLower.includes("post_call_transcription"))) {
+    return "cached";
+  }
+
+  if (statusLower && FAILED_STATUSES.includes(statusLower)) {
+    return "failed";
+  }
+
+  // e.g. "call_initiation_failure" for busy / unanswered numbers
+  if (typeLower && (typeLower.includes("failed") || typeLower.includes("failure") || typeLower.includes("error"))) {
+    return "failed";
+  }
+
+  return undefined;
+}
+
+export function toTranscriptMessages(entries: unknown[]): TranscriptMessage[] {
+  const result: TranscriptMessage[] = [];
+
+  for (const entry of entries) {
+    const parsed = transcriptEntrySchema.safeParse(entry);
+    if (!parsed.success) continue;
+
+    const turn = parsed.data;
+    const message = turn.message ?? turn.text ?? turn.content;
+    if (!message) continue;
+
+    result.push({
+      role: turn.role ?? turn.speaker ?? turn.participant,
+      message,
+      timestamp: turn.timestamp ?? turn.start ?? turn.offset ?? turn.time ?? turn.time_in_call_secs
+    });
+  }
+
+  return result;
+}
+
+function extractTranscriptText(conversation: PlainObject): string | null {
+  if (typeof conversation.transcript === "string") {
+    return conversation.transcript;
+  }
+
+  if (!Array.isArray(conversation.messages)) {
+    return null;
+  }
+
+  const parts = toTranscriptMessages(conversation.messages).map((entry) =>
+    entry.role ? `${entry.role}: ${entry.message}` : entry.message
+  );
+  return parts.length > 0 ? parts.join("\n") : null;
+}
+
+function parseFirstNumber(candidates: unknown[]) {
+  for (const candidate of candidates) {
+    if (typeof candidate !== "string") continue;
+    try {
+      return parsePhoneNumber(candidate);
+    } catch {
+      continue;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate and normalise a webhook payload. Fails only when the conversation id is missing;
+ * unknown fields and unexpected value types are ignored.
+ */
+export function parseElevenLabsEvent(payload: unknown): ParsedElevenLabsEvent {
+  const envelope = envelopeSchema.safeParse(payload);
+  if (!envelope.success) {
+    return { ok: false, error: "Invalid payload" };
+  }
+
+  const root: PlainObject = envelope.data;
+  const data = envelope.data.data;
+  const conversation = envelope.data.conversation ?? data;
+  const metadata = toPlainObject(conversation.metadata ?? envelope.data.metadata);
+  const initiationClientData = toPlainObject(
+    conversation.conversation_initiation_client_data ?? data.conversation_initiation_client_data
+  );
+  const dynamicVariables = toPlainObject(initiationClientData.dynamic_variables);
+  const customer = toPlainObject(conversation.customer);
+  const metadataContact = toPlainObject(metadata.contact);
+  const dataContact = toPlainObject(data.contact);
+
+  const conversationId = firstString(
+    conversation.id,
+    conversation.conversation_id,
+    root.conversation_id,
+    root.conversationId,
+    data.conversation_id
+  );
+  if (!conversationId) {
+    return { ok: false, error: "Missing conversation id" };
+  }
+
+  const type = envelope.data.event ?? envelope.data.type;
+  const status = firstString(conversation.status, root.status, data.status) ?? undefined;
+  const typeLower = type?.toLowerCase() ?? "";
+  const statusLower = status?.toLowerCase() ?? "";
+
+  const analysis = toPlainObject(conversation.analysis ?? data.analysis);
+  const transcriptMessages = toTranscriptMessages(
+    transcriptSchema.parse(data.transcript) ?? transcriptSchema.parse(conversation.transcript) ?? []
+  );
+  const transcript =
+    extractTranscriptText(conversation) || transcriptMessages.map((entry) => entry.message).join("\n") || null;
+  const summary = pickString(analysis.transcript_summary, conversation.summary, root.summary, metadata.summary);
+  const hasCompletedData = Boolean(transcript || summary);
+
+  const isPostCall =
+    hasCompletedData ||
+    ["post_call", "post-call", "completed", "finished"].some((token) => typeLower.includes(token)) ||
+    ["completed", "finished", "done", "succeeded", "success"].some((token) => statusLower.includes(token));
+  const isInitiation =
+    (!typeLower.includes("failure") &&
+      ["initiation", "initiate", "conversation_initiated", "call_started"].some((token) => typeLower.includes(token))) ||
+    INITIATION_STATUSES.some((token) => statusLower.includes(token));
+
+  const lookupStatus = determineLookupStatus(type, status);
+  const kind: ElevenLabsEventKind = isPostCall
+    ? "post_call"
+    : lookupStatus === "failed"
+    ? "failure"
+    : isInitiation
+    ? "initiation"
+    : "status";
+
+  const dataMetadata = toPlainObject(data.metadata);
+  const duration = dataMetadata.call_duration_secs ?? metadata.call_duration_secs;
+  const charging = toPlainObject(dataMetadata.charging ?? metadata.charging);
+  const cost = dataMetadata.cost ?? metadata.cost ?? charging.call_charge;
+  const confidence = conversation.confidence ?? analysis.confidence ?? root.confidence ?? metadata.confidence;
+
+  const base: ElevenLabsEventBase = {
+    type,
+    conversationId,
+    lookupId: firstString(
+      metadata.lookupId,
+      metadata.lookup_id,
+      root.lookupId,
+      root.lookup_id,
+      dynamicVariables.lookupId,
+      dynamicVariables.lookup_id
+    ),
+    normalizedNumber: parseFirstNumber([
+      metadata.normalized,
+      dynamicVariables.normalized,
+      dynamicVariables.normalized_number,
+      dynamicVariables.target_number,
+      dynamicVariables.targetNumber,
+      dynamicVariables.rawInput,
+      data.normalized,
+      data.phone_number,
+      conversation.phone_number,
+      customer.number,
+      customer.phone_number,
+      root.phone_number,
+      metadataContact.number,
+      metadataContact.phone_number,
+      metadataContact.phoneNumber,
+      dataContact.number,
+      dataContact.phone_number,
+      dataContact.phoneNumber
+    ]),
+    status,
+    lookupStatus,
+    attemptStatus: EVENT_CALL_STATES[kind],
+    // The provider's own wording, shown next to the call state in the UI
+    providerStatus: isPostCall ? status ?? type ?? "post_call_transcription" : status ?? type ?? null,
+    transcript,
+    summary,
+    confidence: typeof confidence === "number" ? confidence : null,
+    endedAt: firstString(conversation.completed_at, conversation.ended_at, root.completed_at, root.ended_at),
+    terminationReason: pickString(dataMetadata.termination_reason, metadata.termination_reason),
+    failureReason: pickString(data.failure_reason, root.failure_reason, conversation.failure_reason),
+    sources: { payload: root, data, conversation, metadata, dynamicVariables }
+  };
+
+  if (kind === "post_call") {
+    return {
+      ok: true,
+      event: {
+        ...base,
+        kind: "post_call",
+        transcriptMessages,
+        analysis,
+        durationSeconds: typeof duration === "number" ? duration : null,
+        billedCost: typeof cost === "number" ? cost : null
+      }
+    };
+  }
+
+  return { ok: true, event: { ...base, kind } };
+}
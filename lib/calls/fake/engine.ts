@@ -0,0 +1,182 @@
+import type { FakeScenario } from "@/lib/calls/fake/scenarios";
+import type { CallWebhookPayload } from "@/lib/calls/types";
+import { signWebhookBody } from "@/lib/webhooks/signature";
+
+export interface FakeScenarioRun {
+  scenario: FakeScenario;
+  conversationId: string;
+  /** Dynamic variables the call was started with; at least `lookupId`. */
+  metadata: Record<string, unknown>;
+  callerName?: string | null;
+}
+
+export interface FakeDelivery {
+  delayMs: number;
+  payload: CallWebhookPayload;
+}
+
+export interface FakeDeliveryResult {
+  type: string;
+  status: number | null;
+  error?: string;
+}
+
+// Arbitrary but stable, so spend budgets can be tried locally
+const FAKE_COST_PER_SECOND = 10;
+
+function fillTemplate(value: string, name: string) {
+  return value.replace(/\{\{\s*name\s*\}\}/g, name);
+}
+
+function toDataCollectionResults(values: Record<string, string | boolean>, name: string) {
+  return Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [
+      key,
+      { value: typeof value === "string" ? fillTemplate(value, name) : String(value) }
+    ])
+  );
+}
+
+/**
+ * Turn a scenario into the ElevenLabs-shaped webhook payloads it produces, in order.
+ */
+export function buildScenarioDeliveries({ scenario, conversationId, metadata, callerName }: FakeScenarioRun) {
+  const name = callerName?.trim() || scenario.callee.name;
+  const clientData = { dynamic_variables: metadata };
+  let elapsedSecs = 0;
+
+  return scenario.events.map<FakeDelivery>((event) => {
+    elapsedSecs += event.delayMs / 1000;
+    const envelope = {
+      type: event.type,
+      event_timestamp: Math.floor(Date.now() / 1000 + elapsedSecs)
+    };
+
+    switch (event.type) {
+      case "conversation_initiation_metadata":
+        return {
+          delayMs: event.delayMs,
+          payload: {
+            ...envelope,
+            data: { conversation_id: conversationId, status: "initiating", conversation_initiation_client_data: clientData }
+          }
+        };
+      case "status":
+        return {
+          delayMs: event.delayMs,
+          payload: {
+            ...envelope,
+            data: { conversation_id: conversationId, status: event.status, conversation_initiation_client_data: clientData }
+          }
+        };
+      case "call_initiation_failure":
+        return {
+          delayMs: event.delayMs,
+          payload: {
+            ...envelope,
+            data: {
+              conversation_id: conversationId,
+              status: "failed",
+              failure_reason: event.failureReason,
+              conversation_initiation_client_data: clientData
+            }
+          }
+        };
+      case "post_call_transcription": {
+        let timeInCall = 0;
+        return {
+          delayMs: event.delayMs,
+          payload: {
+            ...envelope,
+            data: {
+              conversation_id: conversationId,
+              status: event.status,
+              transcript: event.transcript.map((entry) => {
+                const message = fillTemplate(entry.message, name);
+                const turn = { role: entry.role, message, time_in_call_secs: timeInCall };
+                timeInCall += Math.max(2, Math.round(message.length / 15));
+                return turn;
+              }),
+              metadata: {
+                call_duration_secs: event.durationSecs,
+                cost: event.durationSecs * FAKE_COST_PER_SECOND,
+                termination_reason: event.terminationReason
+              },
+              analysis: {
+                call_successful: event.callSuccessful,
+                transcript_summary: fillTemplate(event.summary, name),
+                data_collection_results: toDataCollectionResults(event.dataCollection, name)
+              },
+              conversation_initiation_client_data: clientData
+            }
+          }
+        };
+      }
+    }
+  });
+}
+
+export async function deliverFakeWebhook(webhookUrl: string, payload: CallWebhookPayload, secret: string) {
+  const rawBody = JSON.stringify(payload);
+  const type = String(payload.type);
+
+  try {
+    const response = await fetch(webhookUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Fake-Signature": signWebhookBody(rawBody, secret)
+      },
+      body: rawBody
+    });
+    return { type, status: response.status } satisfies FakeDeliveryResult;
+  } catch (error) {
+    return {
+      type,
+      status: null,
+      error: error instanceof Error ? error.message : String(error)
+    } satisfies FakeDeliveryResult;
+  }
+}
+
+/**
+ * Send a scenario's webhooks to the real handler one by one, waiting `delayMs * delayScale` before each.
+ * Stops early when `isCancelled` returns true.
+ */
+export async function runFakeScenario(
+  run: FakeScenarioRun,
+  {
+    webhookUrl,
+    secret,
+    delayScale = 1,
+    isCancelled = () => false
+  }: {
+    webhookUrl: string;
+    secret: string;
+    delayScale?: number;
+    isCancelled?: () => boolean;
+  }
+) {
+  const results: FakeDeliveryResult[] = [];
+
+  for (const delivery of buildScenarioDeliveries(run)) {
+    const waitMs = Math.max(0, delivery.delayMs * delayScale);
+    if (waitMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+    if (isCancelled()) {
+      break;
+    }
+
+    const result = await deliverFakeWebhook(webhookUrl, delivery.payload, secret);
+    results.push(result);
+
+    console.log("🎭 Fake call webhook delivered:", {
+      scenario: run.scenario.id,
+      conversationId: run.conversationId,
+      ...result
+    });
+  }
+
+  return results;
+}
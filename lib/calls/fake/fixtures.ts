@@ -0,0 +1,184 @@
+/**
+ * Every fake call scenario with the state its webhooks must leave the call in. The deliveries are
+ * built by the engine and parsed like real ones, so a scenario cannot drift from the payloads
+ * the webhook understands. Run them with `npm run test:fixtures` after changing a scenario, the
+ * engine or the event parser.
+ */
+import { canTransitionCall, type CallState, type LookupStatus } from "@/lib/call-state";
+import { parseElevenLabsEvent, type ElevenLabsEventKind } from "@/lib/calls/elevenlabs-event";
+import { buildScenarioDeliveries } from "@/lib/calls/fake/engine";
+import { getFakeScenario } from "@/lib/calls/fake/scenarios";
+import { buildProfileUpdate } from "@/lib/calls/profile-update";
+import type { FixtureSuite } from "@/lib/fixtures";
+import type { ProfileCallOutcome } from "@/lib/supabase/types";
+import { detectVoicemail } from "@/lib/voicemail";
+
+const FIXTURE_LOOKUP_ID = "00000000-0000-4000-8000-000000000007";
+const FIXTURE_NUMBER = "+31612345678";
+
+/** Only the fields listed are compared; `null` means "must be empty". Lists must match in order. */
+interface FakeScenarioExpectation {
+  /** Kind of each delivery, in order. */
+  kinds?: ElevenLabsEventKind[];
+  /** State of the call attempt after the last delivery, starting from `scheduled`. */
+  attemptStatus?: CallState;
+  lookupStatus?: LookupStatus;
+  isVoicemail?: boolean | null;
+  callOutcome?: ProfileCallOutcome | null;
+  callerName?: string | null;
+}
+
+interface FakeScenarioFixture {
+  /** Id of the scenario in lib/calls/fake/scenarios. */
+  id: string;
+  description: string;
+  expected: FakeScenarioExpectation;
+}
+
+const FIXTURES: FakeScenarioFixture[] = [
+  {
+    id: "person",
+    description: "A private person gives their name and consent",
+    expected: {
+      kinds: ["initiation", "status", "post_call"],
+      attemptStatus: "completed",
+      lookupStatus: "cached",
+      isVoicemail: false,
+      callOutcome: "confirmed",
+      callerName: "Sanne de Vries"
+    }
+  },
+  {
+    id: "business",
+    description: "A business answers with its name",
+    expected: {
+      kinds: ["initiation", "status", "post_call"],
+      attemptStatus: "completed",
+      lookupStatus: "cached",
+      isVoicemail: false,
+      callOutcome: "confirmed",
+      callerName: "Installatiebedrijf Jansen"
+    }
+  },
+  {
+    id: "voicemail",
+    description: "The call lands on voicemail",
+    expected: {
+      kinds: ["initiation", "status", "post_call"],
+      attemptStatus: "completed",
+      lookupStatus: "cached",
+      isVoicemail: true,
+      callOutcome: "voicemail"
+    }
+  },
+  {
+    id: "hang-up",
+    description: "The callee hangs up before giving a name",
+    expected: {
+      kinds: ["initiation", "status", "post_call"],
+      attemptStatus: "completed",
+      lookupStatus: "cached",
+      isVoicemail: false,
+      callerName: "Onbekende beller"
+    }
+  },
+  {
+    id: "no-answer",
+    description: "The phone rings out and the call fails",
+    expected: {
+      kinds: ["failure"],
+      attemptStatus: "failed",
+      lookupStatus: "failed",
+      isVoicemail: null,
+      callOutcome: null,
+      callerName: null
+    }
+  },
+  {
+    id: "garbled",
+    description: "The transcript is unintelligible",
+    expected: {
+      kinds: ["initiation", "status", "post_call"],
+      attemptStatus: "completed",
+      lookupStatus: "cached",
+      isVoicemail: false,
+      callerName: "Onbekende beller"
+    }
+  }
+];
+
+/**
+ * Parse a scenario's deliveries in order and apply them the way the webhook does: an attempt only
+ * moves along the allowed transitions, a lookup only when the event sets a status.
+ */
+function evaluateFixture(fixture: FakeScenarioFixture): Record<string, unknown> {
+  const scenario = getFakeScenario(fixture.id);
+  if (!scenario) {
+    return { error: `Unknown fake call scenario: ${fixture.id}` };
+  }
+
+  const deliveries = buildScenarioDeliveries({
+    scenario,
+    conversationId: `mock_conv_${FIXTURE_LOOKUP_ID}`,
+    metadata: { lookupId: FIXTURE_LOOKUP_ID, normalized: FIXTURE_NUMBER, source: "web_lookup", attemptNumber: 1 }
+  });
+
+  const kinds: ElevenLabsEventKind[] = [];
+  const lookupIds = new Set<string | null>();
+  const normalizedNumbers = new Set<string | null>();
+  let attemptStatus: CallState = "scheduled";
+  let lookupStatus: LookupStatus = "calling";
+  let postCall: Record<string, unknown> = { isVoicemail: null, callOutcome: null, callerName: null };
+
+  for (const delivery of deliveries) {
+    const parsed = parseElevenLabsEvent(delivery.payload);
+    if (!parsed.ok) {
+      return { error: parsed.error, kinds };
+    }
+
+    const { event } = parsed;
+    kinds.push(event.kind);
+    lookupIds.add(event.lookupId);
+    normalizedNumbers.add(event.normalizedNumber);
+    if (!canTransitionCall(attemptStatus, event.attemptStatus)) {
+      return { error: `${event.attemptStatus} after ${attemptStatus}`, kinds };
+    }
+    attemptStatus = event.attemptStatus;
+    lookupStatus = event.lookupStatus ?? lookupStatus;
+
+    if (event.kind === "post_call") {
+      const voicemail = detectVoicemail({
+        messages: event.transcriptMessages,
+        transcript: event.transcript,
+        summary: event.summary,
+        analysis: event.analysis,
+        durationSeconds: event.durationSeconds,
+        terminationReason: event.terminationReason
+      });
+      const profile = buildProfileUpdate({
+        event,
+        voicemail,
+        existingProfile: null,
+        normalizedNumber: event.normalizedNumber ?? FIXTURE_NUMBER
+      });
+      postCall = { isVoicemail: voicemail.isVoicemail, callOutcome: profile.callOutcome, callerName: profile.callerName };
+    }
+  }
+
+  return {
+    kinds,
+    lookupIds: [...lookupIds],
+    normalizedNumbers: [...normalizedNumbers],
+    attemptStatus,
+    lookupStatus,
+    ...postCall
+  };
+}
+
+export const fakeScenarioFixtures: FixtureSuite<FakeScenarioFixture> = {
+  name: "fake-scenarios",
+  fixtures: FIXTURES,
+  evaluate: evaluateFixture,
+  // Every delivery must carry the lookup and number the call was started for
+  alwaysExpected: { lookupIds: [FIXTURE_LOOKUP_ID], normalizedNumbers: [FIXTURE_NUMBER] }
+};
@@ -0,0 +1,64 @@
+/**
+ * Scripted calls for the fake call provider, one JSON file per scenario in this directory.
+ */
+import businessScenario from "@/lib/calls/fake/scenarios/business.json";
+import garbledScenario from "@/lib/calls/fake/scenarios/garbled.json";
+import hangUpScenario from "@/lib/calls/fake/scenarios/hang-up.json";
+import noAnswerScenario from "@/lib/calls/fake/scenarios/no-answer.json";
+import personScenario from "@/lib/calls/fake/scenarios/person.json";
+import voicemailScenario from "@/lib/calls/fake/scenarios/voicemail.json";
+
+interface ScenarioEventBase {
+  /** Wait before sending, relative to the previous event. */
+  delayMs: number;
+}
+
+export type FakeScenarioEvent =
+  | (ScenarioEventBase & { type: "conversation_initiation_metadata" })
+  | (ScenarioEventBase & { type: "status"; status: string })
+  | (ScenarioEventBase & { type: "call_initiation_failure"; failureReason: string })
+  | (ScenarioEventBase & {
+      type: "post_call_transcription";
+      status: string;
+      durationSecs: number;
+      terminationReason: string;
+      callSuccessful: string;
+      transcript: Array<{ role: string; message: string }>;
+      summary: string;
+      /** Becomes `analysis.data_collection_results`, each value wrapped as `{ value }`. */
+      dataCollection: Record<string, string | boolean>;
+    });
+
+/**
+ * A scripted call. Text fields may use `{{name}}`, replaced by `callee.name` or the caller name override.
+ */
+export interface FakeScenario {
+  id: string;
+  label: string;
+  description: string;
+  callee: { name: string };
+  events: FakeScenarioEvent[];
+}
+
+const SCENARIOS = [
+  personScenario,
+  businessScenario,
+  voicemailScenario,
+  hangUpScenario,
+  noAnswerScenario,
+  garbledScenario
+] as FakeScenario[];
+
+export const DEFAULT_FAKE_SCENARIO = "person";
+
+export function listFakeScenarios() {
+  return SCENARIOS.map(({ id, label, description }) => ({ id, label, description }));
+}
+
+export function getFakeScenario(id: string | null | undefined) {
+  return SCENARIOS.find((scenario) => scenario.id === id) ?? null;
+}
+
+export function getDefaultFakeScenario() {
+  return getFakeScenario(DEFAULT_FAKE_SCENARIO) ?? SCENARIOS[0];
+}
@@ -0,0 +1,65 @@
+import { elevenLabsCallProvider } from "@/lib/calls/providers/elevenlabs";
+import { fakeCallProvider } from "@/lib/calls/providers/fake";
+import type { CallProvider, CallProviderId } from "@/lib/calls/types";
+
+export type { CallProvider, CallProviderId, CallWebhookPayload } from "@/lib/calls/types";
+
+const PROVIDERS: Record<CallProviderId, CallProvider> = {
+  elevenlabs: elevenLabsCallProvider,
+  fake: fakeCallProvider
+};
+
+/**
+ * Whether calls are mocked instead of dialed.
+ * - Production: always real calls
+ * - Development: DEV_DEBUG=true → mock, DEV_DEBUG=false → real
+ * - DEV_DEBUG not set: legacy DISABLE_ELEVENLABS_CALLS, otherwise mock
+ */
+export function shouldUseMockCalls() {
+  if (process.env.NODE_ENV === "production") {
+    return false;
+  }
+
+  const devDebug = process.env.DEV_DEBUG?.toLowerCase().trim();
+  if (devDebug !== undefined) {
+    return devDebug === "true";
+  }
+
+  const disableCalls = process.env.DISABLE_ELEVENLABS_CALLS?.toLowerCase().trim(); // Legacy support
+  if (disableCalls !== undefined) {
+    return disableCalls === "true";
+  }
+
+  return true;
+}
+
+/**
+ * Look up a provider by id, e.g. from the webhook URL. The fake provider does not exist in production.
+ */
+export function getCallProviderById(id: string): CallProvider | null {
+  if (id === "fake" && process.env.NODE_ENV === "production") {
+    return null;
+  }
+
+  return PROVIDERS[id as CallProviderId] ?? null;
+}
+
+/**
+ * Resolve the provider that places new calls.
+ * `CALL_PROVIDER` picks one explicitly; otherwise mock calls use `fake` and real calls `elevenlabs`.
+ */
+export function getCallProvider(): CallProvider {
+  const configured = process.env.CALL_PROVIDER?.toLowerCase().trim();
+  const providerId = configured || (shouldUseMockCalls() ? "fake" : "elevenlabs");
+
+  if (providerId === "fake" && process.env.NODE_ENV === "production") {
+    throw new Error("The fake call provider cannot be used in production");
+  }
+
+  const provider = PROVIDERS[providerId as CallProviderId];
+  if (!provider) {
+    throw new Error(`Unknown call provider: ${providerId}`);
+  }
+
+  return provider;
+}
@@ -0,0 +1,333 @@
+import { classifyCallFailure } from "@/lib/call-retry";
+import { getCallTransitionError, type LookupStatus } from "@/lib/call-state";
+import { scheduleRetry } from "@/lib/calls/dispatch";
+import {
+  parseElevenLabsEvent,
+  type ElevenLabsEvent,
+  type ElevenLabsPostCallEvent
+} from "@/lib/calls/elevenlabs-event";
+import { buildProfileUpdate } from "@/lib/calls/profile-update";
+import type { CallWebhookPayload } from "@/lib/calls/types";
+import { parsePhoneNumber } from "@/lib/phone";
+import { revalidateProfile } from "@/lib/revalidation";
+import {
+  updateCallAttemptByConversation,
+  updateCallAttemptByLookupId,
+  getCallAttemptByConversationId,
+  getLatestCallAttempt
+} from "@/lib/supabase/call-attempts";
+import {
+  fetchProfileRecordByNumber,
+  getLookupById,
+  getProfileById,
+  updateLookupStatus,
+  upsertPhoneProfile,
+  getLatestLookupByNormalized
+} from "@/lib/supabase/lookups";
+import { isNumberSuppressed } from "@/lib/supabase/suppressions";
+import type { CallAttemptRecord, WebhookEventRecord } from "@/lib/supabase/types";
+import { markWebhookEvent } from "@/lib/supabase/webhook-events";
+import { detectVoicemail } from "@/lib/voicemail";
+
+const IS_DEV = process.env.NODE_ENV !== "production";
+
+/**
+ * "ignored" events were valid but had nothing to apply: an unknown lookup or an out-of-order event.
+ */
+export type WebhookProcessingResult =
+  | { status: "processed" }
+  | { status: "ignored"; reason: string }
+  | { status: "failed"; error: string; httpStatus: 400 | 500 };
+
+interface LookupReference {
+  id: string;
+  normalized: string;
+  profile_id: string | null;
+}
+
+function toNormalizedNumber(value: string | null | undefined) {
+  if (!value) return null;
+  try {
+    return parsePhoneNumber(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store the event on its call attempt and find the lookup it belongs to: the lookup id from the
+ * call metadata, the attempt's lookup, or the latest lookup for the number, in that order.
+ * Events that would move the attempt back to an earlier phase are not applied.
+ */
+async function recordEventOnAttempt(event: ElevenLabsEvent) {
+  let attempt = await getCallAttemptByConversationId(event.conversationId);
+  const regression = attempt ? getCallTransitionError(attempt.status, event.attemptStatus) : null;
+  if (regression) {
+    return { lookup: null, attempt, regression };
+  }
+
+  let lookup: LookupReference | null = event.lookupId ? await getLookupById(event.lookupId) : null;
+  if (event.lookupId && !lookup && IS_DEV) {
+    console.warn("⚠️ Lookup id from webhook not found in database:", {
+      lookupId: event.lookupId,
+      normalizedNumber: event.normalizedNumber
+    });
+  }
+
+  if (!lookup && attempt?.lookup_id) {
+    lookup = await getLookupById(attempt.lookup_id);
+  }
+
+  if (!lookup && event.normalizedNumber) {
+    lookup = await getLatestLookupByNormalized(event.normalizedNumber);
+  }
+
+  const update = {
+    status: event.attemptStatus,
+    elevenLabsStatus: event.providerStatus,
+    payload: { ...event.sources.payload, event: event.type, type: event.type },
+    transcript: event.transcript,
+    summary: event.summary,
+    confidence: event.confidence,
+    endedAt: event.endedAt,
+    // Only stored on the attempt of this conversation, so mirrored results are not billed twice
+    ...(event.kind === "post_call"
+      ? { durationSeconds: event.durationSeconds ?? undefined, billedCost: event.billedCost ?? undefined }
+      : {})
+  };
+
+  const attemptLookupId = await updateCallAttemptByConversation({ conversationId: event.conversationId, ...update });
+  if (attemptLookupId) {
+    attempt = await getCallAttemptByConversationId(event.conversationId);
+    if (attemptLookupId !== lookup?.id) {
+      lookup = (await getLookupById(attemptLookupId)) ?? lookup;
+    }
+  } else if (lookup) {
+    attempt = (await updateCallAttemptByLookupId({ lookupId: lookup.id, ...update })) ?? attempt;
+  }
+
+  return { lookup, attempt, regression: null };
+}
+
+/**
+ * Post-call results are also written by lookup id, and mirrored to the latest lookup for the number
+ * when the UI started a newer lookup while this conversation was still running.
+ */
+async function recordPostCallOnLookups(event: ElevenLabsPostCallEvent, lookupId: string) {
+  const update = {
+    status: event.attemptStatus,
+    elevenLabsStatus: event.providerStatus,
+    payload: {
+      ...event.sources.payload,
+      event: event.type ?? "post_call_transcription",
+      type: event.type ?? "post_call_transcription"
+    },
+    transcript: event.transcript,
+    summary: event.summary,
+    confidence: event.confidence,
+    endedAt: event.endedAt
+  };
+
+  const updated = await updateCallAttemptByLookupId({ lookupId, ...update });
+  console.log("✅ Call attempt updated by lookupId:", {
+    lookupId,
+    updateResult: updated ? "success" : "failed",
+    status: update.status,
+    hasTranscript: !!event.transcript,
+    hasSummary: !!event.summary
+  });
+
+  if (!event.normalizedNumber) {
+    return;
+  }
+
+  const latestLookup = await getLatestLookupByNormalized(event.normalizedNumber);
+  if (latestLookup && latestLookup.id !== lookupId) {
+    console.log("🪞 Mirroring update to latest lookup for normalized:", {
+      normalizedNumber: event.normalizedNumber,
+      sourceLookupId: lookupId,
+      latestLookupId: latestLookup.id,
+      latestStatus: latestLookup.status
+    });
+    await updateCallAttemptByLookupId({ lookupId: latestLookup.id, ...update });
+  }
+}
+
+/**
+ * Apply a verified webhook payload: update the call attempt and lookup, store the profile
+ * for finished calls and schedule retries. Throws on unexpected database errors.
+ */
+export async function processWebhookPayload(payload: CallWebhookPayload): Promise<WebhookProcessingResult> {
+  const parsedEvent = parseElevenLabsEvent(payload);
+  if (!parsedEvent.ok) {
+    return { status: "failed", error: parsedEvent.error, httpStatus: 400 };
+  }
+
+  const event = parsedEvent.event;
+
+  console.log("📥 Call webhook event:", {
+    kind: event.kind,
+    type: event.type,
+    status: event.status,
+    conversationId: event.conversationId,
+    lookupStatus: event.lookupStatus,
+    hasTranscript: !!event.transcript,
+    hasSummary: !!event.summary
+  });
+
+  const voicemail =
+    event.kind === "post_call"
+      ? detectVoicemail({
+          messages: event.transcriptMessages,
+          transcript: event.transcript,
+          summary: event.summary,
+          analysis: event.analysis,
+          durationSeconds: event.durationSeconds,
+          terminationReason: event.terminationReason
+        })
+      : null;
+
+  if (voicemail?.isVoicemail) {
+    console.log("📼 Voicemail detected:", {
+      conversationId: event.conversationId,
+      signals: voicemail.signals,
+      ownerName: voicemail.ownerName
+    });
+  }
+
+  const { lookup, attempt, regression } = await recordEventOnAttempt(event);
+  if (regression) {
+    console.log("⏪ Ignoring out-of-order webhook event:", { conversationId: event.conversationId, regression });
+    return { status: "ignored", reason: `Out of order: ${event.type ?? event.kind} (${regression})` };
+  }
+  if (!lookup) {
+    return { status: "ignored", reason: "Lookup id missing" };
+  }
+
+  if (event.kind === "initiation") {
+    console.log("📞 Initiation event detected:", {
+      type: event.type,
+      status: event.status,
+      conversationId: event.conversationId,
+      lookupId: lookup.id
+    });
+  }
+
+  if (event.kind === "post_call") {
+    await recordPostCallOnLookups(event, lookup.id);
+  }
+
+  const normalizedNumber = toNormalizedNumber(
+    typeof event.sources.metadata.normalized === "string" ? event.sources.metadata.normalized : lookup.normalized
+  );
+  let profileId = lookup.profile_id ?? null;
+
+  // A number can be suppressed while its call is still in flight; never publish a profile for it.
+  const isSuppressed = normalizedNumber ? await isNumberSuppressed(normalizedNumber) : false;
+  if (isSuppressed) {
+    console.log("🚫 Skipping profile update for suppressed number:", {
+      lookupId: lookup.id,
+      normalizedNumber
+    });
+  }
+
+  if (event.kind === "post_call" && voicemail && event.lookupStatus === "cached" && normalizedNumber && !isSuppressed) {
+    const existingProfile =
+      (profileId ? await getProfileById(profileId) : await fetchProfileRecordByNumber(normalizedNumber)) ?? null;
+
+    const profileUpdate = buildProfileUpdate({ event, voicemail, existingProfile, normalizedNumber });
+
+    if (IS_DEV) {
+      console.log("💾 Upserting profile:", {
+        normalized: profileUpdate.normalized,
+        callerName: profileUpdate.callerName,
+        nameSource: profileUpdate.nameSource,
+        entityTypeSource: profileUpdate.entityTypeSource,
+        callOutcome: profileUpdate.callOutcome
+      });
+    }
+
+    const upsertedId = await upsertPhoneProfile(profileUpdate, {
+      source: "call_attempt",
+      sourceRef: attempt?.id ?? null
+    });
+    if (upsertedId) {
+      profileId = upsertedId;
+      await revalidateProfile(normalizedNumber, "call_attempt");
+    } else {
+      console.error("❌ Profile upsert failed - no ID returned");
+    }
+  }
+
+  // Busy, unanswered and failed calls get a follow-up attempt (see lib/call-retry.ts);
+  // the lookup then stays "calling" until the retry finishes or the policy is exhausted.
+  // Voicemails are stored as a result right away and retried later to reach a person.
+  let retryAttempt: CallAttemptRecord | null = null;
+  if (event.lookupStatus === "cached" && voicemail?.isVoicemail && !isSuppressed) {
+    const voicemailAttempt = attempt ?? (await getLatestCallAttempt(lookup.id));
+    if (voicemailAttempt && voicemailAttempt.status !== "retry_scheduled") {
+      retryAttempt = await scheduleRetry(voicemailAttempt, "voicemail");
+    }
+  } else if (event.lookupStatus === "failed" && !isSuppressed) {
+    const failedAttempt = attempt ?? (await getLatestCallAttempt(lookup.id));
+    const retryReason =
+      classifyCallFailure({
+        status: event.status,
+        event: event.type,
+        failureReason: event.failureReason,
+        terminationReason: event.terminationReason
+      }) ?? "provider_error";
+
+    if (failedAttempt && failedAttempt.status !== "retry_scheduled") {
+      retryAttempt = await scheduleRetry(failedAttempt, retryReason);
+    }
+  }
+
+  // A failing follow-up call must not hide the voicemail result an earlier attempt already stored
+  const keepCachedResult =
+    event.lookupStatus === "failed" && (await getLookupById(lookup.id))?.status === "cached";
+  const finalLookupStatus: LookupStatus | undefined = keepCachedResult
+    ? "cached"
+    : retryAttempt && event.lookupStatus === "failed"
+    ? "calling"
+    : event.lookupStatus;
+
+  if (finalLookupStatus) {
+    console.log("📝 Updating lookup status to:", {
+      lookupId: lookup.id,
+      lookupStatus: finalLookupStatus,
+      retryScheduledFor: retryAttempt?.scheduled_for ?? null,
+      profileId: profileId ?? null
+    });
+    await updateLookupStatus(lookup.id, finalLookupStatus, profileId ?? undefined);
+  }
+
+  return { status: "processed" };
+}
+
+/**
+ * Process a delivery from the webhook event log and record the outcome on it.
+ * Used for new deliveries, provider redeliveries of failed events and admin replays.
+ */
+export async function processWebhookEvent(record: WebhookEventRecord): Promise<WebhookProcessingResult> {
+  let result: WebhookProcessingResult;
+  try {
+    result = await processWebhookPayload(record.payload);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("❌ Call webhook error:", {
+      webhookEventId: record.id,
+      message: errorMessage,
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    result = { status: "failed", error: errorMessage, httpStatus: 500 };
+  }
+
+  await markWebhookEvent(
+    record,
+    result.status,
+    result.status === "failed" ? result.error : result.status === "ignored" ? result.reason : null
+  );
+
+  return result;
+}
@@ -0,0 +1,96 @@
+import { classifyCallFailure } from "@/lib/call-retry";
+import { checkSpendBudget } from "@/lib/call-spend";
+import { findActiveLookup } from "@/lib/calls/active-call";
+import { placeCall, scheduleRetry } from "@/lib/calls/dispatch";
+import { classifyNumber, isCallableNumber } from "@/lib/number-intelligence";
+import type { ProfileFreshness } from "@/lib/profile-freshness";
+import { consumeRefreshRateLimits } from "@/lib/rate-limit";
+import { recordCallAttempt } from "@/lib/supabase/call-attempts";
+import { claimActiveLookup, updateLookupStatus } from "@/lib/supabase/lookups";
+
+/**
+ * Re-verify a stale profile with a new call while the stored result is served. The call runs as a
+ * regular lookup, so the webhook updates the profile as usual.
+ * Returns the id of the lookup doing the call (also one another visitor started), or null when no
+ * call runs: a number we never dial (see UNCALLABLE_NUMBER_TYPES), budget or refresh window used
+ * up, or the call could not be placed. Never throws.
+ */
+export async function refreshStaleProfile({
+  normalized,
+  rawInput,
+  freshness
+}: {
+  normalized: string;
+  rawInput: string;
+  freshness: ProfileFreshness;
+}): Promise<string | null> {
+  // Profiles stored before premium-rate numbers were refused must not be re-verified with a call
+  if (!isCallableNumber(classifyNumber(normalized))) {
+    return null;
+  }
+
+  try {
+    const active = await findActiveLookup(normalized);
+    if (active) {
+      return active.lookup.id;
+    }
+
+    const budget = await checkSpendBudget();
+    if (!budget.allowed || !(await consumeRefreshRateLimits(normalized))) {
+      return null;
+    }
+
+    const lookupId = await claimActiveLookup({ normalized, rawInput });
+    if (!lookupId) {
+      return (await findActiveLookup(normalized))?.lookup.id ?? null;
+    }
+
+    console.log("🔄 Re-verifying stale profile:", {
+      normalized,
+      lookupId,
+      rule: freshness.rule,
+      staleAt: freshness.staleAt
+    });
+
+    try {
+      const placed = await placeCall({ lookupId, normalized, rawInput });
+
+      await recordCallAttempt({
+        lookupId,
+        status: "scheduled",
+        conversationId: placed.conversationId,
+        elevenLabsStatus: placed.message,
+        payload: {
+          callSid: placed.callSid,
+          provider: placed.provider,
+          mock: placed.mock ? true : undefined,
+          refresh_rule: freshness.rule
+        }
+      });
+
+      return lookupId;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Onbekende fout";
+      const failedAttempt = await recordCallAttempt({
+        lookupId,
+        status: "failed",
+        errorMessage: message
+      });
+
+      const reason = classifyCallFailure({ errorMessage: message }) ?? "provider_error";
+      const retry = failedAttempt ? await scheduleRetry(failedAttempt, reason) : null;
+      if (retry) {
+        return lookupId;
+      }
+
+      await updateLookupStatus(lookupId, "failed");
+      return null;
+    }
+  } catch (error) {
+    console.error("❌ Profile refresh failed:", {
+      normalized,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return null;
+  }
+}
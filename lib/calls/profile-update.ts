@@ -0,0 +1,173 @@
+import type { ElevenLabsPostCallEvent } from "@/lib/calls/elevenlabs-event";
+import { GENERIC_CALLER_LABELS, cleanCallerName, identifyCaller } from "@/lib/identification";
+import { computeCrowdConfidence } from "@/lib/reports";
+import type { UpsertProfileInput } from "@/lib/supabase/lookups";
+import type { PhoneProfileRecord, ProfileCallOutcome } from "@/lib/supabase/types";
+import type { VoicemailDetection } from "@/lib/voicemail";
+
+const CALL_OUTCOMES: ProfileCallOutcome[] = ["confirmed", "voicemail", "pending"];
+const MAX_ALIASES = 5;
+// A number belongs to a business or a person; a new call that says which replaces the other tag
+const ENTITY_TAGS = ["bedrijf", "particulier"];
+
+function determineCallOutcome(summary: string | null, voicemail: VoicemailDetection): ProfileCallOutcome {
+  if (voicemail.isVoicemail) {
+    return "voicemail";
+  }
+
+  if (summary && summary.length > 0) {
+    return "confirmed";
+  }
+
+  return "pending";
+}
+
+/**
+ * A confirmed profile is never downgraded by a later voicemail; otherwise the latest call decides,
+ * with "pending" keeping whatever was known before.
+ */
+function mergeCallOutcome(existing: ProfileCallOutcome | null, detected: ProfileCallOutcome): ProfileCallOutcome {
+  if (existing === "confirmed") {
+    return "confirmed";
+  }
+
+  if (detected === "pending") {
+    return existing ?? "pending";
+  }
+
+  return detected;
+}
+
+function toTagList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value
+        .map((tag) => (typeof tag === "string" ? tag.trim() : ""))
+        .filter((tag) => tag.length > 0)
+    : [];
+}
+
+/**
+ * Turn a finished call into the profile to store for its number, merged with the profile
+ * stored before. Pure, so the identification fixtures can run it without a database.
+ */
+export function buildProfileUpdate({
+  event,
+  voicemail,
+  existingProfile,
+  normalizedNumber
+}: {
+  event: ElevenLabsPostCallEvent;
+  voicemail: VoicemailDetection;
+  existingProfile: PhoneProfileRecord | null;
+  normalizedNumber: string;
+}): UpsertProfileInput {
+  const { metadata, payload } = event.sources;
+  const { summary, transcript } = event;
+
+  // A profile confirmed by an earlier conversation keeps its name when a later call reaches the voicemail
+  const keepConfirmedProfile = voicemail.isVoicemail && existingProfile?.call_outcome === "confirmed";
+
+  const identification = identifyCaller(event, {
+    existingProfile,
+    voicemailOwnerName: keepConfirmedProfile ? null : voicemail.ownerName
+  });
+  const { callerName, entityTag } = identification;
+
+  const metadataOutcome = metadata.callOutcome ?? metadata.call_outcome;
+  const callOutcome = CALL_OUTCOMES.includes(metadataOutcome as ProfileCallOutcome)
+    ? (metadataOutcome as ProfileCallOutcome)
+    : mergeCallOutcome(existingProfile?.call_outcome ?? null, determineCallOutcome(summary, voicemail));
+
+  const tagMap = new Map<string, string>();
+  for (const tag of toTagList(metadata.tags)) {
+    tagMap.set(tag.toLowerCase(), tag);
+  }
+  if (entityTag) {
+    tagMap.set(entityTag.toLowerCase(), entityTag);
+  }
+
+  const fallbackSummary = existingProfile?.summary ?? existingProfile?.transcript_preview ?? null;
+  let effectiveSummary = summary ?? fallbackSummary ?? (transcript ? transcript.slice(0, 240) : null);
+  let transcriptPreview = transcript ?? existingProfile?.transcript_preview ?? effectiveSummary ?? null;
+
+  if (keepConfirmedProfile) {
+    effectiveSummary = fallbackSummary ?? effectiveSummary;
+    transcriptPreview = existingProfile?.transcript_preview ?? transcriptPreview;
+  } else if (voicemail.isVoicemail) {
+    // The greeting is the only thing the callee side said, so it doubles as the transcript preview
+    transcriptPreview = voicemail.greeting ?? transcriptPreview;
+    effectiveSummary =
+      summary ??
+      (voicemail.ownerName
+        ? `Voicemail van ${voicemail.ownerName}. Er is nog niemand gesproken.`
+        : "Voicemail bereikt. Er is nog niemand gesproken.");
+  }
+
+  const existingCallConfidence = existingProfile?.call_confidence ?? existingProfile?.confidence ?? null;
+  const confidence = event.confidence ?? existingCallConfidence;
+
+  return mergeProfileUpdate(existingProfile, {
+    normalized: normalizedNumber,
+    callerName,
+    summary: effectiveSummary,
+    transcriptPreview: transcriptPreview ? transcriptPreview.slice(0, 500) : null,
+    lastChecked: event.endedAt ?? new Date().toISOString(),
+    confidence:
+      confidence === null
+        ? undefined
+        : computeCrowdConfidence(
+            confidence,
+            existingProfile?.reports_confirmed ?? 0,
+            existingProfile?.reports_disputed ?? 0
+          ),
+    callConfidence: confidence ?? undefined,
+    callOutcome,
+    tags: Array.from(tagMap.values()),
+    aka: [...identification.persons, ...identification.businesses],
+    nameSource: identification.nameSource,
+    entityTypeSource: identification.entityTypeSource,
+    elevenlabsRawResponse: JSON.parse(JSON.stringify(payload))
+  });
+}
+
+/**
+ * Combine what a new call found with the profile stored for the number, so repeated calls add to
+ * a profile instead of resetting it: aliases accumulate (a replaced caller name becomes an alias)
+ * and tags are combined. Vote counters are never part of an update; only recountProfileReports
+ * writes them.
+ */
+export function mergeProfileUpdate(
+  existingProfile: PhoneProfileRecord | null,
+  update: UpsertProfileInput
+): UpsertProfileInput {
+  const incomingTags = toTagList(update.tags);
+  const incomingLower = new Set(incomingTags.map((tag) => tag.toLowerCase()));
+  const replacesEntity = ENTITY_TAGS.some((tag) => incomingLower.has(tag));
+
+  const tagMap = new Map<string, string>();
+  for (const tag of [...toTagList(existingProfile?.tags), ...incomingTags]) {
+    const lower = tag.toLowerCase();
+    if (replacesEntity && ENTITY_TAGS.includes(lower) && !incomingLower.has(lower)) continue;
+    tagMap.set(lower, tag);
+  }
+
+  // Newest first, so the cap drops the oldest aliases
+  const previousName =
+    existingProfile && existingProfile.caller_name.toLowerCase() !== update.callerName.toLowerCase()
+      ? existingProfile.caller_name
+      : null;
+  const aliasMap = new Map<string, string>();
+  for (const value of [previousName, ...(update.aka ?? []), ...(existingProfile?.aka ?? [])]) {
+    const cleaned = cleanCallerName(value);
+    if (!cleaned) continue;
+    const lower = cleaned.toLowerCase();
+    if (lower === update.callerName.toLowerCase() || GENERIC_CALLER_LABELS.has(lower) || aliasMap.has(lower)) continue;
+    aliasMap.set(lower, cleaned);
+  }
+
+  return {
+    ...update,
+    tags: Array.from(tagMap.values()),
+    aka: Array.from(aliasMap.values()).slice(0, MAX_ALIASES)
+  };
+}
@@ -0,0 +1,181 @@
+import type {
+  CallProvider,
+  CallReference,
+  CallWebhookPayload,
+  IncomingWebhook,
+  ParsedWebhook,
+  StartCallParams,
+  StartedCall
+} from "@/lib/calls/types";
+import { requireWebhookSecrets, signWebhookBody, verifyWebhookSignature } from "@/lib/webhooks/signature";
+
+const ELEVENLABS_API_URL = "https://api.elevenlabs.io/v1/convai";
+
+interface ElevenLabsCallResponse {
+  success: boolean;
+  message: string;
+  conversation_id: string | null;
+  callSid?: string | null;
+}
+
+// Read lazily so importing this module never fails when ElevenLabs is not configured.
+function getElevenLabsConfig() {
+  const apiKey = process.env.ELEVENLABS_API_KEY;
+  const agentId = process.env.ELEVENLABS_AGENT_ID;
+  const phoneNumberId = process.env.ELEVENLABS_PHONE_NUMBER_ID;
+
+  if (!apiKey) {
+    throw new Error("ELEVENLABS_API_KEY is not set");
+  }
+
+  if (!agentId) {
+    throw new Error("ELEVENLABS_AGENT_ID is not set");
+  }
+
+  if (!phoneNumberId) {
+    throw new Error("ELEVENLABS_PHONE_NUMBER_ID is not set");
+  }
+
+  return { apiKey, agentId, phoneNumberId };
+}
+
+async function startCall({ phoneNumber, metadata }: StartCallParams): Promise<StartedCall> {
+  const { apiKey, agentId, phoneNumberId } = getElevenLabsConfig();
+  const dynamicVariables =
+    Object.keys(metadata).length > 0 ? { dynamic_variables: metadata } : undefined;
+
+  const response = await fetch(`${ELEVENLABS_API_URL}/twilio/outbound-call`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "xi-api-key": apiKey
+    },
+    body: JSON.stringify({
+      agent_id: agentId,
+      agent_phone_number_id: phoneNumberId,
+      to_number: phoneNumber,
+      conversation_initiation_client_data: dynamicVariables
+    })
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(
+      `ElevenLabs call failed with status ${response.status}: ${errorText || response.statusText}`
+    );
+  }
+
+  const result = (await response.json()) as ElevenLabsCallResponse;
+  if (!result.success) {
+    throw new Error(result.message || "ElevenLabs call failed");
+  }
+
+  return {
+    conversationId: result.conversation_id,
+    callSid: result.callSid ?? null,
+    message: result.message ?? null
+  };
+}
+
+/**
+ * ElevenLabs has no hang-up endpoint for outbound calls, but the call runs over our own
+ * Twilio number, so it can be completed through Twilio when the call SID is known.
+ */
+async function cancelCall({ callSid }: CallReference) {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+
+  if (!callSid || !accountSid || !authToken) {
+    return false;
+  }
+
+  const credentials = Buffer.from(`${accountSid}:${authToken}`).toString("base64");
+  const response = await fetch(
+    `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Calls/${callSid}.json`,
+    {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${credentials}`,
+        "Content-Type": "application/x-www-form-urlencoded"
+      },
+      body: new URLSearchParams({ Status: "completed" })
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Twilio hang-up failed with status ${response.status}: ${errorText || response.statusText}`);
+  }
+
+  return true;
+}
+
+async function fetchConversation(conversationId: string): Promise<CallWebhookPayload | null> {
+  const { apiKey } = getElevenLabsConfig();
+
+  const response = await fetch(`${ELEVENLABS_API_URL}/conversations/${encodeURIComponent(conversationId)}`, {
+    headers: { "xi-api-key": apiKey }
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(
+      `ElevenLabs conversation fetch failed with status ${response.status}: ${errorText || response.statusText}`
+    );
+  }
+
+  const conversation = (await response.json()) as Record<string, unknown>;
+
+  // Same envelope as the post-call webhook, so the payload can go through the webhook pipeline
+  return {
+    type: "post_call_transcription",
+    event_timestamp: Math.floor(Date.now() / 1000),
+    data: conversation
+  };
+}
+
+/**
+ * `ELEVENLABS_WEBHOOK_SECRET`, comma-separated while rotating. Required in production;
+ * without it development accepts unsigned webhooks.
+ */
+export function getElevenLabsWebhookSecrets() {
+  return requireWebhookSecrets("ELEVENLABS_WEBHOOK_SECRET");
+}
+
+function parseWebhook({ rawBody, headers }: IncomingWebhook): ParsedWebhook {
+  const secrets = getElevenLabsWebhookSecrets();
+  const signature = headers.get("elevenlabs-signature");
+
+  if (secrets.length && !verifyWebhookSignature(rawBody, signature, { secrets, scope: "elevenlabs" }).ok) {
+    return { ok: false, status: 401, error: "Unauthorized" };
+  }
+
+  try {
+    const parsed: unknown = rawBody ? JSON.parse(rawBody) : {};
+    if (typeof parsed !== "object" || parsed === null) {
+      return { ok: true, payload: {}, signature };
+    }
+    return { ok: true, payload: parsed as CallWebhookPayload, signature };
+  } catch {
+    return { ok: false, status: 400, error: "Invalid JSON" };
+  }
+}
+
+/**
+ * Sign a body as ElevenLabs would, for the dev replay endpoints.
+ */
+export function signElevenLabsWebhook(rawBody: string) {
+  return signWebhookBody(rawBody, getElevenLabsWebhookSecrets()[0] ?? "dev-secret");
+}
+
+export const elevenLabsCallProvider: CallProvider = {
+  id: "elevenlabs",
+  startCall,
+  cancelCall,
+  fetchConversation,
+  parseWebhook
+};
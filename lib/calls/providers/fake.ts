@@ -0,0 +1,136 @@
+import { buildScenarioDeliveries, runFakeScenario } from "@/lib/calls/fake/engine";
+import { DEFAULT_FAKE_SCENARIO, getFakeScenario } from "@/lib/calls/fake/scenarios";
+import type {
+  CallProvider,
+  CallReference,
+  CallWebhookPayload,
+  IncomingWebhook,
+  ParsedWebhook,
+  StartCallParams,
+  StartedCall
+} from "@/lib/calls/types";
+import { parseWebhookSecrets, verifyWebhookSignature } from "@/lib/webhooks/signature";
+
+interface FakeCall {
+  conversationId: string;
+  postCallPayload: CallWebhookPayload | null;
+  cancelled: boolean;
+}
+
+// Kept on globalThis so dev hot reloads do not lose running fake calls
+const globalForFakeCalls = globalThis as unknown as { fakeCalls?: Map<string, FakeCall> };
+const fakeCalls = (globalForFakeCalls.fakeCalls ??= new Map<string, FakeCall>());
+
+function getFakeWebhookSecrets() {
+  const secrets = parseWebhookSecrets(process.env.FAKE_CALL_WEBHOOK_SECRET);
+  return secrets.length ? secrets : ["fake-call-secret"];
+}
+
+/**
+ * Secret the fake provider signs with: the first of `FAKE_CALL_WEBHOOK_SECRET`.
+ */
+export function getFakeWebhookSecret() {
+  return getFakeWebhookSecrets()[0];
+}
+
+function getWebhookUrl() {
+  const baseUrl = process.env.FAKE_CALL_WEBHOOK_BASE_URL || `http://localhost:${process.env.PORT ?? 3000}`;
+  return new URL("/api/webhooks/fake", baseUrl).toString();
+}
+
+function getDelayScale() {
+  const value = Number(process.env.FAKE_CALL_DELAY_SCALE);
+  return Number.isFinite(value) && value >= 0 ? value : 1;
+}
+
+/**
+ * Scenario per call: `fakeScenario` in the call metadata, then `FAKE_CALL_SCENARIO`, then "person".
+ */
+function resolveScenario(metadata: Record<string, unknown>) {
+  const requested =
+    (typeof metadata.fakeScenario === "string" ? metadata.fakeScenario : null) ?? process.env.FAKE_CALL_SCENARIO;
+  const scenario = getFakeScenario(requested ?? DEFAULT_FAKE_SCENARIO);
+  if (!scenario) {
+    throw new Error(`Unknown fake call scenario: ${requested}`);
+  }
+  return scenario;
+}
+
+async function startCall(params: StartCallParams): Promise<StartedCall> {
+  const scenario = resolveScenario(params.metadata);
+  const conversationId = `mock_conv_${params.lookupId}_${Date.now()}`;
+  const run = { scenario, conversationId, metadata: params.metadata };
+  const postCall = buildScenarioDeliveries(run).find(
+    (delivery) => delivery.payload.type === "post_call_transcription"
+  );
+
+  const call: FakeCall = {
+    conversationId,
+    postCallPayload: postCall?.payload ?? null,
+    cancelled: false
+  };
+  fakeCalls.set(conversationId, call);
+
+  void runFakeScenario(run, {
+    webhookUrl: getWebhookUrl(),
+    secret: getFakeWebhookSecret(),
+    delayScale: getDelayScale(),
+    isCancelled: () => call.cancelled
+  });
+
+  console.log("🎭 Fake call started:", {
+    lookupId: params.lookupId,
+    conversationId,
+    scenario: scenario.id,
+    phoneNumber: params.phoneNumber
+  });
+
+  return {
+    conversationId,
+    callSid: `mock_call_${Date.now()}`,
+    message: `Fake call scheduled (scenario: ${scenario.id})`
+  };
+}
+
+async function cancelCall({ conversationId }: CallReference) {
+  const call = conversationId ? fakeCalls.get(conversationId) : undefined;
+  if (!call || call.cancelled) {
+    return false;
+  }
+
+  call.cancelled = true;
+  return true;
+}
+
+async function fetchConversation(conversationId: string) {
+  return fakeCalls.get(conversationId)?.postCallPayload ?? null;
+}
+
+function parseWebhook({ rawBody, headers }: IncomingWebhook): ParsedWebhook {
+  const signature = headers.get("fake-signature");
+  if (!verifyWebhookSignature(rawBody, signature, { secrets: getFakeWebhookSecrets(), scope: "fake" }).ok) {
+    return { ok: false, status: 401, error: "Unauthorized" };
+  }
+
+  try {
+    const parsed: unknown = rawBody ? JSON.parse(rawBody) : {};
+    if (typeof parsed !== "object" || parsed === null) {
+      return { ok: true, payload: {}, signature };
+    }
+    return { ok: true, payload: parsed as CallWebhookPayload, signature };
+  } catch {
+    return { ok: false, status: 400, error: "Invalid JSON" };
+  }
+}
+
+/**
+ * In-process provider for development: no real call is placed, but the webhook route
+ * receives the signed events of a scripted scenario (see lib/calls/fake/engine.ts).
+ */
+export const fakeCallProvider: CallProvider = {
+  id: "fake",
+  startCall,
+  cancelCall,
+  fetchConversation,
+  parseWebhook
+};
@@ -0,0 +1,52 @@
+export type CallProviderId = "elevenlabs" | "fake";
+
+export interface StartCallParams {
+  lookupId: string;
+  /** E.164 number to dial. */
+  phoneNumber: string;
+  /** Passed to the voice agent and echoed back in webhooks (lookupId, attemptNumber, ...). */
+  metadata: Record<string, unknown>;
+}
+
+export interface StartedCall {
+  conversationId: string | null;
+  callSid: string | null;
+  message: string | null;
+}
+
+export interface CallReference {
+  conversationId: string | null;
+  callSid?: string | null;
+}
+
+/**
+ * Webhook payload in the shape the webhook pipeline consumes: the ElevenLabs conversation
+ * format (`type`, `data.conversation_id`, `data.transcript`, `data.analysis`, ...).
+ * Other providers translate their own events into this shape in `parseWebhook`.
+ */
+export type CallWebhookPayload = Record<string, unknown>;
+
+export type ParsedWebhook =
+  /** `signature` is the verified signature header, kept in the webhook event log. */
+  | { ok: true; payload: CallWebhookPayload; signature: string | null }
+  | { ok: false; status: 400 | 401; error: string };
+
+export interface IncomingWebhook {
+  rawBody: string;
+  headers: Headers;
+}
+
+/**
+ * A telephony/voice-agent backend that places the identification calls.
+ * `startCall` should throw when the provider refuses the call so callers can schedule a retry.
+ */
+export interface CallProvider {
+  id: CallProviderId;
+  startCall(params: StartCallParams): Promise<StartedCall>;
+  /** Hang up a running call. Returns false when the provider cannot cancel it. */
+  cancelCall(call: CallReference): Promise<boolean>;
+  /** Fetch the finished conversation as a webhook payload, e.g. to recover a missed webhook. */
+  fetchConversation(conversationId: string): Promise<CallWebhookPayload | null>;
+  /** Verify and decode an incoming webhook delivery. */
+  parseWebhook(request: IncomingWebhook): ParsedWebhook;
+}
@@ -0,0 +1,16 @@
+import type { NextRequest } from "next/server";
+
+import { isBearerAuthorized } from "@/lib/bearer-auth";
+
+/**
+ * Cron routes are protected with `Authorization: Bearer <CRON_SECRET>` (the header Vercel Cron sends).
+ * Without a configured secret they are only reachable in development.
+ */
+export function isCronRequest(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return process.env.NODE_ENV !== "production";
+  }
+
+  return isBearerAuthorized(request, secret);
+}
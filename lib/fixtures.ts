@@ -0,0 +1,63 @@
+/**
+ * Shared runner for the fixture suites: each fixture is an input with the fields it must produce.
+ * `npm run test:fixtures` (scripts/run-fixtures.ts) runs every suite listed there.
+ */
+
+export interface Fixture {
+  id: string;
+  description: string;
+  /** Only the fields listed are compared; `null` means "must be empty". Lists must match in order. */
+  expected: object;
+}
+
+export interface FixtureSuite<F extends Fixture> {
+  name: string;
+  fixtures: F[];
+  /** What the code under test makes of the fixture. */
+  evaluate(fixture: F): Record<string, unknown> | Promise<Record<string, unknown>>;
+  /** Fields every fixture of the suite must produce, next to its own `expected`. */
+  alwaysExpected?: Record<string, unknown>;
+}
+
+export interface FixtureMismatch {
+  field: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface FixtureResult {
+  suite: string;
+  id: string;
+  description: string;
+  passed: boolean;
+  mismatches: FixtureMismatch[];
+  actual: Record<string, unknown>;
+}
+
+export async function runFixtureSuite<F extends Fixture>(suite: FixtureSuite<F>): Promise<FixtureResult[]> {
+  const results: FixtureResult[] = [];
+  for (const fixture of suite.fixtures) {
+    let actual: Record<string, unknown>;
+    try {
+      actual = await suite.evaluate(fixture);
+    } catch (error) {
+      actual = { error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const expected: Record<string, unknown> = { ...fixture.expected, ...suite.alwaysExpected };
+    const mismatches = Object.entries(expected)
+      .filter(([field, value]) => JSON.stringify(actual[field]) !== JSON.stringify(value))
+      .map(([field, value]) => ({ field, expected: value, actual: actual[field] }));
+
+    results.push({
+      suite: suite.name,
+      id: fixture.id,
+      description: fixture.description,
+      passed: mismatches.length === 0,
+      mismatches,
+      actual
+    });
+  }
+
+  return results;
+}
@@ -1,5 +1,8 @@
 import { z } from "zod";
 
+import { phoneNumberSchema } from "@/lib/phone";
+import { isReportReason } from "@/lib/reports";
+
 export const emailSignupSchema = z
   .object({
     email: z
@@ -27,3 +30,66 @@ export function validateEmailSignup(email: string) {
   return { success: true, data: result.data } as const;
 }
 
+
+export const removalRequestSchema = z
+  .object({
+    phoneNumber: phoneNumberSchema,
+    method: z.enum(["sms", "voice", "email"], { message: "Kies hoe je je wilt verifiëren." }),
+    email: z
+      .string()
+      .trim()
+      .max(160, "E-mailadres is te lang.")
+      .email("Voer een geldig e-mailadres in.")
+      .transform((value) => value.toLowerCase())
+      .optional()
+      .or(z.literal("").transform(() => undefined)),
+    reason: z.string().trim().max(500, "Toelichting is te lang.").optional()
+  })
+  .refine((value) => value.method !== "email" || Boolean(value.email), {
+    message: "Vul je e-mailadres in om via e-mail te verifiëren.",
+    path: ["email"]
+  });
+
+export type RemovalRequestInput = z.infer<typeof removalRequestSchema>;
+
+export function validateRemovalRequest(input: {
+  phoneNumber: string;
+  method: string;
+  email?: string;
+  reason?: string;
+}) {
+  const result = removalRequestSchema.safeParse(input);
+  if (!result.success) {
+    return {
+      success: false,
+      message: result.error.issues[0]?.message ?? "Controleer je gegevens en probeer het opnieuw."
+    } as const;
+  }
+
+  return { success: true, data: result.data } as const;
+}
+
+export const removalConfirmationSchema = z.object({
+  requestId: z.string().uuid("Ongeldig verzoek."),
+  code: z
+    .string()
+    .trim()
+    .regex(/^\d{6}$/, "Voer de 6-cijferige code in.")
+});
+
+export const profileReportSchema = z
+  .object({
+    phoneNumber: phoneNumberSchema,
+    vote: z.enum(["confirm", "dispute"], { message: "Kies of de gegevens kloppen." }),
+    reason: z.string().trim().min(1, "Kies een reden."),
+    note: z
+      .string()
+      .trim()
+      .max(280, "Toelichting is te lang.")
+      .optional()
+      .or(z.literal("").transform(() => undefined))
+  })
+  .refine((value) => isReportReason(value.vote, value.reason), {
+    message: "Kies een geldige reden.",
+    path: ["reason"]
+  });
@@ -0,0 +1,151 @@
+import { toPlainObject } from "@/lib/calls/elevenlabs-event";
+import { cleanCallerName } from "@/lib/identification/heuristics";
+
+type PlainObject = Record<string, unknown>;
+
+const IS_DEV = process.env.NODE_ENV !== "production";
+
+/**
+ * What the agent collected during the call: whether the callee agreed to be listed,
+ * the name they gave and whether that name belongs to an organisation.
+ */
+export interface AgentOutput {
+  consent: boolean;
+  name: string | null;
+  organisation?: boolean;
+}
+
+// Objects that older agent configurations used for their output, checked in this order
+const OUTPUT_LOCATIONS: Array<[source: "conversation" | "payload" | "metadata" | "analysis", key: string]> = [
+  ["conversation", "output"],
+  ["conversation", "result"],
+  ["conversation", "call_result"],
+  ["conversation", "call_output"],
+  ["conversation", "agent_output"],
+  ["conversation", "agent_result"],
+  ["payload", "output"],
+  ["payload", "result"],
+  ["payload", "call_result"],
+  ["payload", "call_output"],
+  ["payload", "agent_output"],
+  ["payload", "agent_result"],
+  ["metadata", "output"],
+  ["metadata", "result"],
+  ["metadata", "agent_output"],
+  ["metadata", "agent_result"],
+  ["analysis", "output"],
+  ["analysis", "result"],
+  ["analysis", "agent_output"],
+  ["analysis", "agent_result"],
+  ["analysis", "data_collection"],
+  ["conversation", "data_collection"]
+];
+
+function convertToBoolean(value: unknown): boolean | null {
+  if (typeof value === "boolean") {
+    return value;
+  }
+  if (typeof value === "string") {
+    const lower = value.toLowerCase().trim();
+    if (lower === "true") return true;
+    if (lower === "false") return false;
+  }
+  return null;
+}
+
+function toAgentOutput(consentRaw: unknown, name: unknown, organisationRaw: unknown): AgentOutput | null {
+  const consent = convertToBoolean(consentRaw);
+  if (consent === null) {
+    return null;
+  }
+
+  if (typeof name !== "string" && name !== null) {
+    return null;
+  }
+
+  const organisation = organisationRaw === undefined || organisationRaw === null ? null : convertToBoolean(organisationRaw);
+
+  return {
+    consent,
+    name: typeof name === "string" ? cleanCallerName(name) : null,
+    organisation: organisation ?? undefined
+  };
+}
+
+/**
+ * ElevenLabs data collection: `data_collection_results.{name,consent,organisation}.value`.
+ */
+function readDataCollectionResults(source: PlainObject): AgentOutput | null {
+  const results = toPlainObject(source.data_collection_results);
+  const nameItem = toPlainObject(results.name);
+  const consentItem = toPlainObject(results.consent);
+  const organisationItem = toPlainObject(results.organisation);
+
+  if (nameItem.value === undefined || consentItem.value === undefined) {
+    return null;
+  }
+
+  return toAgentOutput(consentItem.value, nameItem.value, organisationItem.value);
+}
+
+/**
+ * Find the agent output in a post-call payload. Data collection results win; older agents
+ * returned `{ consent, name, organisation }` objects in various places, which are checked next.
+ */
+export function extractAgentOutput({
+  payload,
+  data,
+  conversation,
+  metadata,
+  analysis
+}: {
+  payload: PlainObject;
+  data: PlainObject;
+  conversation: PlainObject;
+  metadata: PlainObject;
+  analysis: PlainObject;
+}): AgentOutput | null {
+  const fromDataCollection =
+    readDataCollectionResults(analysis) ??
+    (analysis.consent !== undefined || analysis.name !== undefined
+      ? toAgentOutput(analysis.consent, analysis.name, analysis.organisation)
+      : null) ??
+    readDataCollectionResults(conversation) ??
+    readDataCollectionResults(payload) ??
+    readDataCollectionResults(data);
+
+  if (fromDataCollection) {
+    if (IS_DEV) {
+      console.log("✅ ElevenLabs data collection results found:", fromDataCollection);
+    }
+    return fromDataCollection;
+  }
+
+  const sources = { conversation, payload, metadata, analysis };
+  for (const [source, key] of OUTPUT_LOCATIONS) {
+    const candidate = sources[source][key];
+    if (typeof candidate !== "object" || candidate === null) continue;
+
+    const output = toPlainObject(candidate);
+    const result = toAgentOutput(output.consent, output.name, output.organisation);
+    if (result) {
+      if (IS_DEV) {
+        console.log("✅ ElevenLabs agent output found:", { source: `${source}.${key}`, result });
+      }
+      return result;
+    }
+
+    if (IS_DEV && (output.consent !== undefined || output.name !== undefined)) {
+      console.log("⚠️ Agent output candidate has an invalid format:", { source: `${source}.${key}`, output });
+    }
+  }
+
+  if (IS_DEV) {
+    console.log("❌ ElevenLabs agent output not found", {
+      analysisKeys: Object.keys(analysis).slice(0, 30),
+      dataCollectionResultsKeys: Object.keys(toPlainObject(analysis.data_collection_results))
+    });
+  }
+
+  return null;
+}
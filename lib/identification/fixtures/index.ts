@@ -0,0 +1,154 @@
+/**
+ * Real-world webhook payload variants with the identification they must produce, one JSON file per
+ * fixture in this directory. Run them with `npm run test:fixtures` after changing the parser or the
+ * name heuristics.
+ */
+import analysisEntities from "@/lib/identification/fixtures/analysis-entities.json";
+import consentDenied from "@/lib/identification/fixtures/consent-denied.json";
+import dataCollectionBusiness from "@/lib/identification/fixtures/data-collection-business.json";
+import dataCollectionPerson from "@/lib/identification/fixtures/data-collection-person.json";
+import initiationFailure from "@/lib/identification/fixtures/initiation-failure.json";
+import initiation from "@/lib/identification/fixtures/initiation.json";
+import legacyAgentOutput from "@/lib/identification/fixtures/legacy-agent-output.json";
+import repeatedCallNewName from "@/lib/identification/fixtures/repeated-call-new-name.json";
+import repeatedCallSameName from "@/lib/identification/fixtures/repeated-call-same-name.json";
+import transcriptOnly from "@/lib/identification/fixtures/transcript-only.json";
+import voicemailConfirmedProfile from "@/lib/identification/fixtures/voicemail-confirmed-profile.json";
+import voicemailOwner from "@/lib/identification/fixtures/voicemail-owner.json";
+import { parseElevenLabsEvent, type ElevenLabsEventKind } from "@/lib/calls/elevenlabs-event";
+import { buildProfileUpdate } from "@/lib/calls/profile-update";
+import type { LookupStatus } from "@/lib/call-state";
+import type { FixtureSuite } from "@/lib/fixtures";
+import type { DataSource, PhoneProfileRecord, ProfileCallOutcome } from "@/lib/supabase/types";
+import { detectVoicemail } from "@/lib/voicemail";
+
+const FIXTURE_NUMBER = "+31600000000";
+
+/** Only the fields listed are compared; `null` means "must be empty". Lists must match in order. */
+export interface FixtureExpectation {
+  kind: ElevenLabsEventKind;
+  lookupStatus?: LookupStatus | null;
+  lookupId?: string | null;
+  normalizedNumber?: string | null;
+  failureReason?: string | null;
+  isVoicemail?: boolean;
+  callerName?: string;
+  entityTag?: string | null;
+  nameSource?: DataSource | null;
+  entityTypeSource?: DataSource | null;
+  callOutcome?: ProfileCallOutcome;
+  summary?: string | null;
+  aka?: string[];
+  tags?: string[];
+}
+
+export interface IdentificationFixture {
+  id: string;
+  description: string;
+  payload: Record<string, unknown>;
+  /** Profile stored for the number before this call. */
+  existingProfile?: Partial<PhoneProfileRecord>;
+  expected: FixtureExpectation;
+}
+
+const FIXTURES = [
+  dataCollectionPerson,
+  dataCollectionBusiness,
+  consentDenied,
+  transcriptOnly,
+  analysisEntities,
+  legacyAgentOutput,
+  voicemailOwner,
+  voicemailConfirmedProfile,
+  repeatedCallNewName,
+  repeatedCallSameName,
+  initiation,
+  initiationFailure
+] as IdentificationFixture[];
+
+function toProfileRecord(profile: Partial<PhoneProfileRecord>): PhoneProfileRecord {
+  const now = new Date().toISOString();
+  return {
+    id: "fixture-profile",
+    normalized: FIXTURE_NUMBER,
+    caller_name: "Onbekende beller",
+    aka: null,
+    summary: null,
+    transcript_preview: null,
+    last_checked: null,
+    confidence: null,
+    call_confidence: null,
+    call_outcome: "pending",
+    tags: null,
+    reports_confirmed: null,
+    reports_disputed: null,
+    name_source: null,
+    entity_type_source: null,
+    elevenlabs_raw_response: null,
+    number_type: null,
+    region_code: null,
+    geo_area: null,
+    time_zone: null,
+    hidden_at: null,
+    created_at: now,
+    updated_at: now,
+    ...profile
+  };
+}
+
+/**
+ * What the webhook pipeline makes of a fixture payload, without touching the database.
+ */
+function evaluateFixture(fixture: IdentificationFixture): Record<string, unknown> {
+  const parsed = parseElevenLabsEvent(fixture.payload);
+  if (!parsed.ok) {
+    return { error: parsed.error };
+  }
+
+  const { event } = parsed;
+  const actual: Record<string, unknown> = {
+    kind: event.kind,
+    lookupStatus: event.lookupStatus ?? null,
+    lookupId: event.lookupId,
+    normalizedNumber: event.normalizedNumber,
+    failureReason: event.failureReason
+  };
+
+  if (event.kind !== "post_call") {
+    return actual;
+  }
+
+  const voicemail = detectVoicemail({
+    messages: event.transcriptMessages,
+    transcript: event.transcript,
+    summary: event.summary,
+    analysis: event.analysis,
+    durationSeconds: event.durationSeconds,
+    terminationReason: event.terminationReason
+  });
+  const profile = buildProfileUpdate({
+    event,
+    voicemail,
+    existingProfile: fixture.existingProfile ? toProfileRecord(fixture.existingProfile) : null,
+    normalizedNumber: event.normalizedNumber ?? FIXTURE_NUMBER
+  });
+
+  return {
+    ...actual,
+    isVoicemail: voicemail.isVoicemail,
+    callerName: profile.callerName,
+    entityTag: profile.tags?.find((tag) => tag === "Bedrijf" || tag === "Particulier") ?? null,
+    nameSource: profile.nameSource ?? null,
+    entityTypeSource: profile.entityTypeSource ?? null,
+    callOutcome: profile.callOutcome,
+    summary: profile.summary ?? null,
+    aka: profile.aka,
+    tags: profile.tags
+  };
+}
+
+export const identificationFixtures: FixtureSuite<IdentificationFixture> = {
+  name: "identification",
+  fixtures: FIXTURES,
+  evaluate: evaluateFixture
+};
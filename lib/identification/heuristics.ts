@@ -0,0 +1,337 @@
+import { toPlainObject, type TranscriptMessage } from "@/lib/calls/elevenlabs-event";
+
+type PlainObject = Record<string, unknown>;
+
+export const UNKNOWN_CALLER_NAME = "Onbekende beller";
+
+const BUSINESS_KEYWORDS = [
+  "bedrijf",
+  "b.v",
+  "bv",
+  "holding",
+  "studio",
+  "agency",
+  "bureau",
+  "shop",
+  "winkel",
+  "restaurant",
+  "clinic",
+  "solutions",
+  "consultancy",
+  "services",
+  "bv.",
+  "llc",
+  "inc",
+  "gmbh",
+  "groep",
+  "group",
+  "co.",
+  "company"
+];
+
+export const BUSINESS_ENTITY_TYPES = new Set([
+  "business",
+  "company",
+  "organization",
+  "organisation",
+  "business_name",
+  "company_name",
+  "org",
+  "business_entity",
+  "corporate"
+]);
+
+export const PERSON_ENTITY_TYPES = new Set([
+  "person",
+  "individual",
+  "human",
+  "person_name",
+  "caller_name",
+  "contact_name"
+]);
+
+export const GENERIC_CALLER_LABELS = new Set(
+  [
+    "onbekende beller",
+    "unknown caller",
+    "unknown",
+    "n.v.t",
+    "nvt",
+    "n/a",
+    "not available",
+    "niet beschikbaar",
+    "niet bekend",
+    "geen naam",
+    "unknown person",
+    "unknown name",
+    "business",
+    "company",
+    "organization",
+    "organisation",
+    "bedrijf",
+    "bedrijfsnaam",
+    "company name",
+    "anonymous",
+    "anoniem",
+    "private caller",
+    "private number"
+  ].map((label) => label.toLowerCase())
+);
+
+const ALLOWED_CALLER_ROLES = new Set([
+  "user",
+  "customer",
+  "caller",
+  "callee",
+  "lead",
+  "contact",
+  "prospect",
+  "human"
+]);
+
+const TRANSCRIPT_NAME_PATTERNS = [
+  /\b(?:met|u spreekt met|je spreekt met|ik ben|dit is|hier is|spreek je met|je praat met)\s+([A-Z][\p{L}'`\- ]{1,80})/giu,
+  /\b(?:mijn naam is|my name is|this is)\s+([A-Z][\p{L}'`\- ]{1,80})/giu
+];
+
+export const SUMMARY_PERSON_PATTERNS = [
+  /\b(?:de\s+|het\s+|the\s+)?(?:user|caller|contact|persoon|klant|gebruiker)\b[,:\s]+(?:met\s+naam\s+|named\s+|called\s+|genaamd\s+)?([A-Z][\p{L}'`\- ]{1,80})/giu
+];
+
+export const SUMMARY_BUSINESS_PATTERNS = [
+  /\b(?:company|organisation|organization|business|bedrijf|onderneming|firma|studio|winkel|restaurant|praktijk|bv\.?|b\.v\.|holding|groep|group|agency)\s+(?:genaamd\s+|called\s+|named\s+|heet\s+|heette\s+)?([A-Z][\p{L}'`\-0-9 &]{1,120})/giu,
+  /\b(?:van|from)\s+([A-Z][\p{L}'`\-0-9 &]{1,120})\s+(?:bedrijf|company|organisation|organization)\b/giu
+];
+
+export function containsBusinessKeyword(value: string): boolean {
+  const lower = value.toLowerCase();
+  return BUSINESS_KEYWORDS.some((keyword) => lower.includes(keyword));
+}
+
+export function cleanCallerName(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const normalized = value.replace(/\s+/g, " ").replace(/^[\W_]+|[\W_]+$/g, "").trim();
+  if (normalized.length < 2) {
+    return null;
+  }
+  return normalized;
+}
+
+export function addCandidateToSet(
+  collection: Set<string>,
+  value: unknown,
+  { allowDigits = true }: { allowDigits?: boolean } = {}
+) {
+  const cleaned = cleanCallerName(value);
+  if (!cleaned) return;
+  if (!allowDigits && /\d/.test(cleaned)) return;
+  const lower = cleaned.toLowerCase();
+  if (GENERIC_CALLER_LABELS.has(lower)) return;
+  // "de voicemail van …" matches the case-insensitive transcript patterns; the owner name is extracted separately
+  if (lower.includes("voicemail")) return;
+  collection.add(cleaned);
+}
+
+export function addTextMatchesToSet(
+  text: string | null | undefined,
+  patterns: RegExp[],
+  collection: Set<string>,
+  options?: { allowDigits?: boolean }
+) {
+  if (!text) return;
+  for (const pattern of patterns) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      const candidate = match[1];
+      if (!candidate) continue;
+      addCandidateToSet(collection, candidate, options);
+    }
+  }
+}
+
+export function collectPersonNamesFromTranscript(messages: TranscriptMessage[]): string[] {
+  const candidates = new Set<string>();
+
+  for (const entry of messages) {
+    const role = entry.role?.toLowerCase();
+    if (role && !ALLOWED_CALLER_ROLES.has(role)) {
+      continue;
+    }
+
+    const cleanedLine = entry.message.replace(/[.!?]+$/u, "").trim();
+    if (!cleanedLine) continue;
+
+    addTextMatchesToSet(cleanedLine, TRANSCRIPT_NAME_PATTERNS, candidates, { allowDigits: false });
+  }
+
+  return Array.from(candidates);
+}
+
+/**
+ * `analysis.entities` as a list; providers send it either as an array or as an object keyed by label.
+ */
+export function listAnalysisEntities(analysis: PlainObject): PlainObject[] {
+  const entitiesRaw = analysis.entities;
+  if (Array.isArray(entitiesRaw)) {
+    return entitiesRaw.map(toPlainObject);
+  }
+  if (typeof entitiesRaw === "object" && entitiesRaw !== null) {
+    return Object.values(entitiesRaw).map(toPlainObject);
+  }
+  return [];
+}
+
+export function getEntityValue(entity: PlainObject): string | null {
+  return typeof entity.value === "string"
+    ? entity.value
+    : typeof entity.name === "string"
+    ? entity.name
+    : typeof entity.text === "string"
+    ? entity.text
+    : null;
+}
+
+function extractNameFromEntities(analysis: PlainObject): string | null {
+  for (const entity of listAnalysisEntities(analysis)) {
+    const type = typeof entity.type === "string" ? entity.type.toLowerCase() : "";
+    const value = cleanCallerName(getEntityValue(entity));
+
+    if (!value) continue;
+
+    if (PERSON_ENTITY_TYPES.has(type) || BUSINESS_ENTITY_TYPES.has(type) || !type) {
+      return value;
+    }
+  }
+
+  return null;
+}
+
+export function deriveCallerNameFromTranscript(transcript: TranscriptMessage[], analysis: PlainObject): string | null {
+  return extractNameFromEntities(analysis) ?? collectPersonNamesFromTranscript(transcript)[0] ?? null;
+}
+
+function toEntityTag(value: string, businessTokens: string[], personTokens: string[]) {
+  if (businessTokens.includes(value)) return "Bedrijf";
+  if (personTokens.includes(value)) return "Particulier";
+  return null;
+}
+
+function deriveMetadataTag(metadata: PlainObject): string | null {
+  const directTag =
+    typeof metadata.entityTag === "string"
+      ? metadata.entityTag
+      : typeof metadata.entity_tag === "string"
+      ? metadata.entity_tag
+      : typeof metadata.tag === "string"
+      ? metadata.tag
+      : null;
+  if (directTag) {
+    const normalized = directTag.trim().toLowerCase();
+    return (
+      toEntityTag(
+        normalized,
+        ["business", "company", "organisation", "organization", "corporate"],
+        ["person", "individual", "human", "persoon", "particulier"]
+      ) ?? directTag
+    );
+  }
+
+  const entityType =
+    typeof metadata.entityType === "string"
+      ? metadata.entityType
+      : typeof metadata.entity_type === "string"
+      ? metadata.entity_type
+      : typeof metadata.callerType === "string"
+      ? metadata.callerType
+      : typeof metadata.caller_type === "string"
+      ? metadata.caller_type
+      : null;
+
+  if (!entityType) return null;
+
+  const normalized = entityType.toLowerCase();
+  if (
+    ["business", "company", "enterprise", "organisation", "organization", "corporate"].some((token) =>
+      normalized.includes(token)
+    )
+  ) {
+    return "Bedrijf";
+  }
+
+  if (["person", "individual", "human"].some((token) => normalized.includes(token))) {
+    return "Particulier";
+  }
+
+  return null;
+}
+
+/**
+ * "Bedrijf" or "Particulier" from, in order: an explicit tag or entity type in the call metadata,
+ * typed analysis entities, the analysis classification, and business keywords in the summary and name.
+ */
+export function deriveEntityTag({
+  summary,
+  callerName,
+  metadata,
+  analysis
+}: {
+  summary?: string | null;
+  callerName?: string | null;
+  metadata: PlainObject;
+  analysis: PlainObject;
+}): string | null {
+  const metadataTag = deriveMetadataTag(metadata);
+  if (metadataTag) {
+    return metadataTag;
+  }
+
+  for (const entity of listAnalysisEntities(analysis)) {
+    const type = typeof entity.type === "string" ? entity.type.toLowerCase() : "";
+
+    if (BUSINESS_ENTITY_TYPES.has(type)) {
+      return "Bedrijf";
+    }
+
+    if (PERSON_ENTITY_TYPES.has(type)) {
+      return "Particulier";
+    }
+  }
+
+  const classification = toPlainObject(analysis.classification);
+  const category =
+    typeof classification.category === "string"
+      ? classification.category.toLowerCase()
+      : typeof classification.type === "string"
+      ? classification.type.toLowerCase()
+      : null;
+  if (category) {
+    const classificationTag = toEntityTag(
+      category,
+      ["business", "company", "organisation", "organization"],
+      ["person", "individual", "human"]
+    );
+    if (classificationTag) {
+      return classificationTag;
+    }
+  }
+
+  const businessName =
+    typeof metadata.businessName === "string"
+      ? metadata.businessName
+      : typeof metadata.companyName === "string"
+      ? metadata.companyName
+      : null;
+  const combined = [summary, callerName, businessName].filter(Boolean).join(" ");
+  if (combined && containsBusinessKeyword(combined)) {
+    return "Bedrijf";
+  }
+
+  if (callerName && callerName !== UNKNOWN_CALLER_NAME) {
+    return "Particulier";
+  }
+
+  return null;
+}
@@ -0,0 +1,277 @@
+import { pickString, toPlainObject, type ElevenLabsPostCallEvent } from "@/lib/calls/elevenlabs-event";
+import { extractAgentOutput } from "@/lib/identification/agent-output";
+import {
+  BUSINESS_ENTITY_TYPES,
+  PERSON_ENTITY_TYPES,
+  SUMMARY_BUSINESS_PATTERNS,
+  SUMMARY_PERSON_PATTERNS,
+  UNKNOWN_CALLER_NAME,
+  addCandidateToSet,
+  addTextMatchesToSet,
+  cleanCallerName,
+  collectPersonNamesFromTranscript,
+  containsBusinessKeyword,
+  deriveCallerNameFromTranscript,
+  deriveEntityTag,
+  getEntityValue,
+  listAnalysisEntities
+} from "@/lib/identification/heuristics";
+import type { DataSource, PhoneProfileRecord } from "@/lib/supabase/types";
+
+export { extractAgentOutput, type AgentOutput } from "@/lib/identification/agent-output";
+export { GENERIC_CALLER_LABELS, UNKNOWN_CALLER_NAME, cleanCallerName } from "@/lib/identification/heuristics";
+
+type PlainObject = Record<string, unknown>;
+
+const IS_DEV = process.env.NODE_ENV !== "production";
+
+export interface CallerIdentification {
+  callerName: string;
+  /** "Bedrijf", "Particulier" or a tag set explicitly in the call metadata */
+  entityTag: string | null;
+  nameSource: DataSource | null;
+  entityTypeSource: DataSource | null;
+  /** Every person name found, used for aliases */
+  persons: string[];
+  /** Every business name found, used for aliases */
+  businesses: string[];
+}
+
+interface IdentifyCallerOptions {
+  existingProfile?: Pick<PhoneProfileRecord, "caller_name" | "tags" | "aka"> | null;
+  /** Name from a voicemail greeting; only used when the agent did not collect a name. */
+  voicemailOwnerName?: string | null;
+}
+
+type EntityKind = "person" | "business";
+
+function isBusinessProfile(profile: IdentifyCallerOptions["existingProfile"]) {
+  return Boolean(profile?.tags?.some((tag) => typeof tag === "string" && tag.toLowerCase().includes("bedrijf")));
+}
+
+function addValues(source: PlainObject, keys: string[], handler: (value: unknown) => void) {
+  for (const key of keys) {
+    const raw = source[key];
+    if (raw !== undefined && raw !== null) {
+      handler(raw);
+    }
+  }
+}
+
+/**
+ * Collect person and business name candidates from everything a post-call payload carries:
+ * metadata and contact fields, analysis entities, summaries, the transcript and the existing profile.
+ */
+function collectCandidates(event: ElevenLabsPostCallEvent, existingProfile: IdentifyCallerOptions["existingProfile"]) {
+  const { payload, data, conversation, metadata } = event.sources;
+  const { analysis, transcriptMessages } = event;
+
+  const persons = new Set<string>();
+  const businesses = new Set<string>();
+  const addPerson = (value: unknown) => addCandidateToSet(persons, value, { allowDigits: false });
+  const addBusiness = (value: unknown) => addCandidateToSet(businesses, value);
+  const addByKeyword = (value: string) => (containsBusinessKeyword(value) ? addBusiness(value) : addPerson(value));
+
+  const contact = toPlainObject(conversation.contact);
+  const customer = toPlainObject(conversation.customer);
+  const dataContact = toPlainObject(data.contact);
+
+  addPerson(pickString(metadata.callerName, metadata.caller_name, metadata.name));
+  addPerson(pickString(contact.name, conversation.caller_name));
+  addPerson(deriveCallerNameFromTranscript(transcriptMessages, analysis));
+  collectPersonNamesFromTranscript(transcriptMessages).forEach(addPerson);
+
+  const personNameKeys = ["name", "full_name", "contact_name", "display_name"];
+  addValues(
+    metadata,
+    ["callerName", "caller_name", "name", "personName", "person_name", "contactName", "contact_name", "full_name", "display_name"],
+    addPerson
+  );
+  addValues(toPlainObject(metadata.contact), personNameKeys, addPerson);
+  addValues(contact, personNameKeys, addPerson);
+  addValues(customer, personNameKeys, addPerson);
+  addValues(data, ["callerName", "caller_name", "personName", "person_name"], addPerson);
+  addValues(dataContact, personNameKeys, addPerson);
+  addValues(analysis, ["callerName", "caller_name", "personName", "person_name"], addPerson);
+
+  const companyKeys = ["company", "company_name", "business", "business_name", "organisation", "organization"];
+  addValues(
+    metadata,
+    ["businessName", "business_name", "companyName", "company_name", "organization", "organisation", "company", "business", "entityName", "entity_name"],
+    addBusiness
+  );
+  addValues(
+    toPlainObject(metadata.company),
+    ["name", "businessName", "business_name", "companyName", "company_name", "organization", "organisation"],
+    addBusiness
+  );
+  addValues(toPlainObject(metadata.business), ["name", "company", "company_name", "brand", "brand_name"], addBusiness);
+  addValues(contact, companyKeys, addBusiness);
+  addValues(customer, companyKeys, addBusiness);
+  addValues(data, ["businessName", "business_name", "companyName", "company_name", "organization", "organisation"], addBusiness);
+  addValues(toPlainObject(data.company), ["name", "businessName", "business_name", "companyName", "company_name"], addBusiness);
+  addValues(analysis, ["businessName", "business_name", "companyName", "company_name", "organization", "organisation"], addBusiness);
+
+  for (const entity of listAnalysisEntities(analysis)) {
+    const value = cleanCallerName(getEntityValue(entity));
+    if (!value) continue;
+
+    const typeTokens = [entity.type, entity.category, entity.label, entity.entity_type, entity.kind]
+      .filter((token): token is string => typeof token === "string" && token.length > 0)
+      .map((token) => token.toLowerCase());
+
+    if (typeTokens.some((token) => BUSINESS_ENTITY_TYPES.has(token))) {
+      addBusiness(value);
+    } else if (typeTokens.some((token) => PERSON_ENTITY_TYPES.has(token))) {
+      addPerson(value);
+    } else {
+      addByKeyword(value);
+    }
+  }
+
+  const metadataNotes = toPlainObject(metadata.notes);
+  const summaryTexts = [
+    event.summary,
+    analysis.summary,
+    analysis.transcript_summary,
+    metadata.summary,
+    metadata.notes,
+    payload.summary,
+    payload.description,
+    metadataNotes.text,
+    metadataNotes.summary,
+    toPlainObject(data.notes).text,
+    toPlainObject(conversation.notes).text
+  ].filter((text): text is string => typeof text === "string");
+
+  for (const text of summaryTexts) {
+    addTextMatchesToSet(text, SUMMARY_PERSON_PATTERNS, persons, { allowDigits: false });
+    addTextMatchesToSet(text, SUMMARY_BUSINESS_PATTERNS, businesses);
+  }
+
+  addTextMatchesToSet(event.transcript, SUMMARY_BUSINESS_PATTERNS, businesses);
+
+  if (existingProfile?.caller_name && existingProfile.caller_name !== UNKNOWN_CALLER_NAME) {
+    if (isBusinessProfile(existingProfile)) {
+      addBusiness(existingProfile.caller_name);
+    } else {
+      addPerson(existingProfile.caller_name);
+    }
+  }
+
+  for (const alias of existingProfile?.aka ?? []) {
+    const value = cleanCallerName(alias);
+    if (value) {
+      addByKeyword(value);
+    }
+  }
+
+  return { persons: Array.from(persons), businesses: Array.from(businesses) };
+}
+
+/**
+ * Work out who answered a finished call. The name the agent collected (with consent) wins;
+ * without it the voicemail owner, then the heuristics over the whole payload decide.
+ */
+export function identifyCaller(
+  event: ElevenLabsPostCallEvent,
+  { existingProfile = null, voicemailOwnerName = null }: IdentifyCallerOptions = {}
+): CallerIdentification {
+  const agentOutput = extractAgentOutput({ ...event.sources, analysis: event.analysis });
+
+  let callerName: string | null = null;
+  let entityTag: string | null = null;
+  let persons: string[] = [];
+  let businesses: string[] = [];
+  let nameSource: DataSource | null = null;
+  let entityTypeSource: DataSource | null = null;
+
+  if (agentOutput?.consent && agentOutput.name) {
+    callerName = agentOutput.name;
+    nameSource = "elevenlabs";
+    if (agentOutput.organisation === true) {
+      entityTag = "Bedrijf";
+      entityTypeSource = "elevenlabs";
+      businesses = [agentOutput.name];
+    } else {
+      entityTag = agentOutput.organisation === false ? "Particulier" : null;
+      entityTypeSource = agentOutput.organisation === false ? "elevenlabs" : null;
+      persons = [agentOutput.name];
+    }
+  } else if (agentOutput && !agentOutput.consent) {
+    callerName = UNKNOWN_CALLER_NAME;
+    if (IS_DEV) {
+      console.log("🚫 Consent denied:", agentOutput);
+    }
+  } else if (IS_DEV) {
+    console.log("⚠️ No valid agent output found, falling back to heuristics");
+  }
+
+  // Nobody answered, so there is no consent answer; the name comes from the voicemail greeting instead
+  if (voicemailOwnerName && nameSource !== "elevenlabs") {
+    callerName = voicemailOwnerName;
+    nameSource = "fallback";
+    entityTag = null;
+  }
+
+  if (callerName && entityTag) {
+    return { callerName, entityTag, nameSource, entityTypeSource, persons, businesses };
+  }
+
+  ({ persons, businesses } = collectCandidates(event, existingProfile));
+
+  const tagCandidate = deriveEntityTag({
+    summary: event.summary,
+    callerName: persons[0] ?? businesses[0],
+    metadata: event.sources.metadata,
+    analysis: event.analysis
+  });
+
+  let selected: { name: string; kind: EntityKind } | null =
+    tagCandidate === "Bedrijf" && businesses.length > 0
+      ? { name: businesses[0], kind: "business" }
+      : tagCandidate === "Particulier" && persons.length > 0
+      ? { name: persons[0], kind: "person" }
+      : persons.length > 0
+      ? { name: persons[0], kind: "person" }
+      : businesses.length > 0
+      ? { name: businesses[0], kind: "business" }
+      : null;
+
+  const existingCallerName =
+    existingProfile?.caller_name && existingProfile.caller_name !== UNKNOWN_CALLER_NAME ? existingProfile.caller_name : null;
+  if (!selected && existingCallerName) {
+    selected = { name: existingCallerName, kind: isBusinessProfile(existingProfile) ? "business" : "person" };
+  }
+
+  if (!callerName) {
+    callerName = cleanCallerName(selected?.name) ?? existingCallerName ?? UNKNOWN_CALLER_NAME;
+    nameSource ??= "fallback";
+  }
+
+  let selectedKind: EntityKind | null = selected?.kind ?? null;
+  if (containsBusinessKeyword(callerName)) {
+    selectedKind = "business";
+  } else if (!selectedKind && callerName !== UNKNOWN_CALLER_NAME) {
+    selectedKind = "person";
+  }
+
+  if (!entityTag) {
+    entityTag =
+      selectedKind === "business"
+        ? "Bedrijf"
+        : selectedKind === "person"
+        ? "Particulier"
+        : tagCandidate ??
+          (businesses.length > 0 && persons.length === 0
+            ? "Bedrijf"
+            : persons.length > 0 && businesses.length === 0
+            ? "Particulier"
+            : null);
+    if (entityTag) {
+      entityTypeSource ??= "fallback";
+    }
+  }
+
+  return { callerName, entityTag, nameSource, entityTypeSource, persons, businesses };
+}
@@ -0,0 +1,20 @@
+import { EventEmitter } from "node:events";
+
+// Kept on globalThis so dev hot reloads keep the subscriptions of open streams
+const globalForLookupEvents = globalThis as unknown as { lookupEvents?: EventEmitter };
+const lookupEvents = (globalForLookupEvents.lookupEvents ??= new EventEmitter().setMaxListeners(0));
+
+/**
+ * Tell open status streams for this lookup that its data changed. Only reaches streams on the
+ * same server instance; streams elsewhere notice the change on their next poll.
+ */
+export function publishLookupChange(lookupId: string) {
+  lookupEvents.emit(lookupId);
+}
+
+export function subscribeToLookupChanges(lookupId: string, listener: () => void) {
+  lookupEvents.on(lookupId, listener);
+  return () => {
+    lookupEvents.off(lookupId, listener);
+  };
+}
@@ -0,0 +1,99 @@
+import { getMaxAttempts } from "@/lib/call-retry";
+import type { LookupStatus } from "@/lib/call-state";
+import type { CallAttemptSnapshot, LookupStatusPayload } from "@/lib/lookup-status";
+import type { NumberProfile } from "@/lib/mock-profiles";
+import { fetchProfileByNumber, getLookupWithLatestAttempt, getProfileById } from "@/lib/supabase/lookups";
+import { mapProfileRecord, type CallAttemptRecord } from "@/lib/supabase/types";
+
+/**
+ * The call attempt as the UI sees it. Cached lookups without an attempt (e.g. served from an
+ * existing profile) are shown as a finished call with the profile's summary.
+ */
+export function buildCallAttemptSnapshot(
+  raw: CallAttemptRecord | null,
+  profile: NumberProfile | null,
+  lookupStatus: LookupStatus | null
+): CallAttemptSnapshot | null {
+  const isCached = lookupStatus === "cached";
+
+  if (!raw && !isCached && !profile) {
+    return null;
+  }
+
+  const payloadBase: Record<string, unknown> =
+    raw && raw.payload && typeof raw.payload === "object"
+      ? { ...raw.payload }
+      : {};
+
+  if (isCached && !raw) {
+    // Only add default payload if we don't have actual call attempt data
+    if (!("event" in payloadBase)) {
+      payloadBase.event = "post_call_transcription";
+    }
+    if (!("type" in payloadBase)) {
+      payloadBase.type = "post_call_transcription";
+    }
+  }
+
+  const summaryValue =
+    raw?.summary ??
+    profile?.summary ??
+    profile?.transcriptPreview ??
+    raw?.transcript ??
+    null;
+
+  const transcriptValue = raw?.transcript ?? profile?.transcriptPreview ?? null;
+  const confidenceValue = raw?.confidence ?? profile?.confidence ?? null;
+  const updatedAtValue = raw?.updated_at ?? profile?.lastChecked ?? new Date().toISOString();
+
+  return {
+    status: isCached && !raw ? "completed" : raw?.status ?? null,
+    elevenlabs_status: isCached && !raw ? "post_call_transcription" : raw?.elevenlabs_status ?? null,
+    error_message: raw?.error_message ?? null,
+    summary: summaryValue,
+    transcript: transcriptValue,
+    confidence: confidenceValue ?? null,
+    updated_at: updatedAtValue,
+    payload: Object.keys(payloadBase).length > 0 ? payloadBase : raw?.payload ?? null,
+    attempt_number: raw?.attempt_number ?? null,
+    retry:
+      raw?.status === "retry_scheduled" && raw.retry_reason && raw.scheduled_for
+        ? {
+            reason: raw.retry_reason,
+            attempt_number: raw.attempt_number,
+            max_attempts: getMaxAttempts(raw.retry_reason),
+            scheduled_for: raw.scheduled_for
+          }
+        : null
+  };
+}
+
+/**
+ * Current status of a lookup, or null when it does not exist. The lookup and its latest attempt
+ * come from one query, so `lookup.version` describes exactly what is returned. Profile writes bump
+ * the version too, so it also changes when only the profile did (e.g. after votes).
+ */
+export async function loadLookupStatus(lookupId: string) {
+  const loaded = await getLookupWithLatestAttempt(lookupId);
+  if (!loaded) {
+    return null;
+  }
+
+  const { lookup, attempt } = loaded;
+  const profileRecord = lookup.profile_id ? await getProfileById(lookup.profile_id) : null;
+
+  // The profile can exist before lookup.profile_id is set, so fall back to the number
+  const profile = profileRecord
+    ? mapProfileRecord(profileRecord)
+    : lookup.status === "cached" || lookup.status === "calling"
+    ? await fetchProfileByNumber(lookup.normalized)
+    : null;
+
+  const payload: LookupStatusPayload = {
+    lookup,
+    callAttempt: buildCallAttemptSnapshot(attempt, profile, lookup.status),
+    profile
+  };
+
+  return payload;
+}
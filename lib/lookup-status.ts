@@ -1,7 +1,16 @@
-export type LookupStatusValue = "cached" | "calling" | "not_found" | "failed" | "pending";
+import type { RetryReason } from "@/lib/call-retry";
+import type { CallState, LookupStatus } from "@/lib/call-state";
+import type { NumberProfile } from "@/lib/mock-profiles";
+
+export interface CallRetrySnapshot {
+  reason: RetryReason;
+  attempt_number: number;
+  max_attempts: number;
+  scheduled_for: string;
+}
 
 export interface CallAttemptSnapshot {
-  status?: string | null;
+  status?: CallState | null;
   elevenlabs_status?: string | null;
   error_message?: string | null;
   summary?: string | null;
@@ -9,5 +18,40 @@ export interface CallAttemptSnapshot {
   confidence?: number | null;
   updated_at?: string;
   payload?: Record<string, unknown> | null;
+  attempt_number?: number | null;
+  retry?: CallRetrySnapshot | null;
+}
+
+export interface LookupSummary {
+  id: string;
+  normalized: string;
+  profile_id: string | null;
+  status: LookupStatus | null;
+  /** Bumped by every write to the lookup or its call attempts. */
+  version: number;
+}
+
+/**
+ * Body of `GET /api/lookups/[id]/status` and of every `status` event on `/api/lookups/[id]/events`.
+ */
+export interface LookupStatusPayload {
+  lookup: LookupSummary;
+  callAttempt: CallAttemptSnapshot | null;
+  profile: NumberProfile | null;
+}
+
+/**
+ * Body of `GET /api/lookups/[id]/status?since=<version>` when nothing changed since that version.
+ */
+export interface LookupStatusUnchanged {
+  unchanged: true;
+  version: number;
 }
 
+/**
+ * Events on `GET /api/lookups/[id]/events`: `status` whenever the lookup, its latest call attempt or
+ * its profile changes, then `done` once the lookup reached a final status and the stream closes.
+ */
+export type LookupStreamEvent =
+  | { type: "status"; data: LookupStatusPayload }
+  | { type: "done"; data: { status: LookupStatus } };
@@ -0,0 +1,119 @@
+/**
+ * Numbers with what the number itself must tell about them. Run them with `npm run test:fixtures`
+ * after changing lib/number-intelligence or upgrading libphonenumber.
+ */
+import type { FixtureSuite } from "@/lib/fixtures";
+import { describeNumber, getNumberIntelligence, isCallableNumber, type NumberType } from "@/lib/number-intelligence";
+
+/** Only the fields listed are compared; `null` means "must be empty". */
+interface NumberIntelligenceExpectation {
+  type?: NumberType;
+  regionCode?: string | null;
+  country?: string | null;
+  area?: string | null;
+  timeZone?: string | null;
+  description?: string;
+  callable?: boolean;
+}
+
+interface NumberIntelligenceFixture {
+  id: string;
+  description: string;
+  normalized: string;
+  expected: NumberIntelligenceExpectation;
+}
+
+const FIXTURES: NumberIntelligenceFixture[] = [
+  {
+    id: "nl-landline-amsterdam",
+    description: "Dutch landline gets its place, country and time zone",
+    normalized: "+31201234567",
+    expected: {
+      type: "fixed_line",
+      regionCode: "NL",
+      country: "Nederland",
+      area: "Amsterdam",
+      timeZone: "Europe/Amsterdam",
+      description: "Vast nummer · Amsterdam, Nederland",
+      callable: true
+    }
+  },
+  {
+    id: "nl-landline-small-area",
+    description: "Area codes outside the larger places get their place too",
+    normalized: "+31582123456",
+    expected: { type: "fixed_line", area: "Leeuwarden", timeZone: "Europe/Amsterdam" }
+  },
+  {
+    id: "nl-mobile",
+    description: "Mobile numbers have no area",
+    normalized: "+31612345678",
+    expected: {
+      type: "mobile",
+      regionCode: "NL",
+      area: null,
+      timeZone: "Europe/Amsterdam",
+      description: "Mobiel nummer · Nederland"
+    }
+  },
+  {
+    id: "be-landline",
+    description: "Foreign landline gets its place in Dutch",
+    normalized: "+3222345678",
+    expected: { type: "fixed_line", regionCode: "BE", country: "België", area: "Brussel", timeZone: "Europe/Brussels" }
+  },
+  {
+    id: "us-landline",
+    description: "A number in a country with several time zones gets the zone of its area",
+    normalized: "+12125551234",
+    expected: { type: "fixed_line_or_mobile", regionCode: "US", area: "New York, NY", timeZone: "America/New_York" }
+  },
+  {
+    id: "us-toll-free",
+    description: "A number spanning several time zones gets none",
+    normalized: "+18002345678",
+    expected: { type: "toll_free", regionCode: "US", area: null, timeZone: null }
+  },
+  {
+    id: "es-canary-islands",
+    description: "The Canary Islands get their own time zone, not the one of mainland Spain",
+    normalized: "+34928123456",
+    expected: { type: "fixed_line", regionCode: "ES", area: "Las Palmas", timeZone: "Atlantic/Canary" }
+  },
+  {
+    id: "nl-premium-rate",
+    description: "Premium-rate numbers are never dialed",
+    normalized: "+31900123456",
+    expected: { type: "premium_rate", regionCode: "NL", area: null, callable: false }
+  },
+  {
+    id: "global-service-number",
+    description: "International freephone numbers have no country, area or time zone",
+    normalized: "+80012345678",
+    expected: {
+      type: "toll_free",
+      regionCode: null,
+      country: null,
+      area: null,
+      timeZone: null,
+      description: "Gratis nummer"
+    }
+  },
+  {
+    id: "unparseable",
+    description: "Input libphonenumber cannot parse is of type unknown",
+    normalized: "not a number",
+    expected: { type: "unknown", regionCode: null, area: null, timeZone: null, callable: true }
+  }
+];
+
+async function evaluateFixture(fixture: NumberIntelligenceFixture): Promise<Record<string, unknown>> {
+  const info = await getNumberIntelligence(fixture.normalized);
+  return { ...info, description: describeNumber(info), callable: isCallableNumber(info) };
+}
+
+export const numberIntelligenceFixtures: FixtureSuite<NumberIntelligenceFixture> = {
+  name: "number-intelligence",
+  fixtures: FIXTURES,
+  evaluate: evaluateFixture
+};
@@ -0,0 +1,134 @@
+import { PhoneNumberType, PhoneNumberUtil } from "google-libphonenumber";
+import { geocoder, timezones } from "libphonenumber-geo-carrier";
+import { parsePhoneNumberFromString } from "libphonenumber-js/max";
+
+export type NumberType =
+  | "mobile"
+  | "fixed_line"
+  | "fixed_line_or_mobile"
+  | "voip"
+  | "toll_free"
+  | "premium_rate"
+  | "shared_cost"
+  | "personal_number"
+  | "pager"
+  | "uan"
+  | "voicemail"
+  | "unknown";
+
+/**
+ * What the number itself tells about a caller, derived offline from the libphonenumber metadata and
+ * its geocoding and time zone data (libphonenumber-geo-carrier). The carrier is left out: that data
+ * names the original holder of the range, and with number portability it is often not the current one.
+ */
+export interface NumberIntelligence {
+  type: NumberType;
+  /** ISO 3166 code (`NL`); null for international service numbers. */
+  regionCode: string | null;
+  /** Dutch name of the country. */
+  country: string | null;
+  /** Place or region of a geographic number, in Dutch where the data has it. */
+  area: string | null;
+  /** IANA time zone, when the number maps to a single one. */
+  timeZone: string | null;
+}
+
+export const NUMBER_TYPE_LABELS: Record<NumberType, string> = {
+  mobile: "Mobiel nummer",
+  fixed_line: "Vast nummer",
+  fixed_line_or_mobile: "Vast of mobiel nummer",
+  voip: "Internetnummer (VoIP)",
+  toll_free: "Gratis nummer",
+  premium_rate: "Betaalnummer",
+  shared_cost: "Nummer met gedeelde kosten",
+  personal_number: "Persoonlijk nummer",
+  pager: "Semafoonnummer",
+  uan: "Bedrijfsnummer",
+  voicemail: "Voicemailnummer",
+  unknown: "Onbekend type nummer"
+};
+
+/** Numbers we never dial: premium-rate numbers charge per minute on top of the call itself. */
+export const UNCALLABLE_NUMBER_TYPES: NumberType[] = ["premium_rate"];
+
+const NUMBER_TYPES: Record<PhoneNumberType, NumberType> = {
+  [PhoneNumberType.FIXED_LINE]: "fixed_line",
+  [PhoneNumberType.MOBILE]: "mobile",
+  [PhoneNumberType.FIXED_LINE_OR_MOBILE]: "fixed_line_or_mobile",
+  [PhoneNumberType.TOLL_FREE]: "toll_free",
+  [PhoneNumberType.PREMIUM_RATE]: "premium_rate",
+  [PhoneNumberType.SHARED_COST]: "shared_cost",
+  [PhoneNumberType.VOIP]: "voip",
+  [PhoneNumberType.PERSONAL_NUMBER]: "personal_number",
+  [PhoneNumberType.PAGER]: "pager",
+  [PhoneNumberType.UAN]: "uan",
+  [PhoneNumberType.VOICEMAIL]: "voicemail",
+  [PhoneNumberType.UNKNOWN]: "unknown"
+};
+
+/** Dutch name of a country (`NL` → `Nederland`). */
+export function getCountryName(regionCode: string) {
+  try {
+    return new Intl.DisplayNames(["nl"], { type: "region" }).of(regionCode) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Type and country of a normalised number, from the metadata bundled with libphonenumber. Never
+ * throws; a number libphonenumber cannot parse is of type `unknown`.
+ */
+export function classifyNumber(normalized: string): Pick<NumberIntelligence, "type" | "regionCode" | "country"> {
+  const phoneUtil = PhoneNumberUtil.getInstance();
+
+  let number;
+  try {
+    number = phoneUtil.parse(normalized);
+  } catch {
+    return { type: "unknown", regionCode: null, country: null };
+  }
+
+  const type = NUMBER_TYPES[phoneUtil.getNumberType(number)] ?? "unknown";
+  const region = phoneUtil.getRegionCodeForNumber(number);
+  // "001" for global service numbers (+800, +808, ...), "ZZ" when unknown
+  const regionCode = region && /^[A-Z]{2}$/.test(region) && region !== "ZZ" ? region : null;
+
+  return { type, regionCode, country: regionCode ? getCountryName(regionCode) : null };
+}
+
+/**
+ * Type, country, area and time zone of a normalised number. Area and time zone are read from the
+ * geocoding data on disk, hence async. Never throws.
+ */
+export async function getNumberIntelligence(normalized: string): Promise<NumberIntelligence> {
+  const classified = classifyNumber(normalized);
+  const number = parsePhoneNumberFromString(normalized);
+  if (!number) {
+    return { ...classified, area: null, timeZone: null };
+  }
+
+  const [place, zones] = await Promise.all([
+    geocoder(number, "nl").catch(() => null),
+    timezones(number).catch(() => null)
+  ]);
+  // Numbers without a finer place (mobile ranges in some countries) geocode to the country itself
+  const area = place && place !== classified.country ? place : null;
+  // Toll-free and mobile ranges of countries spanning several zones map to all of them: a wrong
+  // local time is worse than none
+  const timeZone = zones?.length === 1 && zones[0] !== "Etc/Unknown" ? zones[0] : null;
+
+  return { ...classified, area, timeZone };
+}
+
+/**
+ * One line for the lookup result and the profile page: `Vast nummer · Amsterdam, Nederland`.
+ */
+export function describeNumber(info: NumberIntelligence) {
+  const place = [info.area, info.country].filter(Boolean).join(", ");
+  return place ? `${NUMBER_TYPE_LABELS[info.type]} · ${place}` : NUMBER_TYPE_LABELS[info.type];
+}
+
+export function isCallableNumber(info: Pick<NumberIntelligence, "type">) {
+  return !UNCALLABLE_NUMBER_TYPES.includes(info.type);
+}
@@ -1,3 +1,4 @@
+import { PhoneNumberFormat, PhoneNumberUtil } from "google-libphonenumber";
 import { z } from "zod";
 
 const SANITIZE_PATTERN = /[\s\-().]/g;
@@ -59,3 +60,16 @@ export function validatePhoneNumber(input: string) {
   return { success: true, phoneNumber: result.data } as const;
 }
 
+
+/**
+ * Readable international notation of a normalised number (`+31 6 12345678`).
+ * Falls back to the number itself when libphonenumber cannot parse it.
+ */
+export function formatPhoneNumber(normalized: string) {
+  try {
+    const phoneUtil = PhoneNumberUtil.getInstance();
+    return phoneUtil.format(phoneUtil.parse(normalized), PhoneNumberFormat.INTERNATIONAL);
+  } catch {
+    return normalized;
+  }
+}
@@ -0,0 +1,75 @@
+import type { PhoneProfileRecord } from "@/lib/supabase/types";
+
+export type FreshnessRule = "confidence" | "voicemail" | "disputed";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Confident results stay valid longer; ordered from most to least confident.
+const CONFIDENCE_TIERS = [
+  { minConfidence: 0.8, maxAgeDays: 90 },
+  { minConfidence: 0.5, maxAgeDays: 30 },
+  { minConfidence: 0, maxAgeDays: 7 }
+];
+
+/** A voicemail never reached a person, so it is re-checked sooner than any answered call. */
+const VOICEMAIL_MAX_AGE_DAYS = 7;
+
+/** Visitors disagree with the result: enough votes and at least this share of disputes. */
+const DISPUTE_MIN_VOTES = 3;
+const DISPUTE_MIN_SHARE = 0.5;
+const DISPUTED_MAX_AGE_DAYS = 2;
+
+export interface ProfileFreshness {
+  stale: boolean;
+  /** The rule that set the shortest maximum age. */
+  rule: FreshnessRule;
+  maxAgeDays: number;
+  /** ISO time the profile becomes stale; null when it was never checked. */
+  staleAt: string | null;
+}
+
+/**
+ * Decide whether a stored profile can still be served as is or needs a re-verification call,
+ * from its age, its (crowd-blended) confidence and the share of visitors disputing it.
+ * Stale profiles are still served while the new call runs.
+ */
+export function assessProfileFreshness(
+  profile: Pick<
+    PhoneProfileRecord,
+    "last_checked" | "confidence" | "call_outcome" | "reports_confirmed" | "reports_disputed"
+  >,
+  now = new Date()
+): ProfileFreshness {
+  const confidence = profile.confidence ?? 0;
+  const tier =
+    CONFIDENCE_TIERS.find((candidate) => confidence >= candidate.minConfidence) ??
+    CONFIDENCE_TIERS[CONFIDENCE_TIERS.length - 1];
+
+  let rule: FreshnessRule = "confidence";
+  let maxAgeDays = tier.maxAgeDays;
+
+  if (profile.call_outcome === "voicemail" && VOICEMAIL_MAX_AGE_DAYS < maxAgeDays) {
+    rule = "voicemail";
+    maxAgeDays = VOICEMAIL_MAX_AGE_DAYS;
+  }
+
+  const confirmed = profile.reports_confirmed ?? 0;
+  const disputed = profile.reports_disputed ?? 0;
+  const votes = confirmed + disputed;
+  if (votes >= DISPUTE_MIN_VOTES && disputed / votes >= DISPUTE_MIN_SHARE && DISPUTED_MAX_AGE_DAYS < maxAgeDays) {
+    rule = "disputed";
+    maxAgeDays = DISPUTED_MAX_AGE_DAYS;
+  }
+
+  if (!profile.last_checked) {
+    return { stale: true, rule, maxAgeDays, staleAt: null };
+  }
+
+  const staleAt = new Date(new Date(profile.last_checked).getTime() + maxAgeDays * DAY);
+  return {
+    stale: now.getTime() >= staleAt.getTime(),
+    rule,
+    maxAgeDays,
+    staleAt: staleAt.toISOString()
+  };
+}
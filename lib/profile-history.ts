@@ -0,0 +1,32 @@
+import type { PhoneProfileVersionRecord, ProfileChangeSource } from "@/lib/supabase/types";
+
+export const PROFILE_CHANGE_SOURCE_LABELS: Record<ProfileChangeSource, string> = {
+  call_attempt: "AI-call",
+  manual_edit: "Handmatige correctie",
+  crowd_report: "Meldingen van bezoekers"
+};
+
+export interface NameHistoryEntry {
+  callerName: string;
+  /** ISO time of the version that introduced this name. */
+  since: string;
+  source: ProfileChangeSource;
+}
+
+/**
+ * The names a number has had, newest first: one entry per version that changed the caller name.
+ * Versions that only changed the summary, confidence or tags are skipped.
+ */
+export function getNameHistory(versions: PhoneProfileVersionRecord[]): NameHistoryEntry[] {
+  const chronological = [...versions].sort((a, b) => a.version - b.version);
+  const entries: NameHistoryEntry[] = [];
+
+  for (const version of chronological) {
+    if (entries[entries.length - 1]?.callerName === version.caller_name) {
+      continue;
+    }
+    entries.push({ callerName: version.caller_name, since: version.created_at, source: version.source });
+  }
+
+  return entries.reverse();
+}
@@ -0,0 +1,80 @@
+import { cache } from "react";
+
+import { getMockProfile, type NumberProfile } from "@/lib/mock-profiles";
+import { getCountryName, getNumberIntelligence, type NumberIntelligence } from "@/lib/number-intelligence";
+import { parsePhoneNumber } from "@/lib/phone";
+import { readProfileRecordByNumber } from "@/lib/supabase/lookups";
+import { readNumberSuppression } from "@/lib/supabase/suppressions";
+import { mapProfileRecord, type PhoneProfileRecord } from "@/lib/supabase/types";
+
+export type PublicProfile =
+  | { state: "removed"; normalized: string }
+  | { state: "unknown"; normalized: string; numberInfo: NumberIntelligence }
+  /** `record` is null for the demo profiles in lib/mock-profiles.ts. */
+  | {
+      state: "found";
+      normalized: string;
+      profile: NumberProfile;
+      record: PhoneProfileRecord | null;
+      numberInfo: NumberIntelligence;
+    };
+
+/**
+ * The number in a `/nummer/[digits]` segment, or null when it is not a valid phone number.
+ */
+export function parseProfileParam(digits: string) {
+  let raw: string;
+  try {
+    raw = decodeURIComponent(digits);
+  } catch {
+    raw = digits;
+  }
+
+  try {
+    return parsePhoneNumber(raw);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Number intelligence as stored with the profile, or derived now for profiles written before it
+ * was stored and for numbers without a profile.
+ */
+async function getProfileNumberInfo(normalized: string, record: PhoneProfileRecord | null): Promise<NumberIntelligence> {
+  if (!record?.number_type) {
+    return getNumberIntelligence(normalized);
+  }
+
+  return {
+    type: record.number_type,
+    regionCode: record.region_code,
+    country: record.region_code ? getCountryName(record.region_code) : null,
+    area: record.geo_area,
+    timeZone: record.time_zone
+  };
+}
+
+/**
+ * What the public profile page of a number shows: nothing for suppressed numbers, otherwise the
+ * stored profile or a demo profile. Shared by the page, its metadata and its Open Graph image, and
+ * cached per request so they make one round trip.
+ * Database errors are thrown rather than turned into a "removed" or "unknown" page: a failed
+ * regeneration then keeps serving the last good page, and no render is cached as empty.
+ */
+export const getPublicProfile = cache(async (normalized: string): Promise<PublicProfile> => {
+  if (await readNumberSuppression(normalized)) {
+    return { state: "removed", normalized };
+  }
+
+  const record = await readProfileRecordByNumber(normalized);
+  const numberInfo = await getProfileNumberInfo(normalized, record);
+  if (record) {
+    return { state: "found", normalized, profile: mapProfileRecord(record), record, numberInfo };
+  }
+
+  const mockProfile = getMockProfile(normalized);
+  return mockProfile
+    ? { state: "found", normalized, profile: mockProfile, record: null, numberInfo }
+    : { state: "unknown", normalized, numberInfo };
+});
@@ -0,0 +1,146 @@
+import { consumeRateLimits, type RateLimitHit } from "@/lib/supabase/rate-limits";
+
+export type RateLimitScope = "ip" | "session" | "number" | "daily_budget";
+
+interface RateLimitPolicy {
+  /** Calls allowed within the window. */
+  limit: number;
+  windowSeconds: number;
+}
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+const DEFAULT_DAILY_CALL_BUDGET = 500;
+
+export const RATE_LIMIT_POLICIES: Record<Exclude<RateLimitScope, "daily_budget">, RateLimitPolicy> = {
+  // The IP is the /24 or /48 bucket, shared by visitors behind one NAT, so it gets more room than a session
+  ip: { limit: 20, windowSeconds: HOUR },
+  session: { limit: 10, windowSeconds: HOUR },
+  number: { limit: 3, windowSeconds: DAY }
+};
+
+export const RATE_LIMIT_MESSAGES: Record<RateLimitScope, string> = {
+  ip: "Er zijn vanaf jouw netwerk te veel nummers kort na elkaar opgezocht.",
+  session: "Je hebt te veel nummers kort na elkaar opgezocht.",
+  number: "Dit nummer is de afgelopen dag al vaak gebeld.",
+  daily_budget: "We hebben het maximale aantal calls voor vandaag bereikt."
+};
+
+/**
+ * `DAILY_CALL_BUDGET`: outbound calls for new lookups across all visitors per 24 hours (default 500).
+ */
+export function getDailyCallBudget() {
+  const value = Number(process.env.DAILY_CALL_BUDGET);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_DAILY_CALL_BUDGET;
+}
+
+/** Re-verification calls for stale profiles (lib/calls/profile-refresh.ts): one per number per day. */
+export const REFRESH_RATE_LIMIT_POLICY: RateLimitPolicy = { limit: 1, windowSeconds: DAY };
+
+/**
+ * Count a re-verification call for a stale profile against its per-number window and the daily
+ * call budget. Visitors are not charged for it; they did not ask for a call.
+ * Returns false when a window is full; throws when the database is unreachable.
+ */
+export async function consumeRefreshRateLimits(normalized: string) {
+  const limited = await consumeRateLimits([
+    { scope: "refresh", key: normalized, ...REFRESH_RATE_LIMIT_POLICY },
+    { scope: "daily_budget", key: "global", limit: getDailyCallBudget(), windowSeconds: DAY }
+  ]);
+
+  return limited.length === 0;
+}
+
+export type RateLimitResult<Scope extends string> =
+  | { allowed: true }
+  | { allowed: false; scope: Scope; retryAt: string; retryAfterSeconds: number };
+
+export type LookupRateLimitResult = RateLimitResult<RateLimitScope>;
+
+/** The full window that frees up last decides when the request is accepted again. */
+function toRateLimitResult<Scope extends string>(
+  limited: RateLimitHit[],
+  toScope: (scope: string) => Scope
+): RateLimitResult<Scope> {
+  if (limited.length === 0) {
+    return { allowed: true };
+  }
+
+  const latest = limited.reduce((current, hit) =>
+    new Date(hit.retryAt).getTime() > new Date(current.retryAt).getTime() ? hit : current
+  );
+
+  return {
+    allowed: false,
+    scope: toScope(latest.scope),
+    retryAt: new Date(latest.retryAt).toISOString(),
+    retryAfterSeconds: Math.max(1, Math.ceil((new Date(latest.retryAt).getTime() - Date.now()) / 1000))
+  };
+}
+
+/**
+ * Count an outbound call for this visitor and number against every sliding window, or refuse it
+ * when one is full. `retryAt` is when all full windows have room again. Throws when the database
+ * is unreachable, so callers fail closed instead of placing unlimited calls.
+ */
+export async function consumeLookupRateLimits({
+  visitorHash,
+  ipBucket,
+  normalized
+}: {
+  visitorHash: string;
+  ipBucket: string;
+  normalized: string;
+}): Promise<LookupRateLimitResult> {
+  const limited = await consumeRateLimits([
+    { scope: "ip", key: ipBucket, ...RATE_LIMIT_POLICIES.ip },
+    { scope: "session", key: visitorHash, ...RATE_LIMIT_POLICIES.session },
+    { scope: "number", key: normalized, ...RATE_LIMIT_POLICIES.number },
+    { scope: "daily_budget", key: "global", limit: getDailyCallBudget(), windowSeconds: DAY }
+  ]);
+
+  return toRateLimitResult(limited, (scope) => scope as RateLimitScope);
+}
+
+export type VerificationRateLimitScope = "ip" | "session" | "number";
+
+/** Removal verification codes (app/actions/removal.ts); every SMS, voice call or e-mail costs money. */
+export const VERIFICATION_RATE_LIMIT_POLICIES: Record<VerificationRateLimitScope, RateLimitPolicy> = {
+  ip: { limit: 5, windowSeconds: HOUR },
+  session: { limit: 3, windowSeconds: HOUR },
+  number: { limit: 3, windowSeconds: DAY }
+};
+
+export const VERIFICATION_RATE_LIMIT_MESSAGES: Record<VerificationRateLimitScope, string> = {
+  ip: "Er zijn vanaf jouw netwerk te veel verificatiecodes aangevraagd.",
+  session: "Je hebt te veel verificatiecodes aangevraagd.",
+  number: "Voor dit nummer zijn de afgelopen dag al te veel verificatiecodes verstuurd."
+};
+
+const VERIFICATION_SCOPE_PREFIX = "verification_";
+
+/**
+ * Count a verification code send for this visitor and number, or refuse it when a window is full.
+ * Uses its own windows, so removal requests and lookups do not eat into each other.
+ * Throws when the database is unreachable, so callers fail closed instead of sending unlimited codes.
+ */
+export async function consumeVerificationRateLimits({
+  visitorHash,
+  ipBucket,
+  normalized
+}: {
+  visitorHash: string;
+  ipBucket: string;
+  normalized: string;
+}): Promise<RateLimitResult<VerificationRateLimitScope>> {
+  const limited = await consumeRateLimits([
+    { scope: `${VERIFICATION_SCOPE_PREFIX}ip`, key: ipBucket, ...VERIFICATION_RATE_LIMIT_POLICIES.ip },
+    { scope: `${VERIFICATION_SCOPE_PREFIX}session`, key: visitorHash, ...VERIFICATION_RATE_LIMIT_POLICIES.session },
+    { scope: `${VERIFICATION_SCOPE_PREFIX}number`, key: normalized, ...VERIFICATION_RATE_LIMIT_POLICIES.number }
+  ]);
+
+  return toRateLimitResult(
+    limited,
+    (scope) => scope.slice(VERIFICATION_SCOPE_PREFIX.length) as VerificationRateLimitScope
+  );
+}
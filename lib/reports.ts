@@ -0,0 +1,46 @@
+import type { ProfileVote } from "@/lib/supabase/types";
+
+export const REPORT_REASONS = {
+  confirm: {
+    called_me: "Dit nummer belde mij en het klopt",
+    known_contact: "Ik ken deze beller"
+  },
+  dispute: {
+    wrong_name: "Verkeerde naam",
+    wrong_business: "Ander bedrijf of persoon",
+    outdated: "Informatie is verouderd",
+    other: "Anders"
+  }
+} as const satisfies Record<ProfileVote, Record<string, string>>;
+
+export type ReportReason<V extends ProfileVote = ProfileVote> = keyof (typeof REPORT_REASONS)[V];
+
+export function isReportReason(vote: ProfileVote, reason: string): reason is ReportReason {
+  return Object.prototype.hasOwnProperty.call(REPORT_REASONS[vote], reason);
+}
+
+/** Share of votes that confirm a profile before it counts towards the success metric. */
+export const CONFIRMED_THRESHOLD = 0.7;
+
+// The call result counts as this many votes, so a single dispute cannot sink a good call.
+const PRIOR_WEIGHT = 4;
+const NEUTRAL_PRIOR = 0.5;
+
+/**
+ * Blend the AI call confidence with crowd votes (beta-binomial style).
+ * Without votes the result equals the call confidence; every vote pulls it towards the crowd.
+ */
+export function computeCrowdConfidence(
+  callConfidence: number | null | undefined,
+  confirmed: number,
+  disputed: number
+) {
+  const prior = typeof callConfidence === "number" ? callConfidence : NEUTRAL_PRIOR;
+  const value = (prior * PRIOR_WEIGHT + confirmed) / (PRIOR_WEIGHT + confirmed + disputed);
+  return Math.round(Math.min(1, Math.max(0, value)) * 100) / 100;
+}
+
+export function isCrowdConfirmed(confirmed: number, disputed: number) {
+  const total = confirmed + disputed;
+  return total > 0 && confirmed / total >= CONFIRMED_THRESHOLD;
+}
@@ -0,0 +1,102 @@
+import { revalidatePath } from "next/cache";
+
+import { getProfilePath, getSiteUrl } from "@/lib/site";
+import {
+  completeRevalidationJob,
+  enqueueRevalidation,
+  failRevalidationJob,
+  listDueRevalidationJobs
+} from "@/lib/supabase/revalidation-jobs";
+import type { ProfileChangeSource, RevalidationJobRecord } from "@/lib/supabase/types";
+
+export type RevalidationReason = ProfileChangeSource | "suppression" | "removal";
+
+const MINUTE = 60 * 1000;
+/** Delay before attempt n + 1; a job fails for good after the last one. */
+const RETRY_DELAYS_MS = [1 * MINUTE, 5 * MINUTE, 15 * MINUTE, 60 * MINUTE];
+const REVALIDATE_TIMEOUT_MS = 5000;
+
+/**
+ * Revalidate through `POST /api/revalidate` rather than with `revalidatePath` in this request:
+ * `revalidatePath` only marks the path and never reports a failure, while the request to the
+ * deployment does fail (unreachable, timeout, 5xx, wrong secret), so a job is retried until the
+ * deployment confirmed it.
+ */
+async function requestRevalidation(path: string) {
+  const secret = process.env.CRON_SECRET;
+  const response = await fetch(`${getSiteUrl()}/api/revalidate`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(secret ? { Authorization: `Bearer ${secret}` } : {})
+    },
+    body: JSON.stringify({ path }),
+    cache: "no-store",
+    signal: AbortSignal.timeout(REVALIDATE_TIMEOUT_MS)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Revalidation request answered ${response.status}`);
+  }
+}
+
+async function runRevalidationJob(job: RevalidationJobRecord) {
+  try {
+    await requestRevalidation(job.path);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const delayMs = RETRY_DELAYS_MS[job.attempts];
+    const nextAttemptAt = delayMs === undefined ? null : new Date(Date.now() + delayMs);
+
+    console.error("❌ Revalidation failed:", { path: job.path, attempts: job.attempts + 1, error: message });
+    await failRevalidationJob(job, message, nextAttemptAt);
+    return false;
+  }
+
+  await completeRevalidationJob(job);
+  return true;
+}
+
+/**
+ * Refresh the cached profile page of a number after its data changed. The job is queued first, so
+ * a failed revalidation is retried by the cron route. Never throws: a page that stays stale for a
+ * while must not fail the webhook, vote or edit that changed it.
+ * When the queue cannot be written, the path is at least marked in this request.
+ */
+export async function revalidateProfile(normalized: string, reason: RevalidationReason) {
+  const path = getProfilePath(normalized);
+
+  try {
+    const job = await enqueueRevalidation(path, reason);
+    return await runRevalidationJob(job);
+  } catch (error) {
+    console.error("❌ Could not queue revalidation:", {
+      path,
+      reason,
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    try {
+      revalidatePath(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Retry queued revalidations whose time has come. Used by the cron route.
+ */
+export async function processRevalidationQueue(limit = 20) {
+  const due = await listDueRevalidationJobs(limit);
+  let revalidated = 0;
+
+  for (const job of due) {
+    if (await runRevalidationJob(job)) {
+      revalidated += 1;
+    }
+  }
+
+  return { due: due.length, revalidated };
+}
@@ -0,0 +1,19 @@
+const DEFAULT_SITE_URL = "http://localhost:3000";
+
+/**
+ * Public origin of the site, without trailing slash, for absolute URLs in sitemaps and metadata.
+ * `NEXT_PUBLIC_SITE_URL`, else the production domain Vercel provides, else localhost.
+ */
+export function getSiteUrl() {
+  const configured =
+    process.env.NEXT_PUBLIC_SITE_URL ||
+    (process.env.VERCEL_PROJECT_PRODUCTION_URL ? `https://${process.env.VERCEL_PROJECT_PRODUCTION_URL}` : "") ||
+    DEFAULT_SITE_URL;
+
+  return configured.replace(/\/+$/, "");
+}
+
+/** Canonical path of a number's profile page, as linked from the site. */
+export function getProfilePath(normalized: string) {
+  return `/nummer/${encodeURIComponent(normalized)}`;
+}
@@ -0,0 +1,98 @@
+import { getProfilePath, getSiteUrl } from "@/lib/site";
+import { getSitemapPageStart, listSitemapPages, listSitemapProfiles } from "@/lib/supabase/sitemap";
+
+/** Numbers per sitemap file; the protocol allows 50,000 URLs and 50 MB per file. */
+export const SITEMAP_PAGE_SIZE = 10000;
+
+/** Profiles below this confidence are too uncertain to be worth indexing. */
+export const SITEMAP_MIN_CONFIDENCE = 0.5;
+
+/** Pages that are not profiles, listed in `/sitemaps/pages.xml`. */
+const STATIC_PATHS = ["/", "/verwijderen"];
+
+interface SitemapEntry {
+  loc: string;
+  lastmod?: string | null;
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function renderEntries(tag: "url" | "sitemap", entries: SitemapEntry[]) {
+  return entries
+    .map((entry) => {
+      const lastmod = entry.lastmod ? `<lastmod>${new Date(entry.lastmod).toISOString()}</lastmod>` : "";
+      return `<${tag}><loc>${escapeXml(entry.loc)}</loc>${lastmod}</${tag}>`;
+    })
+    .join("\n");
+}
+
+function renderSitemapIndex(entries: SitemapEntry[]) {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${renderEntries("sitemap", entries)}
+</sitemapindex>
+`;
+}
+
+function renderUrlSet(entries: SitemapEntry[]) {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${renderEntries("url", entries)}
+</urlset>
+`;
+}
+
+export function getProfileSitemapPath(page: number) {
+  return `/sitemaps/profiles-${page}.xml`;
+}
+
+/**
+ * `/sitemap.xml`: the static pages plus one sitemap per page of published profiles, each with
+ * the latest `updated_at` of its profiles as `lastmod`. Throws when the profiles cannot be read.
+ */
+export async function buildSitemapIndex() {
+  const siteUrl = getSiteUrl();
+  const pages = await listSitemapPages(SITEMAP_PAGE_SIZE, SITEMAP_MIN_CONFIDENCE);
+
+  return renderSitemapIndex([
+    { loc: `${siteUrl}/sitemaps/pages.xml` },
+    ...pages.map((page) => ({ loc: `${siteUrl}${getProfileSitemapPath(page.page)}`, lastmod: page.lastModified }))
+  ]);
+}
+
+export function buildStaticSitemap() {
+  const siteUrl = getSiteUrl();
+  return renderUrlSet(STATIC_PATHS.map((path) => ({ loc: `${siteUrl}${path}` })));
+}
+
+/**
+ * One page of profile URLs, or null when the page does not exist (anymore). Only this page's first
+ * number is looked up, not the boundaries of every page. Throws when the profiles cannot be read.
+ */
+export async function buildProfileSitemap(page: number) {
+  if (!Number.isInteger(page) || page < 1) {
+    return null;
+  }
+
+  const firstNormalized = await getSitemapPageStart(page, SITEMAP_PAGE_SIZE, SITEMAP_MIN_CONFIDENCE);
+  if (!firstNormalized) {
+    return null;
+  }
+
+  const siteUrl = getSiteUrl();
+  const profiles = await listSitemapProfiles(firstNormalized, SITEMAP_PAGE_SIZE, SITEMAP_MIN_CONFIDENCE);
+
+  return renderUrlSet(
+    profiles.map((profile) => ({
+      loc: `${siteUrl}${getProfilePath(profile.normalized)}`,
+      lastmod: profile.updated_at
+    }))
+  );
+}
@@ -0,0 +1,177 @@
+/**
+ * Profiles with the structured data their page must emit. Run them with `npm run test:fixtures`
+ * after changing lib/structured-data.
+ */
+import type { FixtureSuite } from "@/lib/fixtures";
+import type { NumberProfile } from "@/lib/mock-profiles";
+import {
+  buildProfileStructuredData,
+  getProfileEntity,
+  serializeStructuredData,
+  validateStructuredData,
+  type ProfileEntity
+} from "@/lib/structured-data";
+
+/** Only the fields listed are compared; `null` means "must be absent". */
+interface StructuredDataExpectation {
+  entity?: ProfileEntity;
+  /** `@type` of each node in the graph, in order. */
+  types?: string[];
+  areaServed?: string | null;
+  /** Whether the caller name appears anywhere in the JSON. */
+  mentionsCallerName?: boolean;
+}
+
+interface StructuredDataFixture {
+  id: string;
+  description: string;
+  normalized: string;
+  profile: NumberProfile | null;
+  expected: StructuredDataExpectation;
+}
+
+function profile(normalized: string, overrides: Partial<NumberProfile>): NumberProfile {
+  return {
+    normalized,
+    callerName: "Onbekende beller",
+    summary: "",
+    transcriptPreview: "",
+    lastChecked: "2025-11-01T10:00:00.000Z",
+    confidence: 0.8,
+    callOutcome: "confirmed",
+    reports: { confirmedCount: 0, disputedCount: 0 },
+    tags: [],
+    ...overrides
+  };
+}
+
+const FIXTURES: StructuredDataFixture[] = [
+  {
+    id: "business-landline",
+    description: "Business on a Dutch geographic number is a LocalBusiness in NL",
+    normalized: "+31201234567",
+    profile: profile("+31201234567", {
+      callerName: "Bakkerij de Molen",
+      summary: "Bakkerij die belt over bestellingen.",
+      tags: ["Bedrijf"]
+    }),
+    expected: {
+      entity: "business",
+      types: ["LocalBusiness", "BreadcrumbList", "FAQPage"],
+      areaServed: "NL",
+      mentionsCallerName: true
+    }
+  },
+  {
+    id: "business-mobile-abroad",
+    description: "Business on a Belgian mobile number is an Organization in BE",
+    normalized: "+32470123456",
+    profile: profile("+32470123456", {
+      callerName: "Vlaamse Energie",
+      aka: ["VE Klantendienst"],
+      tags: ["Bedrijf", "Energie"]
+    }),
+    expected: {
+      entity: "business",
+      types: ["Organization", "BreadcrumbList", "FAQPage"],
+      areaServed: "BE",
+      mentionsCallerName: true
+    }
+  },
+  {
+    id: "business-toll-free",
+    description: "Business on a US toll-free number is an Organization in US",
+    normalized: "+18002345678",
+    profile: profile("+18002345678", { callerName: "Acme Support", tags: ["bedrijf"] }),
+    expected: {
+      entity: "business",
+      types: ["Organization", "BreadcrumbList", "FAQPage"],
+      areaServed: "US",
+      mentionsCallerName: true
+    }
+  },
+  {
+    id: "private-person",
+    description: "Private person gets no entity and is not named",
+    normalized: "+31612345678",
+    profile: profile("+31612345678", {
+      callerName: "Jan de Vries",
+      aka: ["Jantje"],
+      summary: "Jan de Vries belde over een gemiste afspraak.",
+      tags: ["Particulier"]
+    }),
+    expected: {
+      entity: "person",
+      types: ["BreadcrumbList", "FAQPage"],
+      areaServed: null,
+      mentionsCallerName: false
+    }
+  },
+  {
+    id: "unknown-entity",
+    description: "Caller of unknown kind is treated like a private person",
+    normalized: "+31611122233",
+    profile: profile("+31611122233", { callerName: "Sanne", tags: ["Nog onderzoeken"] }),
+    expected: {
+      entity: "unknown",
+      types: ["BreadcrumbList", "FAQPage"],
+      areaServed: null,
+      mentionsCallerName: false
+    }
+  },
+  {
+    id: "business-pending",
+    description: "Business whose call is still pending is not published as an entity yet",
+    normalized: "+31301234567",
+    profile: profile("+31301234567", { callerName: "Nog onbekend bedrijf", callOutcome: "pending", tags: ["Bedrijf"] }),
+    expected: {
+      entity: "business",
+      types: ["BreadcrumbList", "FAQPage"],
+      areaServed: null,
+      mentionsCallerName: false
+    }
+  },
+  {
+    id: "script-injection",
+    description: "Caller name with markup cannot close the script element",
+    normalized: "+31101234567",
+    profile: profile("+31101234567", { callerName: "</script><script>alert(1)</script>", tags: ["Bedrijf"] }),
+    expected: {
+      types: ["LocalBusiness", "BreadcrumbList", "FAQPage"],
+      mentionsCallerName: false
+    }
+  },
+  {
+    id: "no-profile",
+    description: "Number without a profile only gets breadcrumbs",
+    normalized: "+31687654321",
+    profile: null,
+    expected: {
+      types: ["BreadcrumbList"]
+    }
+  }
+];
+
+function evaluateFixture(fixture: StructuredDataFixture): Record<string, unknown> {
+  const data = buildProfileStructuredData({ normalized: fixture.normalized, profile: fixture.profile });
+  const json = serializeStructuredData(data);
+  const caller = data["@graph"].find((node) => node["@type"] === "Organization" || node["@type"] === "LocalBusiness");
+  const areaServed = caller?.areaServed as { name?: string } | undefined;
+
+  return {
+    entity: fixture.profile ? getProfileEntity(fixture.profile) : undefined,
+    types: data["@graph"].map((node) => node["@type"]),
+    areaServed: areaServed?.name ?? null,
+    mentionsCallerName: fixture.profile ? json.includes(fixture.profile.callerName) : false,
+    problems: validateStructuredData(data),
+    // Must survive a round trip through JSON.parse, as a crawler reads it
+    parses: JSON.stringify(JSON.parse(json)) === JSON.stringify(data)
+  };
+}
+
+export const structuredDataFixtures: FixtureSuite<StructuredDataFixture> = {
+  name: "structured-data",
+  fixtures: FIXTURES,
+  evaluate: evaluateFixture,
+  alwaysExpected: { problems: [], parses: true }
+};
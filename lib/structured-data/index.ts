@@ -0,0 +1,238 @@
+/**
+ * JSON-LD for the public profile page of a number. Businesses are described as an `Organization`,
+ * or a `LocalBusiness` when the number is a geographic landline. Private persons and callers whose
+ * kind is unknown get no entity at all: the JSON-LD leaves out their name, summary and number. The
+ * page itself still shows the name (title, description, heading); this only keeps search engines
+ * from reading it as a structured entity. Every page gets a `BreadcrumbList`; pages with a profile
+ * also get a `FAQPage`.
+ */
+import type { NumberProfile } from "@/lib/mock-profiles";
+import { classifyNumber } from "@/lib/number-intelligence";
+import { formatPhoneNumber } from "@/lib/phone";
+import { getProfilePath, getSiteUrl } from "@/lib/site";
+
+export type ProfileEntity = "business" | "person" | "unknown";
+
+export interface JsonLdNode {
+  "@type": string;
+  [key: string]: unknown;
+}
+
+export interface StructuredData {
+  "@context": "https://schema.org";
+  "@graph": JsonLdNode[];
+}
+
+/** Properties a node of each type needs for search engines to use it. */
+const REQUIRED_PROPERTIES: Record<string, string[]> = {
+  Organization: ["name", "telephone"],
+  LocalBusiness: ["name", "telephone", "address"],
+  BreadcrumbList: ["itemListElement"],
+  FAQPage: ["url", "mainEntity"]
+};
+
+/**
+ * Business or private person, from the entity tag the identification stored ("Bedrijf" or
+ * "Particulier", see deriveEntityTag in lib/identification/heuristics.ts).
+ */
+export function getProfileEntity(profile: Pick<NumberProfile, "tags">): ProfileEntity {
+  const tags = profile.tags.map((tag) => tag.toLowerCase());
+
+  if (tags.includes("bedrijf")) {
+    return "business";
+  }
+
+  if (tags.includes("particulier")) {
+    return "person";
+  }
+
+  return "unknown";
+}
+
+function buildCallerNode(profile: NumberProfile, pageUrl: string): JsonLdNode {
+  const { regionCode: country, type } = classifyNumber(profile.normalized);
+  const localBusiness = country !== null && type === "fixed_line";
+
+  return {
+    "@type": localBusiness ? "LocalBusiness" : "Organization",
+    "@id": `${pageUrl}#caller`,
+    name: profile.callerName,
+    ...(profile.aka?.length ? { alternateName: profile.aka } : {}),
+    ...(profile.summary ? { description: profile.summary } : {}),
+    telephone: profile.normalized,
+    ...(country ? { areaServed: { "@type": "Country", name: country } } : {}),
+    ...(localBusiness ? { address: { "@type": "PostalAddress", addressCountry: country } } : {}),
+    additionalProperty: [
+      {
+        "@type": "PropertyValue",
+        name: "Call status",
+        value: profile.callOutcome
+      },
+      {
+        "@type": "PropertyValue",
+        name: "Confidence",
+        value: `${Math.round(profile.confidence * 100)}%`
+      }
+    ]
+  };
+}
+
+function buildBreadcrumbs(formattedNumber: string, pageUrl: string): JsonLdNode {
+  return {
+    "@type": "BreadcrumbList",
+    itemListElement: [
+      { "@type": "ListItem", position: 1, name: "AI Caller ID", item: `${getSiteUrl()}/` },
+      { "@type": "ListItem", position: 2, name: `Nummer ${formattedNumber}`, item: pageUrl }
+    ]
+  };
+}
+
+function question(name: string, answer: string) {
+  return {
+    "@type": "Question",
+    name,
+    acceptedAnswer: { "@type": "Answer", text: answer }
+  };
+}
+
+function describeCaller(profile: NumberProfile, entity: ProfileEntity, published: boolean) {
+  if (published) {
+    return [`Volgens onze AI-agent is dit ${profile.callerName}.`, profile.summary].filter(Boolean).join(" ");
+  }
+
+  if (entity === "person") {
+    return "Onze AI-agent sprak met een particulier. Om de eigenaar te beschermen noemen we hier geen naam.";
+  }
+
+  return "Onze AI-agent heeft dit nummer gebeld. Op deze pagina lees je wat het gesprek opleverde.";
+}
+
+function buildFaq(
+  profile: NumberProfile,
+  entity: ProfileEntity,
+  formattedNumber: string,
+  pageUrl: string,
+  caller: JsonLdNode | null
+): JsonLdNode {
+  const { confirmedCount, disputedCount } = profile.reports;
+
+  return {
+    "@type": "FAQPage",
+    url: pageUrl,
+    inLanguage: "nl-NL",
+    dateModified: new Date(profile.lastChecked).toISOString(),
+    ...(caller ? { about: { "@id": caller["@id"] } } : {}),
+    mainEntity: [
+      question(`Wie belt er met ${formattedNumber}?`, describeCaller(profile, entity, caller !== null)),
+      question(
+        "Hoe betrouwbaar is deze identificatie?",
+        `De AI-agent is voor ${Math.round(profile.confidence * 100)}% zeker. ${confirmedCount} bezoekers bevestigden de identificatie en ${disputedCount} twijfelden eraan.`
+      ),
+      question(
+        "Hoe verwijder ik mijn nummer?",
+        `Is dit jouw nummer? Vraag verwijdering aan via ${getSiteUrl()}/verwijderen. Na verificatie tonen we geen profiel meer en bellen we het nummer niet.`
+      )
+    ]
+  };
+}
+
+/**
+ * Structured data for the profile page of `normalized`; `profile` is null when the number has not
+ * been identified yet.
+ */
+export function buildProfileStructuredData({
+  normalized,
+  profile
+}: {
+  normalized: string;
+  profile: NumberProfile | null;
+}): StructuredData {
+  const pageUrl = `${getSiteUrl()}${getProfilePath(normalized)}`;
+  const formattedNumber = formatPhoneNumber(normalized);
+  const graph: JsonLdNode[] = [];
+
+  if (profile) {
+    const entity = getProfileEntity(profile);
+    // A pending call has not produced a name worth publishing yet
+    const caller = entity === "business" && profile.callOutcome !== "pending" ? buildCallerNode(profile, pageUrl) : null;
+
+    if (caller) {
+      graph.push(caller);
+    }
+    graph.push(buildBreadcrumbs(formattedNumber, pageUrl));
+    graph.push(buildFaq(profile, entity, formattedNumber, pageUrl, caller));
+  } else {
+    graph.push(buildBreadcrumbs(formattedNumber, pageUrl));
+  }
+
+  return { "@context": "https://schema.org", "@graph": graph };
+}
+
+/**
+ * JSON for a `<script type="application/ld+json">` tag. `<` is escaped so a caller name or summary
+ * can never close the script element.
+ */
+export function serializeStructuredData(data: StructuredData) {
+  return JSON.stringify(data).replace(/</g, "\\u003c");
+}
+
+function isAbsoluteUrl(value: unknown) {
+  return typeof value === "string" && /^https?:\/\/[^/]+/.test(value);
+}
+
+/**
+ * Problems with the shape of structured data: missing required properties, breadcrumbs out of
+ * order or with relative URLs, and questions without an answer. Empty when the data is valid.
+ */
+export function validateStructuredData(data: StructuredData): string[] {
+  const problems: string[] = [];
+
+  if (data["@context"] !== "https://schema.org") {
+    problems.push("@context must be https://schema.org");
+  }
+
+  data["@graph"].forEach((node, index) => {
+    const label = `${node["@type"]} (#${index})`;
+    const required = REQUIRED_PROPERTIES[node["@type"]];
+
+    if (!required) {
+      problems.push(`${label}: unexpected type`);
+      return;
+    }
+
+    for (const property of required) {
+      if (node[property] === undefined || node[property] === null || node[property] === "") {
+        problems.push(`${label}: missing ${property}`);
+      }
+    }
+
+    if (node["@type"] === "BreadcrumbList" && Array.isArray(node.itemListElement)) {
+      (node.itemListElement as Array<Record<string, unknown>>).forEach((item, position) => {
+        if (item.position !== position + 1) {
+          problems.push(`${label}: item ${position} has position ${String(item.position)}`);
+        }
+        if (!item.name || !isAbsoluteUrl(item.item)) {
+          problems.push(`${label}: item ${position} needs a name and an absolute URL`);
+        }
+      });
+    }
+
+    if (node["@type"] === "FAQPage") {
+      const questions = Array.isArray(node.mainEntity) ? (node.mainEntity as Array<Record<string, unknown>>) : [];
+      if (questions.length === 0) {
+        problems.push(`${label}: no questions`);
+      }
+      questions.forEach((entry, position) => {
+        const answer = entry.acceptedAnswer as Record<string, unknown> | undefined;
+        if (entry["@type"] !== "Question" || !entry.name || answer?.["@type"] !== "Answer" || !answer.text) {
+          problems.push(`${label}: question ${position} needs a name and an answer`);
+        }
+      });
+      if (!isAbsoluteUrl(node.url)) {
+        problems.push(`${label}: url must be absolute`);
+      }
+    }
+  });
+
+  return problems;
+}
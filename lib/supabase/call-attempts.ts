@@ -1,14 +1,21 @@
 import { getSupabaseAdminClient } from "@/lib/supabase/admin";
 import type { CallAttemptRecord } from "@/lib/supabase/types";
+import type { RetryReason } from "@/lib/call-retry";
+import { canTransitionCall, getCallStatesLeadingTo, type CallState } from "@/lib/call-state";
 import { invalidateCache } from "@/lib/cache/status-cache";
+import { publishLookupChange } from "@/lib/lookup-events";
 
 export interface RecordCallAttemptInput {
   lookupId: string;
-  status: string;
+  status: CallState;
   conversationId?: string | null;
   elevenLabsStatus?: string | null;
   errorMessage?: string | null;
   payload?: Record<string, unknown> | null;
+  attemptNumber?: number;
+  retryReason?: RetryReason | null;
+  scheduledFor?: string | Date | null;
+  retryOf?: string | null;
 }
 
 export async function recordCallAttempt({
@@ -17,27 +24,45 @@ export async function recordCallAttempt({
   conversationId,
   elevenLabsStatus,
   errorMessage,
-  payload
+  payload,
+  attemptNumber,
+  retryReason,
+  scheduledFor,
+  retryOf
 }: RecordCallAttemptInput) {
   const supabase = getSupabaseAdminClient();
 
-  const { error } = await supabase.from("call_attempts").insert({
-    lookup_id: lookupId,
-    status,
-    elevenlabs_conversation_id: conversationId ?? null,
-    elevenlabs_status: elevenLabsStatus ?? null,
-    error_message: errorMessage ?? null,
-    payload: payload ?? null
-  });
+  const { data, error } = await supabase
+    .from("call_attempts")
+    .insert({
+      lookup_id: lookupId,
+      status,
+      elevenlabs_conversation_id: conversationId ?? null,
+      elevenlabs_status: elevenLabsStatus ?? null,
+      error_message: errorMessage ?? null,
+      payload: payload ?? null,
+      attempt_number: attemptNumber ?? 1,
+      retry_reason: retryReason ?? null,
+      scheduled_for: scheduledFor ? new Date(scheduledFor).toISOString() : null,
+      retry_of: retryOf ?? null
+    })
+    .select("*")
+    .maybeSingle();
 
   if (error) {
     console.error("Failed to record call attempt", error);
+    return null;
   }
+
+  await invalidateCache(lookupId);
+  publishLookupChange(lookupId);
+
+  return data as CallAttemptRecord | null;
 }
 
 interface UpdateCallAttemptInput {
   conversationId?: string;
-  status?: string;
+  status?: CallState;
   elevenLabsStatus?: string | null;
   errorMessage?: string | null;
   payload?: Record<string, unknown> | null;
@@ -45,6 +70,8 @@ interface UpdateCallAttemptInput {
   summary?: string | null;
   confidence?: number | null;
   endedAt?: string | Date | null;
+  durationSeconds?: number | null;
+  billedCost?: number | null;
 }
 
 export async function updateCallAttemptByConversation({
@@ -56,7 +83,9 @@ export async function updateCallAttemptByConversation({
   transcript,
   summary,
   confidence,
-  endedAt
+  endedAt,
+  durationSeconds,
+  billedCost
 }: UpdateCallAttemptInput & { conversationId: string }) {
   const supabase = getSupabaseAdminClient();
   const IS_DEV = process.env.NODE_ENV !== "production";
@@ -74,6 +103,8 @@ export async function updateCallAttemptByConversation({
   if (endedAt !== undefined) updates.ended_at = endedAt
     ? new Date(endedAt).toISOString()
     : null;
+  if (durationSeconds !== undefined) updates.duration_seconds = durationSeconds;
+  if (billedCost !== undefined) updates.billed_cost = billedCost;
 
   // Note: updated_at is automatically updated by database trigger, so we don't need to set it manually
   // But we need at least one field to update, otherwise the update won't trigger the updated_at update
@@ -87,12 +118,13 @@ export async function updateCallAttemptByConversation({
     return null;
   }
 
-  const { data, error } = await supabase
-    .from("call_attempts")
-    .update(updates)
-    .eq("elevenlabs_conversation_id", conversationId)
-    .select("*")
-    .maybeSingle();
+  let query = supabase.from("call_attempts").update(updates).eq("elevenlabs_conversation_id", conversationId);
+  if (status !== undefined) {
+    // A stale or reordered write must not move the attempt backwards (see lib/call-state.ts)
+    query = query.in("status", getCallStatesLeadingTo(status));
+  }
+
+  const { data, error } = await query.select("*").maybeSingle();
 
   if (error) {
     console.error("❌ Failed to update call attempt by conversation:", {
@@ -117,7 +149,7 @@ export async function updateCallAttemptByConversation({
       updated_at: (data as CallAttemptRecord).updated_at
     });
   } else {
-    console.log("⚠️ No call attempt found for conversation:", {
+    console.log("⚠️ No call attempt updated for conversation (unknown, or the update would move it backwards):", {
       conversationId
     });
   }
@@ -126,7 +158,8 @@ export async function updateCallAttemptByConversation({
   
   // Invalidate cache after successful update
   if (lookupId) {
-    invalidateCache(lookupId);
+    await invalidateCache(lookupId);
+    publishLookupChange(lookupId);
   }
 
   return lookupId;
@@ -134,44 +167,13 @@ export async function updateCallAttemptByConversation({
 
 export async function getLatestCallAttempt(lookupId: string) {
   const supabase = getSupabaseAdminClient();
-  const IS_DEV = process.env.NODE_ENV !== "production";
 
-  // Force fresh query by ordering by updated_at DESC and using maybeSingle()
-  // This ensures we get the most recently updated record
-  // First get all records to check if there are multiple
-  const { data: allData, error: allError } = await supabase
-    .from("call_attempts")
-    .select("*")
-    .eq("lookup_id", lookupId)
-    .order("updated_at", { ascending: false })
-    .limit(5); // Get up to 5 records to check for duplicates
-
-  if (allError) {
-    console.error("Failed to fetch call attempts", allError);
-    return null;
-  }
-
-  // Always log multiple attempts in production for debugging
-  if (allData && allData.length > 1) {
-    console.log("⚠️ Multiple call attempts found", {
-      lookupId,
-      count: allData.length,
-      records: allData.map((r: CallAttemptRecord) => ({
-        id: r.id,
-        status: r.status,
-        elevenlabs_status: r.elevenlabs_status,
-        updated_at: r.updated_at
-      }))
-    });
-  }
-
-  // Get the most recent one using maybeSingle() with ordering
-  // Force fresh query by adding a small delay if needed (handled by caller)
   const { data, error } = await supabase
     .from("call_attempts")
     .select("*")
     .eq("lookup_id", lookupId)
-    .order("updated_at", { ascending: false }) // Order by updated_at to get most recent
+    .order("updated_at", { ascending: false })
+    .limit(1)
     .maybeSingle();
 
   if (error) {
@@ -179,23 +181,7 @@ export async function getLatestCallAttempt(lookupId: string) {
     return null;
   }
 
-  const result = data as CallAttemptRecord | null;
-  
-  // Always log in production for debugging
-  console.log("🔍 getLatestCallAttempt", {
-    lookupId,
-    found: !!result,
-    status: result?.status,
-    elevenlabs_status: result?.elevenlabs_status,
-    hasSummary: !!result?.summary,
-    hasTranscript: !!result?.transcript,
-    updated_at: result?.updated_at,
-    totalRecords: allData?.length ?? 0,
-    allRecordsUpdatedAt: allData?.map((r: CallAttemptRecord) => r.updated_at) ?? []
-  });
-
-  // Return first result or null
-  return result;
+  return data as CallAttemptRecord | null;
 }
 
 export async function getCallAttemptByConversationId(conversationId: string) {
@@ -226,7 +212,9 @@ export async function updateCallAttemptByLookupId({
   transcript,
   summary,
   confidence,
-  endedAt
+  endedAt,
+  durationSeconds,
+  billedCost
 }: UpdateCallAttemptInput & { lookupId: string }) {
   const supabase = getSupabaseAdminClient();
   const IS_DEV = process.env.NODE_ENV !== "production";
@@ -244,6 +232,8 @@ export async function updateCallAttemptByLookupId({
   if (endedAt !== undefined) updates.ended_at = endedAt
     ? new Date(endedAt).toISOString()
     : null;
+  if (durationSeconds !== undefined) updates.duration_seconds = durationSeconds;
+  if (billedCost !== undefined) updates.billed_cost = billedCost;
 
   // Note: updated_at is automatically updated by database trigger, so we don't need to set it manually
   // But we need at least one field to update, otherwise the update won't trigger the updated_at update
@@ -265,6 +255,16 @@ export async function updateCallAttemptByLookupId({
     return null;
   }
   
+  if (status !== undefined && !canTransitionCall(latestAttempt.status, status)) {
+    console.log("⏪ Skipping call attempt update that would move it backwards:", {
+      lookupId,
+      attemptId: latestAttempt.id,
+      currentStatus: latestAttempt.status,
+      status
+    });
+    return null;
+  }
+
   // Always log in production for debugging
   console.log("🔧 Updating call attempt by lookupId:", {
     lookupId,
@@ -274,12 +274,12 @@ export async function updateCallAttemptByLookupId({
     updates
   });
   
-  const { data, error } = await supabase
-    .from("call_attempts")
-    .update(updates)
-    .eq("id", latestAttempt.id)
-    .select("*")
-    .maybeSingle();
+  let query = supabase.from("call_attempts").update(updates).eq("id", latestAttempt.id);
+  if (status !== undefined) {
+    query = query.in("status", getCallStatesLeadingTo(status));
+  }
+
+  const { data, error } = await query.select("*").maybeSingle();
 
   if (error) {
     console.error("❌ Failed to update call attempt by lookup ID:", {
@@ -313,7 +313,111 @@ export async function updateCallAttemptByLookupId({
   }
 
   // Invalidate cache after successful update
-  invalidateCache(lookupId);
+  await invalidateCache(lookupId);
+  publishLookupChange(lookupId);
+
+  return data as CallAttemptRecord | null;
+}
+
+export async function updateCallAttemptById(
+  attemptId: string,
+  updates: {
+    status?: CallState;
+    conversationId?: string | null;
+    elevenLabsStatus?: string | null;
+    errorMessage?: string | null;
+    payload?: Record<string, unknown> | null;
+  }
+) {
+  const supabase = getSupabaseAdminClient();
+
+  const values: Record<string, unknown> = {};
+  if (updates.status !== undefined) values.status = updates.status;
+  if (updates.conversationId !== undefined) values.elevenlabs_conversation_id = updates.conversationId;
+  if (updates.elevenLabsStatus !== undefined) values.elevenlabs_status = updates.elevenLabsStatus;
+  if (updates.errorMessage !== undefined) values.error_message = updates.errorMessage;
+  if (updates.payload !== undefined) values.payload = updates.payload;
+
+  let query = supabase.from("call_attempts").update(values).eq("id", attemptId);
+  if (updates.status !== undefined) {
+    query = query.in("status", getCallStatesLeadingTo(updates.status));
+  }
+
+  const { data, error } = await query.select("*").maybeSingle();
+
+  if (error) {
+    console.error("Failed to update call attempt by id", error);
+    return null;
+  }
+
+  const record = data as CallAttemptRecord | null;
+  if (record) {
+    await invalidateCache(record.lookup_id);
+    publishLookupChange(record.lookup_id);
+  }
+
+  return record;
+}
+
+/**
+ * Retry attempts whose scheduled time has passed, oldest first.
+ */
+export async function listDueRetryAttempts(limit = 10, now = new Date()) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase
+    .from("call_attempts")
+    .select("*")
+    .eq("status", "retry_scheduled")
+    .lte("scheduled_for", now.toISOString())
+    .order("scheduled_for", { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error("Failed to list due retry attempts", error);
+    return [];
+  }
+
+  return (data ?? []) as CallAttemptRecord[];
+}
+
+/**
+ * Atomically move a retry from `retry_scheduled` to `dialing`.
+ * Returns null when another worker (cron or status poll) already claimed it.
+ */
+export async function claimRetryAttempt(attemptId: string) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase
+    .from("call_attempts")
+    .update({ status: "dialing" })
+    .eq("id", attemptId)
+    .eq("status", "retry_scheduled")
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to claim retry attempt", error);
+    return null;
+  }
+
+  return data as CallAttemptRecord | null;
+}
+
+export async function getRetryForAttempt(attemptId: string) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase
+    .from("call_attempts")
+    .select("*")
+    .eq("retry_of", attemptId)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to fetch retry for attempt", error);
+    return null;
+  }
 
   return data as CallAttemptRecord | null;
 }
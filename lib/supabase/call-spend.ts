@@ -0,0 +1,37 @@
+import { getSupabaseAdminClient } from "@/lib/supabase/admin";
+import type { CallSpendRecord } from "@/lib/supabase/types";
+
+const EMPTY_SPEND: CallSpendRecord = { billed_calls: 0, long_calls: 0, duration_seconds: 0, billed_cost: 0 };
+
+/**
+ * Spend for the UTC day and month of `now`, from the aggregates the `record_call_spend` trigger keeps.
+ * Throws on database errors so budget checks fail closed.
+ */
+export async function getCallSpend(now = new Date()) {
+  const supabase = getSupabaseAdminClient();
+  const day = now.toISOString().slice(0, 10);
+  const month = `${day.slice(0, 7)}-01`;
+
+  const [daily, monthly] = await Promise.all([
+    supabase
+      .from("call_spend_daily")
+      .select("billed_calls, long_calls, duration_seconds, billed_cost")
+      .eq("day", day)
+      .maybeSingle(),
+    supabase
+      .from("call_spend_monthly")
+      .select("billed_calls, long_calls, duration_seconds, billed_cost")
+      .eq("month", month)
+      .maybeSingle()
+  ]);
+
+  const error = daily.error ?? monthly.error;
+  if (error) {
+    throw new Error(`Supabase getCallSpend failed: ${error.message ?? "unknown error"} [code=${error.code ?? "n/a"}]`);
+  }
+
+  return {
+    day: { ...EMPTY_SPEND, ...(daily.data as CallSpendRecord | null) },
+    month: { ...EMPTY_SPEND, ...(monthly.data as CallSpendRecord | null) }
+  };
+}
@@ -1,33 +1,52 @@
+import type { LookupStatus } from "@/lib/call-state";
 import { getSupabaseAdminClient } from "@/lib/supabase/admin";
+import type { LookupSummary } from "@/lib/lookup-status";
 import {
-  type LookupStatus,
+  type CallAttemptRecord,
   type PhoneProfileRecord,
   type ProfileCallOutcome,
+  type ProfileChangeSource,
   type DataSource,
   mapProfileRecord
 } from "@/lib/supabase/types";
 import { invalidateCache } from "@/lib/cache/status-cache";
+import { publishLookupChange } from "@/lib/lookup-events";
+import { getNumberIntelligence } from "@/lib/number-intelligence";
+import { recordProfileVersion } from "@/lib/supabase/profile-versions";
+import { filterSuppressedNumbers } from "@/lib/supabase/suppressions";
 
-export async function fetchProfileRecordByNumber(normalized: string) {
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * The visible profile of a number, or null when it has none. Throws when Supabase cannot answer.
+ */
+export async function readProfileRecordByNumber(normalized: string) {
   const supabase = getSupabaseAdminClient();
 
   const { data, error } = await supabase
     .from("phone_profiles")
     .select("*")
     .eq("normalized", normalized)
+    .is("hidden_at", null)
     .limit(1)
     .maybeSingle();
 
   if (error) {
-    console.error("Failed to fetch phone profile", error);
-    return null;
+    throw new Error(
+      `Supabase readProfileRecordByNumber failed: ${error.message ?? "unknown error"} [code=${error.code ?? "n/a"}]`
+    );
   }
 
-  if (!data) {
+  return (data as PhoneProfileRecord | null) ?? null;
+}
+
+export async function fetchProfileRecordByNumber(normalized: string) {
+  try {
+    return await readProfileRecordByNumber(normalized);
+  } catch (error) {
+    console.error("Failed to fetch phone profile", error);
     return null;
   }
-
-  return data as PhoneProfileRecord;
 }
 
 export async function getProfileById(profileId: string) {
@@ -58,11 +77,13 @@ export async function fetchProfileByNumber(normalized: string) {
 export async function listRecentProfiles(limit = 3) {
   const supabase = getSupabaseAdminClient();
 
+  // Over-fetch so suppressed numbers can be dropped without returning fewer cards.
   const { data, error } = await supabase
     .from("phone_profiles")
     .select("*")
+    .is("hidden_at", null)
     .order("updated_at", { ascending: false })
-    .limit(limit);
+    .limit(limit * 3);
 
   if (error) {
     console.error("Failed to list recent profiles", error);
@@ -73,7 +94,13 @@ export async function listRecentProfiles(limit = 3) {
     return [];
   }
 
-  return (data as PhoneProfileRecord[]).map(mapProfileRecord);
+  const records = data as PhoneProfileRecord[];
+  const suppressed = await filterSuppressedNumbers(records.map((record) => record.normalized));
+
+  return records
+    .filter((record) => !suppressed.has(record.normalized))
+    .slice(0, limit)
+    .map(mapProfileRecord);
 }
 
 export async function fetchProfileWithRecord(normalized: string) {
@@ -141,7 +168,8 @@ export async function updateLookupStatus(
     console.error("Failed to update lookup status", error);
   } else {
     // Invalidate cache after successful update
-    invalidateCache(lookupId);
+    await invalidateCache(lookupId);
+    publishLookupChange(lookupId);
     
     if (IS_DEV) {
       console.log("✅ Lookup status updated", {
@@ -159,7 +187,7 @@ export async function getLookupById(lookupId: string) {
 
   const { data, error } = await supabase
     .from("phone_lookups")
-    .select("id, normalized, profile_id, status")
+    .select("id, normalized, profile_id, status, version")
     .eq("id", lookupId)
     .maybeSingle();
 
@@ -176,7 +204,116 @@ export async function getLookupById(lookupId: string) {
     });
   }
 
-  return data as { id: string; normalized: string; profile_id: string | null; status: string | null } | null;
+  return data as LookupSummary | null;
+}
+
+/**
+ * Only the version of a lookup: a cheap check whether anything the status endpoint returns
+ * changed. Null when the lookup does not exist or could not be read.
+ */
+export async function getLookupVersion(lookupId: string) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase.from("phone_lookups").select("version").eq("id", lookupId).maybeSingle();
+
+  if (error) {
+    console.error("Failed to fetch lookup version", error);
+    return null;
+  }
+
+  return (data as { version: number } | null)?.version ?? null;
+}
+
+/**
+ * The lookup with its latest call attempt, read in a single query so both come from the same
+ * snapshot. Compare `lookup.version` with what the client saw instead of retrying reads.
+ */
+export async function getLookupWithLatestAttempt(lookupId: string) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase
+    .from("phone_lookups")
+    .select("id, normalized, profile_id, status, version, call_attempts(*)")
+    .eq("id", lookupId)
+    .order("updated_at", { referencedTable: "call_attempts", ascending: false })
+    .limit(1, { referencedTable: "call_attempts" })
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to fetch lookup with latest attempt", error);
+    return null;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  const { call_attempts: attempts, ...lookup } = data as LookupSummary & { call_attempts: CallAttemptRecord[] };
+  return { lookup, attempt: attempts[0] ?? null };
+}
+
+/**
+ * The lookup with a call in progress for this number (at most one, see the
+ * `phone_lookups_active_number_idx` index), with its latest attempt.
+ */
+export async function getActiveLookupByNormalized(normalized: string) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase
+    .from("phone_lookups")
+    .select("id, normalized, profile_id, status, version, created_at, call_attempts(*)")
+    .eq("normalized", normalized)
+    .eq("status", "calling")
+    .order("updated_at", { referencedTable: "call_attempts", ascending: false })
+    .limit(1, { referencedTable: "call_attempts" })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to fetch active lookup by normalized", error);
+    return null;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  const { call_attempts: attempts, ...lookup } = data as LookupSummary & {
+    created_at: string;
+    call_attempts: CallAttemptRecord[];
+  };
+  return { lookup, attempt: attempts[0] ?? null };
+}
+
+/**
+ * Record a lookup that is about to place a call. Returns null when another lookup for the number
+ * already has a call in progress; the unique index makes this hold across concurrent requests.
+ */
+export async function claimActiveLookup(params: { normalized: string; rawInput: string }) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase
+    .from("phone_lookups")
+    .insert({
+      normalized: params.normalized,
+      raw_input: params.rawInput,
+      status: "calling"
+    })
+    .select("id")
+    .maybeSingle();
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    return null;
+  }
+
+  if (error) {
+    console.error("Failed to claim active lookup", error);
+    throw new Error(
+      `Supabase claimActiveLookup failed: ${error.message ?? "unknown error"} [code=${error.code ?? "n/a"}]`
+    );
+  }
+
+  return (data as { id: string } | null)?.id ?? null;
 }
 
 export async function getLatestLookupByNormalized(normalized: string) {
@@ -195,7 +332,38 @@ export async function getLatestLookupByNormalized(normalized: string) {
     return null;
   }
 
-  return data as { id: string; normalized: string; profile_id: string | null; status: string; created_at: string } | null;
+  return data as { id: string; normalized: string; profile_id: string | null; status: LookupStatus; created_at: string } | null;
+}
+
+// Must match the window of bump_lookup_versions_from_profile (migration 20251107120000)
+const PROFILE_LOOKUPS_TO_NOTIFY = 20;
+
+/**
+ * Drop cached status responses of the number's 20 newest lookups and wake their open streams after
+ * a profile write. The database bumped the versions of the same lookups
+ * (bump_lookup_versions_on_profile); older lookups are neither bumped nor notified.
+ */
+export async function notifyProfileLookups(normalized: string) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase
+    .from("phone_lookups")
+    .select("id")
+    .eq("normalized", normalized)
+    .order("created_at", { ascending: false })
+    .limit(PROFILE_LOOKUPS_TO_NOTIFY);
+
+  if (error) {
+    console.error("Failed to fetch lookups of changed profile", error);
+    return;
+  }
+
+  await Promise.all(
+    ((data ?? []) as Array<{ id: string }>).map(async ({ id }) => {
+      await invalidateCache(id);
+      publishLookupChange(id);
+    })
+  );
 }
 
 export interface UpsertProfileInput {
@@ -205,33 +373,61 @@ export interface UpsertProfileInput {
   transcriptPreview?: string | null;
   lastChecked?: string | Date | null;
   confidence?: number | null;
+  callConfidence?: number | null;
   callOutcome?: ProfileCallOutcome;
   tags?: string[] | null;
   aka?: string[] | null;
-  reportsConfirmed?: number | null;
-  reportsDisputed?: number | null;
   nameSource?: DataSource | null;
   entityTypeSource?: DataSource | null;
   elevenlabsRawResponse?: Record<string, unknown> | null;
 }
 
-export async function upsertPhoneProfile(input: UpsertProfileInput) {
+/** What caused a profile write; stored with the version it creates. */
+export interface ProfileChange {
+  source: ProfileChangeSource;
+  /** Call attempt id for calls, the admin for manual edits. */
+  sourceRef?: string | null;
+}
+
+/**
+ * Create or replace the profile of a number and add the result to its version history.
+ * Returns null when the profile could not be stored; throws when the version could not be recorded.
+ */
+export async function upsertPhoneProfile(input: UpsertProfileInput, change: ProfileChange) {
   const supabase = getSupabaseAdminClient();
 
   const upsertData: Record<string, unknown> = {
     normalized: input.normalized,
     caller_name: input.callerName,
-    summary: input.summary ?? null,
-    transcript_preview: input.transcriptPreview ?? null,
-    last_checked: input.lastChecked ? new Date(input.lastChecked).toISOString() : new Date().toISOString(),
-    confidence: input.confidence ?? null,
-    call_outcome: input.callOutcome ?? "pending",
-    tags: input.tags ?? [],
-    aka: input.aka ?? [],
-    reports_confirmed: input.reportsConfirmed ?? 0,
-    reports_disputed: input.reportsDisputed ?? 0
+    last_checked: input.lastChecked ? new Date(input.lastChecked).toISOString() : new Date().toISOString()
   };
 
+  // Fields left undefined keep their stored value (or the column default for a new profile), so
+  // callers pass merged aliases and tags (see mergeProfileUpdate) instead of resetting them.
+  // Vote counters are owned by phone_profile_reports (see recountProfileReports) and never written here,
+  // so a new call does not wipe existing confirmations.
+  if (input.summary !== undefined) {
+    upsertData.summary = input.summary;
+  }
+  if (input.transcriptPreview !== undefined) {
+    upsertData.transcript_preview = input.transcriptPreview;
+  }
+  if (input.confidence !== undefined) {
+    upsertData.confidence = input.confidence;
+  }
+  if (input.callOutcome !== undefined) {
+    upsertData.call_outcome = input.callOutcome;
+  }
+  if (input.tags !== undefined && input.tags !== null) {
+    upsertData.tags = input.tags;
+  }
+  if (input.aka !== undefined && input.aka !== null) {
+    upsertData.aka = input.aka;
+  }
+  if (input.callConfidence !== undefined) {
+    upsertData.call_confidence = input.callConfidence;
+  }
+
   // Only include new fields if they are provided (to handle cases where migration hasn't run yet)
   if (input.nameSource !== undefined) {
     upsertData.name_source = input.nameSource;
@@ -243,6 +439,13 @@ export async function upsertPhoneProfile(input: UpsertProfileInput) {
     upsertData.elevenlabs_raw_response = input.elevenlabsRawResponse;
   }
 
+  // Derived from the number alone, so every write also picks up newer libphonenumber metadata
+  const numberInfo = await getNumberIntelligence(input.normalized);
+  upsertData.number_type = numberInfo.type;
+  upsertData.region_code = numberInfo.regionCode;
+  upsertData.geo_area = numberInfo.area;
+  upsertData.time_zone = numberInfo.timeZone;
+
   const { data, error } = await supabase
     .from("phone_profiles")
     .upsert(upsertData, { onConflict: "normalized", ignoreDuplicates: false })
@@ -261,5 +464,86 @@ export async function upsertPhoneProfile(input: UpsertProfileInput) {
     return null;
   }
 
-  return (data as { id: string } | null)?.id ?? null;
+  const profileId = (data as { id: string } | null)?.id ?? null;
+  if (profileId) {
+    await recordProfileVersion(profileId, change.source, change.sourceRef ?? null);
+    await notifyProfileLookups(input.normalized);
+  }
+
+  return profileId;
+}
+
+export interface ProfileEdit {
+  callerName?: string;
+  summary?: string | null;
+  tags?: string[];
+  aka?: string[];
+}
+
+/**
+ * Correct a profile by hand. Only the given fields change; the edit is added to the version history.
+ * Returns the updated profile, or null when the number has no visible profile.
+ */
+export async function editPhoneProfile(normalized: string, edit: ProfileEdit, editor: string) {
+  const supabase = getSupabaseAdminClient();
+
+  const updates: Record<string, unknown> = {};
+  if (edit.callerName !== undefined) {
+    updates.caller_name = edit.callerName;
+  }
+  if (edit.summary !== undefined) {
+    updates.summary = edit.summary;
+  }
+  if (edit.tags !== undefined) {
+    updates.tags = edit.tags;
+  }
+  if (edit.aka !== undefined) {
+    updates.aka = edit.aka;
+  }
+
+  const { data, error } = await supabase
+    .from("phone_profiles")
+    .update(updates)
+    .eq("normalized", normalized)
+    .is("hidden_at", null)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to edit phone profile", error);
+    throw new Error(
+      `Supabase editPhoneProfile failed: ${error.message ?? "unknown error"} [code=${error.code ?? "n/a"}]`
+    );
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  const record = data as PhoneProfileRecord;
+  await recordProfileVersion(record.id, "manual_edit", editor);
+  await notifyProfileLookups(normalized);
+  return record;
+}
+
+/**
+ * Hide a profile after a verified removal request. The row is kept but never served publicly.
+ */
+export async function hidePhoneProfile(normalized: string) {
+  const supabase = getSupabaseAdminClient();
+
+  const { error } = await supabase
+    .from("phone_profiles")
+    .update({ hidden_at: new Date().toISOString() })
+    .eq("normalized", normalized)
+    .is("hidden_at", null);
+
+  if (error) {
+    console.error("Failed to hide phone profile", error);
+    throw new Error(
+      `Supabase hidePhoneProfile failed: ${error.message ?? "unknown error"} [code=${error.code ?? "n/a"}]`
+    );
+  }
+
+  await notifyProfileLookups(normalized);
 }
@@ -0,0 +1,53 @@
+import { getSupabaseAdminClient } from "@/lib/supabase/admin";
+import type { PhoneProfileVersionRecord, ProfileChangeSource } from "@/lib/supabase/types";
+
+/**
+ * Store the profile as it is now as its next version (see `record_profile_version`).
+ * Returns the new version number, or null when nothing tracked changed since the latest one.
+ */
+export async function recordProfileVersion(
+  profileId: string,
+  source: ProfileChangeSource,
+  sourceRef: string | null = null
+) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase.rpc("record_profile_version", {
+    p_profile_id: profileId,
+    p_source: source,
+    p_source_ref: sourceRef
+  });
+
+  if (error) {
+    console.error("Failed to record profile version", error);
+    throw new Error(
+      `Supabase recordProfileVersion failed: ${error.message ?? "unknown error"} [code=${error.code ?? "n/a"}]`
+    );
+  }
+
+  return (data as number | null) ?? null;
+}
+
+/**
+ * All versions of a profile, newest first. Throws on database errors, so the profile page never
+ * caches an empty history (see getPublicProfile).
+ */
+export async function listProfileVersions(profileId: string, limit = 50) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase
+    .from("phone_profile_versions")
+    .select("*")
+    .eq("profile_id", profileId)
+    .order("version", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("Failed to list profile versions", error);
+    throw new Error(
+      `Supabase listProfileVersions failed: ${error.message ?? "unknown error"} [code=${error.code ?? "n/a"}]`
+    );
+  }
+
+  return (data ?? []) as PhoneProfileVersionRecord[];
+}
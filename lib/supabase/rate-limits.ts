@@ -0,0 +1,40 @@
+import { getSupabaseAdminClient } from "@/lib/supabase/admin";
+
+export interface RateLimitCheck {
+  scope: string;
+  key: string;
+  limit: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitHit {
+  scope: string;
+  retryAt: string;
+}
+
+/**
+ * Count one request in every window, or in none when one of them is full.
+ * Returns the full windows; an empty list means the request is allowed.
+ */
+export async function consumeRateLimits(checks: RateLimitCheck[]) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase.rpc("consume_rate_limits", {
+    checks: checks.map((check) => ({
+      scope: check.scope,
+      key: check.key,
+      limit: check.limit,
+      window_seconds: check.windowSeconds
+    }))
+  });
+
+  if (error) {
+    throw new Error(
+      `Supabase consumeRateLimits failed: ${error.message ?? "unknown error"} [code=${error.code ?? "n/a"}]`
+    );
+  }
+
+  return ((data ?? []) as Array<{ limited_scope: string; retry_at: string }>).map(
+    (row): RateLimitHit => ({ scope: row.limited_scope, retryAt: row.retry_at })
+  );
+}
@@ -0,0 +1,150 @@
+import { computeCrowdConfidence } from "@/lib/reports";
+import { getSupabaseAdminClient } from "@/lib/supabase/admin";
+import { notifyProfileLookups } from "@/lib/supabase/lookups";
+import { recordProfileVersion } from "@/lib/supabase/profile-versions";
+import type {
+  ConfirmationStatsRecord,
+  PhoneProfileRecord,
+  ProfileReportRecord,
+  ProfileVote
+} from "@/lib/supabase/types";
+
+export async function getVisitorReport(profileId: string, visitorHash: string) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase
+    .from("phone_profile_reports")
+    .select("*")
+    .eq("profile_id", profileId)
+    .eq("visitor_hash", visitorHash)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to fetch visitor report", error);
+    return null;
+  }
+
+  return data as ProfileReportRecord | null;
+}
+
+/**
+ * Number of distinct votes for a profile from one IP bucket since the given moment.
+ */
+export async function countRecentReportsFromIpBucket(profileId: string, ipBucket: string, since: Date) {
+  const supabase = getSupabaseAdminClient();
+
+  const { count, error } = await supabase
+    .from("phone_profile_reports")
+    .select("id", { count: "exact", head: true })
+    .eq("profile_id", profileId)
+    .eq("ip_bucket", ipBucket)
+    .gte("created_at", since.toISOString());
+
+  if (error) {
+    console.error("Failed to count recent reports", error);
+    return null;
+  }
+
+  return count ?? 0;
+}
+
+export async function upsertProfileReport(params: {
+  profileId: string;
+  normalized: string;
+  vote: ProfileVote;
+  reason: string;
+  note?: string | null;
+  visitorHash: string;
+  ipBucket: string;
+}) {
+  const supabase = getSupabaseAdminClient();
+
+  const { error } = await supabase.from("phone_profile_reports").upsert(
+    {
+      profile_id: params.profileId,
+      normalized: params.normalized,
+      vote: params.vote,
+      reason: params.reason,
+      note: params.note ?? null,
+      visitor_hash: params.visitorHash,
+      ip_bucket: params.ipBucket
+    },
+    { onConflict: "profile_id,visitor_hash", ignoreDuplicates: false }
+  );
+
+  if (error) {
+    console.error("Failed to upsert profile report", error);
+    throw new Error(
+      `Supabase upsertProfileReport failed: ${error.message ?? "unknown error"} [code=${error.code ?? "n/a"}]`
+    );
+  }
+}
+
+async function countVotes(profileId: string, vote: ProfileVote) {
+  const supabase = getSupabaseAdminClient();
+
+  const { count, error } = await supabase
+    .from("phone_profile_reports")
+    .select("id", { count: "exact", head: true })
+    .eq("profile_id", profileId)
+    .eq("vote", vote);
+
+  if (error) {
+    throw new Error(
+      `Supabase countVotes failed: ${error.message ?? "unknown error"} [code=${error.code ?? "n/a"}]`
+    );
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * Recount votes from `phone_profile_reports` and store the counters and blended confidence.
+ * Counting from the source table keeps the counters correct when a visitor changes their vote.
+ */
+export async function recountProfileReports(profile: Pick<PhoneProfileRecord, "id" | "normalized" | "call_confidence" | "confidence">) {
+  const supabase = getSupabaseAdminClient();
+
+  const [confirmed, disputed] = await Promise.all([
+    countVotes(profile.id, "confirm"),
+    countVotes(profile.id, "dispute")
+  ]);
+  const confidence = computeCrowdConfidence(profile.call_confidence ?? profile.confidence, confirmed, disputed);
+
+  const { error } = await supabase
+    .from("phone_profiles")
+    .update({
+      reports_confirmed: confirmed,
+      reports_disputed: disputed,
+      confidence
+    })
+    .eq("id", profile.id);
+
+  if (error) {
+    console.error("Failed to store recounted reports", error);
+    throw new Error(
+      `Supabase recountProfileReports failed: ${error.message ?? "unknown error"} [code=${error.code ?? "n/a"}]`
+    );
+  }
+
+  await recordProfileVersion(profile.id, "crowd_report");
+  await notifyProfileLookups(profile.normalized);
+
+  return { confirmed, disputed, confidence };
+}
+
+export async function getConfirmationStats() {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase
+    .from("phone_profile_confirmation_stats")
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to fetch confirmation stats", error);
+    return null;
+  }
+
+  return data as ConfirmationStatsRecord | null;
+}
@@ -0,0 +1,106 @@
+import { getSupabaseAdminClient } from "@/lib/supabase/admin";
+import type { RevalidationJobRecord } from "@/lib/supabase/types";
+
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Queue a path for revalidation. A path that is already pending keeps its job, so bursts of
+ * changes revalidate once. Throws on database errors.
+ */
+export async function enqueueRevalidation(path: string, reason: string) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase
+    .from("revalidation_jobs")
+    .insert({ path, reason })
+    .select("*")
+    .maybeSingle();
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    const { data: pending, error: pendingError } = await supabase
+      .from("revalidation_jobs")
+      .select("*")
+      .eq("path", path)
+      .eq("status", "pending")
+      .maybeSingle();
+
+    if (!pendingError && pending) {
+      return pending as RevalidationJobRecord;
+    }
+  }
+
+  if (error) {
+    console.error("Failed to enqueue revalidation", error);
+    throw new Error(
+      `Supabase enqueueRevalidation failed: ${error.message ?? "unknown error"} [code=${error.code ?? "n/a"}]`
+    );
+  }
+
+  return data as RevalidationJobRecord;
+}
+
+export async function listDueRevalidationJobs(limit = 20, now = new Date()) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase
+    .from("revalidation_jobs")
+    .select("*")
+    .eq("status", "pending")
+    .lte("next_attempt_at", now.toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error("Failed to list due revalidation jobs", error);
+    return [];
+  }
+
+  return (data ?? []) as RevalidationJobRecord[];
+}
+
+export async function completeRevalidationJob(job: RevalidationJobRecord) {
+  const supabase = getSupabaseAdminClient();
+
+  const { error } = await supabase
+    .from("revalidation_jobs")
+    .update({
+      status: "done",
+      attempts: job.attempts + 1,
+      last_error: null,
+      completed_at: new Date().toISOString()
+    })
+    .eq("id", job.id)
+    .eq("status", "pending");
+
+  if (error) {
+    console.error("Failed to complete revalidation job", error);
+    throw new Error(
+      `Supabase completeRevalidationJob failed: ${error.message ?? "unknown error"} [code=${error.code ?? "n/a"}]`
+    );
+  }
+}
+
+/**
+ * Record a failed attempt. The job is retried at `nextAttemptAt`, or marked failed when it is null.
+ */
+export async function failRevalidationJob(job: RevalidationJobRecord, errorMessage: string, nextAttemptAt: Date | null) {
+  const supabase = getSupabaseAdminClient();
+
+  const { error } = await supabase
+    .from("revalidation_jobs")
+    .update({
+      status: nextAttemptAt ? "pending" : "failed",
+      attempts: job.attempts + 1,
+      last_error: errorMessage,
+      ...(nextAttemptAt ? { next_attempt_at: nextAttemptAt.toISOString() } : {})
+    })
+    .eq("id", job.id)
+    .eq("status", "pending");
+
+  if (error) {
+    console.error("Failed to record revalidation failure", error);
+    throw new Error(
+      `Supabase failRevalidationJob failed: ${error.message ?? "unknown error"} [code=${error.code ?? "n/a"}]`
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { getSupabaseAdminClient } from "@/lib/supabase/admin";
+
+export interface SitemapPage {
+  page: number;
+  firstNormalized: string;
+  profiles: number;
+  lastModified: string;
+}
+
+export interface SitemapProfile {
+  normalized: string;
+  updated_at: string;
+}
+
+/**
+ * Page boundaries over `sitemap_phone_profiles` (see `sitemap_profile_pages`).
+ * Throws on database errors, so crawlers get an error instead of an empty sitemap.
+ */
+export async function listSitemapPages(pageSize: number, minConfidence: number) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase.rpc("sitemap_profile_pages", {
+    page_size: pageSize,
+    min_confidence: minConfidence
+  });
+
+  if (error) {
+    throw new Error(
+      `Supabase listSitemapPages failed: ${error.message ?? "unknown error"} [code=${error.code ?? "n/a"}]`
+    );
+  }
+
+  return (
+    (data ?? []) as Array<{ page: number; first_normalized: string; profiles: number; last_modified: string }>
+  ).map(
+    (row): SitemapPage => ({
+      page: row.page,
+      firstNormalized: row.first_normalized,
+      profiles: row.profiles,
+      lastModified: row.last_modified
+    })
+  );
+}
+
+/**
+ * First number of one sitemap page (see `sitemap_profile_page_start`), or null when the page does
+ * not exist. Throws on database errors.
+ */
+export async function getSitemapPageStart(page: number, pageSize: number, minConfidence: number) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase.rpc("sitemap_profile_page_start", {
+    page,
+    page_size: pageSize,
+    min_confidence: minConfidence
+  });
+
+  if (error) {
+    throw new Error(
+      `Supabase getSitemapPageStart failed: ${error.message ?? "unknown error"} [code=${error.code ?? "n/a"}]`
+    );
+  }
+
+  return typeof data === "string" ? data : null;
+}
+
+// PostgREST returns at most 1000 rows per request by default
+const BATCH_SIZE = 1000;
+
+/**
+ * One sitemap page: up to `pageSize` profiles in number order from `firstNormalized` on, read in
+ * batches that each continue after the last number of the previous one. Throws on database errors.
+ */
+export async function listSitemapProfiles(firstNormalized: string, pageSize: number, minConfidence: number) {
+  const supabase = getSupabaseAdminClient();
+  const profiles: SitemapProfile[] = [];
+
+  while (profiles.length < pageSize) {
+    const last = profiles[profiles.length - 1];
+    let query = supabase
+      .from("sitemap_phone_profiles")
+      .select("normalized, updated_at")
+      .gte("confidence", minConfidence);
+    query = last ? query.gt("normalized", last.normalized) : query.gte("normalized", firstNormalized);
+
+    const { data, error } = await query
+      .order("normalized", { ascending: true })
+      .limit(Math.min(BATCH_SIZE, pageSize - profiles.length));
+
+    if (error) {
+      throw new Error(
+        `Supabase listSitemapProfiles failed: ${error.message ?? "unknown error"} [code=${error.code ?? "n/a"}]`
+      );
+    }
+
+    const batch = (data ?? []) as SitemapProfile[];
+    profiles.push(...batch);
+    if (batch.length < BATCH_SIZE) {
+      break;
+    }
+  }
+
+  return profiles;
+}
@@ -0,0 +1,391 @@
+import { getSupabaseAdminClient } from "@/lib/supabase/admin";
+import { hidePhoneProfile } from "@/lib/supabase/lookups";
+import type {
+  NumberSuppressionRecord,
+  RemovalRequestRecord,
+  RemovalRequestStatus,
+  SuppressionSource,
+  VerificationMethod
+} from "@/lib/supabase/types";
+
+/** Methods where the code reaches the number itself, so a valid code proves ownership. */
+const PHONE_VERIFICATION_METHODS: VerificationMethod[] = ["sms", "voice"];
+
+/**
+ * Check whether a number is on the opt-out list. Throws when Supabase cannot answer, for callers
+ * that must not guess, like the profile page (see getPublicProfile).
+ */
+export async function readNumberSuppression(normalized: string) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase
+    .from("number_suppressions")
+    .select("id")
+    .eq("normalized", normalized)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(
+      `Supabase readNumberSuppression failed: ${error.message ?? "unknown error"} [code=${error.code ?? "n/a"}]`
+    );
+  }
+
+  return Boolean(data);
+}
+
+/**
+ * Check whether a number is on the opt-out list.
+ * Fails closed: when Supabase cannot answer we treat the number as suppressed,
+ * so an outage never results in dialing or publishing a number that asked to be removed.
+ */
+export async function isNumberSuppressed(normalized: string) {
+  try {
+    return await readNumberSuppression(normalized);
+  } catch (error) {
+    console.error("Failed to check number suppression", error);
+    return true;
+  }
+}
+
+/**
+ * Return the subset of the given numbers that are suppressed.
+ */
+export async function filterSuppressedNumbers(normalizedNumbers: string[]) {
+  if (normalizedNumbers.length === 0) {
+    return new Set<string>();
+  }
+
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase
+    .from("number_suppressions")
+    .select("normalized")
+    .in("normalized", normalizedNumbers);
+
+  if (error) {
+    console.error("Failed to filter suppressed numbers", error);
+    // Fail closed, see isNumberSuppressed.
+    return new Set(normalizedNumbers);
+  }
+
+  return new Set((data as Array<{ normalized: string }>).map((row) => row.normalized));
+}
+
+export async function listSuppressions(limit = 100) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase
+    .from("number_suppressions")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("Failed to list suppressions", error);
+    return [];
+  }
+
+  return (data ?? []) as NumberSuppressionRecord[];
+}
+
+export async function addSuppression(params: {
+  normalized: string;
+  reason?: string | null;
+  source: SuppressionSource;
+  removalRequestId?: string | null;
+}) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase
+    .from("number_suppressions")
+    .upsert(
+      {
+        normalized: params.normalized,
+        reason: params.reason ?? null,
+        source: params.source,
+        removal_request_id: params.removalRequestId ?? null
+      },
+      { onConflict: "normalized", ignoreDuplicates: false }
+    )
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to add suppression", error);
+    throw new Error(
+      `Supabase addSuppression failed: ${error.message ?? "unknown error"} [code=${error.code ?? "n/a"}]`
+    );
+  }
+
+  return data as NumberSuppressionRecord | null;
+}
+
+export async function removeSuppression(normalized: string) {
+  const supabase = getSupabaseAdminClient();
+
+  const { error, count } = await supabase
+    .from("number_suppressions")
+    .delete({ count: "exact" })
+    .eq("normalized", normalized);
+
+  if (error) {
+    console.error("Failed to remove suppression", error);
+    return false;
+  }
+
+  return (count ?? 0) > 0;
+}
+
+export async function recordRemovalRequest(params: {
+  normalized: string;
+  contactEmail?: string | null;
+  reason?: string | null;
+  verificationMethod?: VerificationMethod | null;
+}) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase
+    .from("removal_requests")
+    .insert({
+      normalized: params.normalized,
+      contact_email: params.contactEmail ?? null,
+      reason: params.reason ?? null,
+      verification_method: params.verificationMethod ?? null
+    })
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to record removal request", error);
+    throw new Error(
+      `Supabase recordRemovalRequest failed: ${error.message ?? "unknown error"} [code=${error.code ?? "n/a"}]`
+    );
+  }
+
+  return (data as { id: string } | null)?.id ?? null;
+}
+
+export async function getRemovalRequestById(requestId: string) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase
+    .from("removal_requests")
+    .select("*")
+    .eq("id", requestId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to fetch removal request", error);
+    return null;
+  }
+
+  return data as RemovalRequestRecord | null;
+}
+
+/**
+ * Store the hash of a freshly sent verification code and reset the attempt counter.
+ */
+export async function setRemovalRequestCode(requestId: string, codeHash: string, expiresAt: Date) {
+  const supabase = getSupabaseAdminClient();
+
+  const { error } = await supabase
+    .from("removal_requests")
+    .update({
+      code_hash: codeHash,
+      code_expires_at: expiresAt.toISOString(),
+      verification_attempts: 0
+    })
+    .eq("id", requestId)
+    .eq("status", "pending");
+
+  if (error) {
+    console.error("Failed to store verification code", error);
+    throw new Error(
+      `Supabase setRemovalRequestCode failed: ${error.message ?? "unknown error"} [code=${error.code ?? "n/a"}]`
+    );
+  }
+}
+
+/**
+ * Void the codes of earlier removal requests for the number that were not confirmed yet, so only
+ * the newest code works. A stranger asking for a code therefore cannot keep the owner from getting
+ * one. Requests already verified by e-mail keep waiting for review.
+ */
+export async function revokeVerificationCodes(normalized: string) {
+  const supabase = getSupabaseAdminClient();
+
+  const { error } = await supabase
+    .from("removal_requests")
+    .update({ code_hash: null, code_expires_at: null })
+    .eq("normalized", normalized)
+    .eq("status", "pending")
+    .is("verified_at", null)
+    .not("code_hash", "is", null);
+
+  if (error) {
+    console.error("Failed to revoke verification codes", error);
+    throw new Error(
+      `Supabase revokeVerificationCodes failed: ${error.message ?? "unknown error"} [code=${error.code ?? "n/a"}]`
+    );
+  }
+}
+
+/**
+ * Count one guess against a request's code before checking it. The increment happens in one
+ * statement, so parallel guesses cannot share an attempt. Returns the attempts used including
+ * this one, or null when `maxAttempts` was already reached.
+ */
+export async function claimVerificationAttempt(requestId: string, maxAttempts: number) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase.rpc("claim_verification_attempt", {
+    p_request_id: requestId,
+    p_max_attempts: maxAttempts
+  });
+
+  if (error) {
+    console.error("Failed to claim verification attempt", error);
+    throw new Error(
+      `Supabase claimVerificationAttempt failed: ${error.message ?? "unknown error"} [code=${error.code ?? "n/a"}]`
+    );
+  }
+
+  return typeof data === "number" ? data : null;
+}
+
+/**
+ * The code sent to the contact e-mail was confirmed. That proves control over the e-mail address,
+ * not over the number, so the request stays pending until an admin resolves it
+ * (see resolveRemovalRequest). Returns null when the request was no longer open.
+ */
+export async function markRemovalRequestVerified(requestId: string) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase
+    .from("removal_requests")
+    .update({
+      verified_at: new Date().toISOString(),
+      code_hash: null,
+      code_expires_at: null
+    })
+    .eq("id", requestId)
+    .eq("status", "pending")
+    .is("verified_at", null)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to mark removal request verified", error);
+    throw new Error(
+      `Supabase markRemovalRequestVerified failed: ${error.message ?? "unknown error"} [code=${error.code ?? "n/a"}]`
+    );
+  }
+
+  return data as RemovalRequestRecord | null;
+}
+
+/**
+ * Owner proved control over the number with a code sent to it by SMS or voice: approve the
+ * request, add the number to the opt-out list and hide any published profile.
+ * Requests verified by e-mail never match; they go through markRemovalRequestVerified.
+ */
+export async function completeVerifiedRemoval(requestId: string) {
+  const supabase = getSupabaseAdminClient();
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from("removal_requests")
+    .update({
+      status: "approved",
+      verified_at: now,
+      resolved_at: now,
+      code_hash: null,
+      code_expires_at: null
+    })
+    .eq("id", requestId)
+    .eq("status", "pending")
+    .in("verification_method", PHONE_VERIFICATION_METHODS)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to complete removal request", error);
+    throw new Error(
+      `Supabase completeVerifiedRemoval failed: ${error.message ?? "unknown error"} [code=${error.code ?? "n/a"}]`
+    );
+  }
+
+  const request = data as RemovalRequestRecord | null;
+  if (!request) {
+    return null;
+  }
+
+  await addSuppression({
+    normalized: request.normalized,
+    reason: request.reason ?? "Verwijderd op verzoek van de eigenaar",
+    source: "owner_request",
+    removalRequestId: request.id
+  });
+  await hidePhoneProfile(request.normalized);
+
+  return request;
+}
+
+export async function listRemovalRequests(status: RemovalRequestStatus = "pending", limit = 100) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase
+    .from("removal_requests")
+    .select("*")
+    .eq("status", status)
+    .order("created_at", { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error("Failed to list removal requests", error);
+    return [];
+  }
+
+  return (data ?? []) as RemovalRequestRecord[];
+}
+
+/**
+ * Approve or reject a pending removal request. Approving adds the number to the opt-out list.
+ */
+export async function resolveRemovalRequest(
+  requestId: string,
+  status: Exclude<RemovalRequestStatus, "pending">
+) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase
+    .from("removal_requests")
+    .update({
+      status,
+      resolved_at: new Date().toISOString()
+    })
+    .eq("id", requestId)
+    .eq("status", "pending")
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to resolve removal request", error);
+    return null;
+  }
+
+  const request = data as RemovalRequestRecord | null;
+
+  if (request && status === "approved") {
+    await addSuppression({
+      normalized: request.normalized,
+      reason: request.reason ?? "Verwijderd op verzoek",
+      source: "owner_request",
+      removalRequestId: request.id
+    });
+    await hidePhoneProfile(request.normalized);
+  }
+
+  return request;
+}
@@ -1,6 +1,8 @@
+import type { RetryReason } from "@/lib/call-retry";
+import type { CallState, LookupStatus } from "@/lib/call-state";
 import type { NumberProfile } from "@/lib/mock-profiles";
+import type { NumberType } from "@/lib/number-intelligence";
 
-export type LookupStatus = "cached" | "calling" | "not_found" | "failed" | "pending";
 export type ProfileCallOutcome = "confirmed" | "voicemail" | "pending";
 export type DataSource = "elevenlabs" | "fallback";
 
@@ -13,6 +15,7 @@ export interface PhoneProfileRecord {
   transcript_preview: string | null;
   last_checked: string | null;
   confidence: number | null;
+  call_confidence: number | null;
   call_outcome: ProfileCallOutcome;
   tags: string[] | null;
   reports_confirmed: number | null;
@@ -20,23 +23,48 @@ export interface PhoneProfileRecord {
   name_source: DataSource | null;
   entity_type_source: DataSource | null;
   elevenlabs_raw_response: Record<string, unknown> | null;
+  number_type: NumberType | null;
+  region_code: string | null;
+  geo_area: string | null;
+  time_zone: string | null;
+  hidden_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export type ProfileChangeSource = "call_attempt" | "manual_edit" | "crowd_report";
+
+/** Row of `phone_profile_versions`: the profile as it was after one change. */
+export interface PhoneProfileVersionRecord {
+  id: string;
+  profile_id: string;
+  normalized: string;
+  version: number;
+  caller_name: string;
+  summary: string | null;
+  confidence: number | null;
+  call_outcome: ProfileCallOutcome;
+  tags: string[];
+  aka: string[];
+  source: ProfileChangeSource;
+  source_ref: string | null;
+  created_at: string;
+}
+
 export interface PhoneLookupRecord {
   id: string;
   normalized: string;
   raw_input: string;
   status: LookupStatus;
   profile_id: string | null;
+  version: number;
   created_at: string;
 }
 
 export interface CallAttemptRecord {
   id: string;
   lookup_id: string;
-  status: string;
+  status: CallState;
   elevenlabs_conversation_id: string | null;
   elevenlabs_status: string | null;
   error_message: string | null;
@@ -44,10 +72,111 @@ export interface CallAttemptRecord {
   summary: string | null;
   confidence: number | null;
   payload: Record<string, unknown> | null;
+  attempt_number: number;
+  retry_reason: RetryReason | null;
+  scheduled_for: string | null;
+  retry_of: string | null;
+  version: number;
+  duration_seconds: number | null;
+  billed_cost: number | null;
   requested_at: string;
   updated_at: string;
 }
 
+/** Row of `call_spend_daily` or `call_spend_monthly`. */
+export interface CallSpendRecord {
+  billed_calls: number;
+  long_calls: number;
+  duration_seconds: number;
+  billed_cost: number;
+}
+
+export type WebhookEventStatus = "received" | "processed" | "ignored" | "failed";
+
+export interface WebhookEventRecord {
+  id: string;
+  provider: string;
+  event_key: string;
+  event_type: string | null;
+  conversation_id: string | null;
+  signature: string | null;
+  raw_body: string;
+  payload: Record<string, unknown>;
+  status: WebhookEventStatus;
+  error: string | null;
+  attempts: number;
+  locked_until: string | null;
+  received_at: string;
+  processed_at: string | null;
+  updated_at: string;
+}
+
+export type RevalidationJobStatus = "pending" | "done" | "failed";
+
+export interface RevalidationJobRecord {
+  id: string;
+  path: string;
+  reason: string;
+  status: RevalidationJobStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ProfileVote = "confirm" | "dispute";
+
+export interface ProfileReportRecord {
+  id: string;
+  profile_id: string;
+  normalized: string;
+  vote: ProfileVote;
+  reason: string;
+  note: string | null;
+  visitor_hash: string;
+  ip_bucket: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ConfirmationStatsRecord {
+  voted_profiles: number;
+  confirmed_profiles: number;
+  confirmed_share: number;
+  total_confirmations: number;
+  total_disputes: number;
+}
+
+export type SuppressionSource = "admin" | "owner_request";
+export type RemovalRequestStatus = "pending" | "approved" | "rejected";
+export type VerificationMethod = "sms" | "voice" | "email";
+
+export interface NumberSuppressionRecord {
+  id: string;
+  normalized: string;
+  reason: string | null;
+  source: SuppressionSource;
+  removal_request_id: string | null;
+  created_at: string;
+}
+
+export interface RemovalRequestRecord {
+  id: string;
+  normalized: string;
+  contact_email: string | null;
+  reason: string | null;
+  status: RemovalRequestStatus;
+  verification_method: VerificationMethod | null;
+  code_hash: string | null;
+  code_expires_at: string | null;
+  verification_attempts: number;
+  verified_at: string | null;
+  created_at: string;
+  resolved_at: string | null;
+}
+
 export function mapProfileRecord(record: PhoneProfileRecord): NumberProfile {
   return {
     normalized: record.normalized,
@@ -0,0 +1,195 @@
+import crypto from "node:crypto";
+
+import { getSupabaseAdminClient } from "@/lib/supabase/admin";
+import type { WebhookEventRecord, WebhookEventStatus } from "@/lib/supabase/types";
+
+const UNIQUE_VIOLATION = "23505";
+
+/** How long a claimed event is left to its worker before a redelivery may process it again. */
+export const WEBHOOK_EVENT_LEASE_SECONDS = 60;
+
+export interface RecordWebhookEventInput {
+  provider: string;
+  rawBody: string;
+  payload: Record<string, unknown>;
+  signature?: string | null;
+}
+
+/**
+ * Deduplication key: the provider's event id when the payload has one, otherwise a hash of the
+ * raw body, so a redelivery of the same request maps to the same row.
+ */
+export function getWebhookEventKey(rawBody: string, payload: Record<string, unknown>) {
+  const eventId = payload.event_id ?? payload.eventId;
+  if (typeof eventId === "string" && eventId.trim()) {
+    return `id:${eventId.trim()}`;
+  }
+
+  return `sha256:${crypto.createHash("sha256").update(rawBody).digest("hex")}`;
+}
+
+function readConversationId(payload: Record<string, unknown>) {
+  const data = typeof payload.data === "object" && payload.data !== null ? (payload.data as Record<string, unknown>) : {};
+  const value = data.conversation_id ?? payload.conversation_id ?? payload.conversationId;
+  return typeof value === "string" ? value : null;
+}
+
+async function getWebhookEventByKey(provider: string, eventKey: string) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase
+    .from("webhook_events")
+    .select("*")
+    .eq("provider", provider)
+    .eq("event_key", eventKey)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to fetch webhook event by key", error);
+    return null;
+  }
+
+  return data as WebhookEventRecord | null;
+}
+
+/**
+ * Store a verified delivery. Returns the existing row with `duplicate: true` when the same
+ * delivery was logged before. Throws when the log cannot be written, so the provider retries.
+ */
+export async function recordWebhookEvent({ provider, rawBody, payload, signature }: RecordWebhookEventInput) {
+  const supabase = getSupabaseAdminClient();
+  const eventKey = getWebhookEventKey(rawBody, payload);
+  const eventType = payload.type ?? payload.event;
+
+  const { data, error } = await supabase
+    .from("webhook_events")
+    .insert({
+      provider,
+      event_key: eventKey,
+      event_type: typeof eventType === "string" ? eventType : null,
+      conversation_id: readConversationId(payload),
+      signature: signature ?? null,
+      raw_body: rawBody,
+      payload
+    })
+    .select("*")
+    .maybeSingle();
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    const existing = await getWebhookEventByKey(provider, eventKey);
+    if (existing) {
+      return { event: existing, duplicate: true };
+    }
+  }
+
+  if (error || !data) {
+    console.error("Failed to record webhook event", error);
+    throw new Error(
+      `Supabase recordWebhookEvent failed: ${error?.message ?? "no row returned"} [code=${error?.code ?? "n/a"}]`
+    );
+  }
+
+  return { event: data as WebhookEventRecord, duplicate: false };
+}
+
+/**
+ * Atomically take the processing lease of an event in one of `statuses` (by default the unfinished
+ * ones). Returns null when the event is in another status, e.g. processed in the meantime, or when
+ * someone else holds an unexpired lease.
+ */
+export async function claimWebhookEvent(
+  eventId: string,
+  statuses: WebhookEventStatus[] = ["received", "failed"]
+) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase
+    .rpc("claim_webhook_event", {
+      p_event_id: eventId,
+      p_lease_seconds: WEBHOOK_EVENT_LEASE_SECONDS,
+      p_statuses: statuses
+    })
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to claim webhook event", error);
+    throw new Error(`Supabase claimWebhookEvent failed: ${error.message ?? "unknown error"} [code=${error.code ?? "n/a"}]`);
+  }
+
+  return data as WebhookEventRecord | null;
+}
+
+export async function markWebhookEvent(
+  event: Pick<WebhookEventRecord, "id" | "attempts">,
+  status: Exclude<WebhookEventStatus, "received">,
+  errorMessage: string | null = null
+) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase
+    .from("webhook_events")
+    .update({
+      status,
+      error: errorMessage,
+      attempts: event.attempts + 1,
+      locked_until: null,
+      processed_at: new Date().toISOString()
+    })
+    .eq("id", event.id)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to mark webhook event", error);
+    return null;
+  }
+
+  return data as WebhookEventRecord | null;
+}
+
+export async function getWebhookEventById(id: string) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data, error } = await supabase.from("webhook_events").select("*").eq("id", id).maybeSingle();
+
+  if (error) {
+    console.error("Failed to fetch webhook event", error);
+    return null;
+  }
+
+  return data as WebhookEventRecord | null;
+}
+
+export async function listWebhookEvents({
+  status,
+  conversationId,
+  limit = 50
+}: {
+  status?: WebhookEventStatus;
+  conversationId?: string;
+  limit?: number;
+} = {}) {
+  const supabase = getSupabaseAdminClient();
+
+  let query = supabase
+    .from("webhook_events")
+    .select("id, provider, event_key, event_type, conversation_id, status, error, attempts, locked_until, received_at, processed_at")
+    .order("received_at", { ascending: false })
+    .limit(limit);
+
+  if (status) {
+    query = query.eq("status", status);
+  }
+  if (conversationId) {
+    query = query.eq("conversation_id", conversationId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Failed to list webhook events", error);
+    return [];
+  }
+
+  return (data ?? []) as Array<Omit<WebhookEventRecord, "signature" | "raw_body" | "payload" | "updated_at">>;
+}
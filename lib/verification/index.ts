@@ -0,0 +1,74 @@
+import crypto from "node:crypto";
+
+import type { VerificationMethod } from "@/lib/supabase/types";
+import { fakeVerificationSender } from "@/lib/verification/providers/fake";
+import { resendVerificationSender } from "@/lib/verification/providers/resend";
+import { twilioVerificationSender } from "@/lib/verification/providers/twilio";
+import type { VerificationSender } from "@/lib/verification/types";
+
+export type { VerificationSender } from "@/lib/verification/types";
+
+export const VERIFICATION_CODE_TTL_MS = 10 * 60 * 1000;
+export const MAX_VERIFICATION_ATTEMPTS = 5;
+
+const SENDERS: Record<string, VerificationSender> = {
+  fake: fakeVerificationSender,
+  twilio: twilioVerificationSender,
+  resend: resendVerificationSender
+};
+
+/**
+ * Resolve the sender for a verification method.
+ * - sms/voice use `VERIFICATION_PHONE_PROVIDER` (default: `fake`)
+ * - email uses `VERIFICATION_EMAIL_PROVIDER` (default: `fake`)
+ */
+export function getVerificationSender(method: VerificationMethod): VerificationSender {
+  const configured =
+    method === "email"
+      ? process.env.VERIFICATION_EMAIL_PROVIDER
+      : process.env.VERIFICATION_PHONE_PROVIDER;
+  const providerId = configured?.toLowerCase().trim() || "fake";
+
+  if (providerId === "fake" && process.env.NODE_ENV === "production") {
+    throw new Error(`No verification provider configured for ${method} in production`);
+  }
+
+  const sender = SENDERS[providerId];
+  if (!sender) {
+    throw new Error(`Unknown verification provider: ${providerId}`);
+  }
+
+  if (!sender.supports(method)) {
+    throw new Error(`Verification provider ${providerId} does not support ${method}`);
+  }
+
+  return sender;
+}
+
+function getCodeSecret() {
+  const secret = process.env.VERIFICATION_CODE_SECRET;
+  if (secret) {
+    return secret;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("VERIFICATION_CODE_SECRET is not set");
+  }
+  return "dev-verification-secret";
+}
+
+export function generateVerificationCode() {
+  return crypto.randomInt(0, 1_000_000).toString().padStart(6, "0");
+}
+
+/**
+ * Codes are bound to their request id so a hash cannot be reused for another request.
+ */
+export function hashVerificationCode(requestId: string, code: string) {
+  return crypto.createHmac("sha256", getCodeSecret()).update(`${requestId}:${code}`).digest("hex");
+}
+
+export function isVerificationCodeValid(requestId: string, code: string, expectedHash: string) {
+  const actual = Buffer.from(hashVerificationCode(requestId, code), "hex");
+  const expected = Buffer.from(expectedHash, "hex");
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,12 @@
+import type { VerificationSender } from "@/lib/verification/types";
+
+/**
+ * Local fake that only logs the code to the server console. Used in development.
+ */
+export const fakeVerificationSender: VerificationSender = {
+  id: "fake",
+  supports: () => true,
+  async sendCode({ method, to, code }) {
+    console.log("🔐 Fake verification code sent:", { method, to, code });
+  }
+};
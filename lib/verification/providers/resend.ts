@@ -0,0 +1,36 @@
+import type { SendVerificationCodeParams, VerificationSender } from "@/lib/verification/types";
+
+/**
+ * E-mail challenge via the Resend HTTP API.
+ */
+export const resendVerificationSender: VerificationSender = {
+  id: "resend",
+  supports: (method) => method === "email",
+  async sendCode({ to, code }: SendVerificationCodeParams) {
+    const apiKey = process.env.RESEND_API_KEY;
+    const from = process.env.VERIFICATION_EMAIL_FROM;
+
+    if (!apiKey || !from) {
+      throw new Error("RESEND_API_KEY and VERIFICATION_EMAIL_FROM must be set");
+    }
+
+    const response = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({
+        from,
+        to,
+        subject: "Bevestig het verwijderen van je nummer",
+        text: `Je verificatiecode is ${code}. Vul deze code in op AI Caller ID om het verwijderen van je nummer te bevestigen. De code is 10 minuten geldig.`
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Resend failed with status ${response.status}: ${errorText || response.statusText}`);
+    }
+  }
+};
@@ -0,0 +1,75 @@
+import type { SendVerificationCodeParams, VerificationSender } from "@/lib/verification/types";
+
+function getTwilioConfig() {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const fromNumber = process.env.TWILIO_FROM_NUMBER;
+
+  if (!accountSid || !authToken || !fromNumber) {
+    throw new Error("TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER must be set");
+  }
+
+  return { accountSid, authToken, fromNumber };
+}
+
+function spellOutCode(code: string) {
+  return code.split("").join(", ");
+}
+
+async function postToTwilio(resource: "Messages" | "Calls", body: URLSearchParams) {
+  const { accountSid, authToken } = getTwilioConfig();
+  const credentials = Buffer.from(`${accountSid}:${authToken}`).toString("base64");
+
+  const response = await fetch(
+    `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/${resource}.json`,
+    {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${credentials}`,
+        "Content-Type": "application/x-www-form-urlencoded"
+      },
+      body
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Twilio ${resource} failed with status ${response.status}: ${errorText || response.statusText}`);
+  }
+}
+
+/**
+ * Sends codes to the phone number itself, by SMS or as a spoken voice call.
+ */
+export const twilioVerificationSender: VerificationSender = {
+  id: "twilio",
+  supports: (method) => method === "sms" || method === "voice",
+  async sendCode({ method, to, code }: SendVerificationCodeParams) {
+    const { fromNumber } = getTwilioConfig();
+
+    if (method === "sms") {
+      await postToTwilio(
+        "Messages",
+        new URLSearchParams({
+          To: to,
+          From: fromNumber,
+          Body: `Je AI Caller ID verificatiecode is ${code}. Deze code is 10 minuten geldig.`
+        })
+      );
+      return;
+    }
+
+    const twiml = `<Response><Say language="nl-NL">Je verificatiecode voor AI Caller ID is ${spellOutCode(
+      code
+    )}. Ik herhaal: ${spellOutCode(code)}.</Say></Response>`;
+
+    await postToTwilio(
+      "Calls",
+      new URLSearchParams({
+        To: to,
+        From: fromNumber,
+        Twiml: twiml
+      })
+    );
+  }
+};
@@ -0,0 +1,18 @@
+import type { VerificationMethod } from "@/lib/supabase/types";
+
+export interface SendVerificationCodeParams {
+  method: VerificationMethod;
+  /** E.164 phone number for sms/voice, e-mail address for email. */
+  to: string;
+  code: string;
+}
+
+/**
+ * A provider that delivers one-time verification codes.
+ * Implementations should throw when delivery fails so callers can surface an error.
+ */
+export interface VerificationSender {
+  id: string;
+  supports(method: VerificationMethod): boolean;
+  sendCode(params: SendVerificationCodeParams): Promise<void>;
+}
@@ -0,0 +1,70 @@
+import crypto from "node:crypto";
+import { isIP } from "node:net";
+
+import { cookies, headers } from "next/headers";
+
+const VISITOR_COOKIE = "aci_vid";
+const VISITOR_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+function getHashSecret() {
+  const secret = process.env.VISITOR_HASH_SECRET;
+  if (secret) {
+    return secret;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("VISITOR_HASH_SECRET is not set");
+  }
+  return "dev-visitor-secret";
+}
+
+function hmac(value: string) {
+  return crypto.createHmac("sha256", getHashSecret()).update(value).digest("hex");
+}
+
+export function getClientIp() {
+  const headerList = headers();
+  const forwarded = headerList.get("x-forwarded-for")?.split(",")[0]?.trim();
+  return forwarded || headerList.get("x-real-ip") || null;
+}
+
+/**
+ * Coarse network bucket: /24 for IPv4, /48 for IPv6. Several visitors behind one
+ * NAT share a bucket, so it is only used as a soft limit next to the cookie.
+ */
+export function toIpBucket(ip: string | null) {
+  if (!ip || isIP(ip) === 0) {
+    return "unknown";
+  }
+
+  if (isIP(ip) === 4) {
+    return `${ip.split(".").slice(0, 3).join(".")}.0/24`;
+  }
+
+  const groups = ip.split("::")[0].split(":").slice(0, 3);
+  return `${groups.join(":")}::/48`;
+}
+
+/**
+ * Hashed visitor identity for server actions. Sets a long-lived random cookie on first use.
+ * Only HMACs leave this function, raw cookie values and IPs are never stored.
+ */
+export function getVisitorIdentity() {
+  const cookieStore = cookies();
+  let visitorId = cookieStore.get(VISITOR_COOKIE)?.value;
+
+  if (!visitorId) {
+    visitorId = crypto.randomUUID();
+    cookieStore.set(VISITOR_COOKIE, visitorId, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: VISITOR_COOKIE_MAX_AGE,
+      path: "/"
+    });
+  }
+
+  return {
+    visitorHash: hmac(`visitor:${visitorId}`),
+    ipBucket: hmac(`ip:${toIpBucket(getClientIp())}`)
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * Voicemail detection for finished calls.
+ * Combines transcript patterns, analysis fields from the provider, the termination reason
+ * and the call duration into a score; a score of 3 or more counts as voicemail.
+ */
+
+export interface VoicemailInput {
+  messages: Array<{ role?: string; message: string }>;
+  transcript?: string | null;
+  summary?: string | null;
+  analysis?: Record<string, unknown> | null;
+  durationSeconds?: number | null;
+  terminationReason?: string | null;
+}
+
+export interface VoicemailDetection {
+  isVoicemail: boolean;
+  /** 0..1, derived from the score */
+  confidence: number;
+  signals: string[];
+  /** What the callee side said, i.e. the voicemail greeting */
+  greeting: string | null;
+  /** Name spoken in the greeting ("u spreekt met de voicemail van …") */
+  ownerName: string | null;
+}
+
+const VOICEMAIL_THRESHOLD = 3;
+const SHORT_CALL_SECONDS = 40;
+
+const CALLEE_ROLES = new Set(["user", "customer", "caller", "callee", "contact", "human", "lead", "prospect"]);
+
+const STRONG_GREETING_PATTERNS = [
+  /voice\s?-?mail/i,
+  /\bmailbox\b/i,
+  /na de (?:piep|pieptoon|toon)/i,
+  /spreek (?:een|uw|je) (?:bericht|boodschap) in/i,
+  /laat (?:een|uw|je) (?:bericht|boodschap) achter/i,
+  /inspreken/i,
+  /leave (?:a|your) message/i,
+  /after the (?:beep|tone)/i,
+  /answering machine/i
+];
+
+const WEAK_GREETING_PATTERNS = [
+  /(?:momenteel|op dit moment|nu|even) niet bereikbaar/i,
+  /niet (?:aan|op)nemen/i,
+  /(?:ik|we|wij) bel(?:len)? (?:u|je) (?:zo snel mogelijk |later )?terug/i,
+  /(?:is|am|are) (?:currently )?(?:not available|unavailable)/i,
+  /can'?t (?:come to|take) the (?:phone|call)/i
+];
+
+const SUMMARY_PATTERNS = [/voice\s?-?mail/i, /answering machine/i, /antwoordapparaat/i, /no human (?:answered|was reached)/i];
+
+const TERMINATION_PATTERNS = [/voice\s?-?mail/i, /machine/i];
+
+// Phrases after which the greeting usually says whose phone this is, most specific first
+const NAME_TRIGGERS = [
+  /voice\s?-?mail(?:box)? van\s+/i,
+  /mailbox van\s+/i,
+  /voicemail of\s+/i,
+  /(?:u|je) (?:bent )?(?:verbonden|doorgeschakeld) met\s+(?:de (?:voicemail|mailbox) van\s+)?/i,
+  /(?:u|je) spreekt met\s+/i,
+  /you(?:'ve| have) reached\s+(?:the voicemail of\s+)?/i,
+  /(?:dit is|hier is|this is)\s+/i
+];
+
+// Capitalised words with optional Dutch name particles in between ("Jan van der Berg", "Bakkerij De Vries")
+const NAME_PATTERN =
+  /^((?:\p{Lu}[\p{L}'’\-]*)(?:\s+(?:(?:van|de|der|den|het|ter|ten|te|op|'t)\s+)*\p{Lu}[\p{L}'’\-]*){0,3})/u;
+
+const NAME_STOPWORDS = new Set(["De", "Het", "Een", "Ik", "U", "Je", "Wij", "We", "The", "Voicemail", "Mailbox"]);
+
+function isTruthyFlag(value: unknown) {
+  if (value === true) return true;
+  if (typeof value === "string") {
+    return ["true", "yes", "ja", "voicemail"].includes(value.trim().toLowerCase());
+  }
+  return false;
+}
+
+function toRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+/**
+ * Look for explicit voicemail flags in provider analysis, including ElevenLabs
+ * data collection results (`data_collection_results.voicemail.value`).
+ */
+function hasAnalysisFlag(analysis: Record<string, unknown>) {
+  for (const key of ["voicemail", "voicemail_detected", "is_voicemail", "answering_machine"]) {
+    if (isTruthyFlag(analysis[key])) {
+      return true;
+    }
+  }
+
+  const dataCollection = toRecord(analysis.data_collection_results);
+  for (const key of ["voicemail", "voicemail_detected", "is_voicemail"]) {
+    const entry = dataCollection[key];
+    if (isTruthyFlag(entry) || isTruthyFlag(toRecord(entry).value)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Extract the name spoken in a voicemail greeting, e.g.
+ * "Hallo, u spreekt met de voicemail van Jan de Vries." → "Jan de Vries".
+ */
+export function extractVoicemailOwnerName(greeting: string | null | undefined) {
+  if (!greeting) {
+    return null;
+  }
+
+  for (const trigger of NAME_TRIGGERS) {
+    const match = trigger.exec(greeting);
+    if (!match) continue;
+
+    const rest = greeting.slice(match.index + match[0].length);
+    const nameMatch = NAME_PATTERN.exec(rest);
+    const name = nameMatch?.[1]?.trim();
+    if (!name) continue;
+
+    const words = name.split(/\s+/);
+    if (words.every((word) => NAME_STOPWORDS.has(word))) continue;
+    if (NAME_STOPWORDS.has(words[0]) && words.length === 1) continue;
+
+    return name.length >= 2 ? name : null;
+  }
+
+  return null;
+}
+
+export function detectVoicemail(input: VoicemailInput): VoicemailDetection {
+  const signals: string[] = [];
+  let score = 0;
+
+  const calleeMessages = input.messages.filter((entry) => {
+    const role = entry.role?.toLowerCase();
+    return !role || CALLEE_ROLES.has(role);
+  });
+  const hasRoles = input.messages.some((entry) => Boolean(entry.role));
+  const greetingSource = calleeMessages.length > 0 ? calleeMessages.map((entry) => entry.message).join(" ") : input.transcript ?? "";
+  const greeting = greetingSource.replace(/\s+/g, " ").trim() || null;
+
+  const analysis = toRecord(input.analysis);
+  if (hasAnalysisFlag(analysis)) {
+    score += 3;
+    signals.push("analysis_flag");
+  }
+
+  if (input.terminationReason && TERMINATION_PATTERNS.some((pattern) => pattern.test(input.terminationReason as string))) {
+    score += 3;
+    signals.push("termination_reason");
+  }
+
+  if (greeting && STRONG_GREETING_PATTERNS.some((pattern) => pattern.test(greeting))) {
+    score += 2;
+    signals.push("greeting_pattern");
+  } else if (greeting && WEAK_GREETING_PATTERNS.some((pattern) => pattern.test(greeting))) {
+    score += 1;
+    signals.push("unavailable_phrase");
+  }
+
+  const summaryText = [input.summary, typeof analysis.transcript_summary === "string" ? analysis.transcript_summary : null]
+    .filter(Boolean)
+    .join(" ");
+  if (summaryText && SUMMARY_PATTERNS.some((pattern) => pattern.test(summaryText))) {
+    score += 2;
+    signals.push("summary_mentions_voicemail");
+  }
+
+  // A voicemail is a single short monologue; a back-and-forth means a person answered.
+  if (hasRoles && calleeMessages.length <= 1 && typeof input.durationSeconds === "number" && input.durationSeconds <= SHORT_CALL_SECONDS) {
+    score += 1;
+    signals.push("short_monologue");
+  }
+  if (hasRoles && calleeMessages.length > 2) {
+    score -= 2;
+    signals.push("conversation");
+  }
+
+  const isVoicemail = score >= VOICEMAIL_THRESHOLD;
+
+  return {
+    isVoicemail,
+    confidence: Math.max(0, Math.min(1, score / 5)),
+    signals,
+    greeting: isVoicemail && greeting ? greeting.slice(0, 500) : null,
+    ownerName: isVoicemail ? extractVoicemailOwnerName(greeting) : null
+  };
+}
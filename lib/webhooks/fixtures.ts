@@ -0,0 +1,111 @@
+/**
+ * Signed deliveries with the verification result each must get. Run them with `npm run test:fixtures`
+ * after changing lib/webhooks/signature.ts.
+ */
+import type { FixtureSuite } from "@/lib/fixtures";
+import { signWebhookBody, verifyWebhookSignature, type SignatureFailure } from "@/lib/webhooks/signature";
+
+const NOW_SEC = 1762000000;
+const TOLERANCE_SECONDS = 300;
+const BODY = JSON.stringify({ type: "post_call_transcription", event_id: "evt_fixture" });
+
+interface SignatureDelivery {
+  /** Secret the sender signed with; omitted for a request without a signature header. */
+  signedWith?: string;
+  /** Sent body when it differs from the signed one. */
+  sentBody?: string;
+  /** Signature timestamp relative to now, in seconds. */
+  offsetSec?: number;
+  /** Header sent as is instead of a computed signature. */
+  header?: string;
+}
+
+interface SignatureFixture {
+  id: string;
+  description: string;
+  secrets: string[];
+  deliveries: SignatureDelivery[];
+  expected: {
+    /** `ok` or the failure reason, per delivery in order. */
+    results: Array<"ok" | SignatureFailure>;
+  };
+}
+
+const FIXTURES: SignatureFixture[] = [
+  {
+    id: "valid",
+    description: "Body signed with the active secret is accepted",
+    secrets: ["secret"],
+    deliveries: [{ signedWith: "secret" }],
+    expected: { results: ["ok"] }
+  },
+  {
+    id: "resend-after-failure",
+    description: "The same signed request resent after a 409 or 500 is accepted again",
+    secrets: ["secret"],
+    deliveries: [{ signedWith: "secret", offsetSec: -30 }, { signedWith: "secret", offsetSec: -30 }],
+    expected: { results: ["ok", "ok"] }
+  },
+  {
+    id: "rotated-secret",
+    description: "A request signed with the previous secret is accepted while rotating",
+    secrets: ["new-secret", "old-secret"],
+    deliveries: [{ signedWith: "old-secret" }],
+    expected: { results: ["ok"] }
+  },
+  {
+    id: "wrong-secret",
+    description: "A request signed with an unknown secret is rejected",
+    secrets: ["secret"],
+    deliveries: [{ signedWith: "other-secret" }],
+    expected: { results: ["mismatch"] }
+  },
+  {
+    id: "tampered-body",
+    description: "A body changed after signing is rejected",
+    secrets: ["secret"],
+    deliveries: [{ signedWith: "secret", sentBody: BODY.replace("evt_fixture", "evt_other") }],
+    expected: { results: ["mismatch"] }
+  },
+  {
+    id: "outside-tolerance",
+    description: "Signatures older or newer than the tolerance window are rejected",
+    secrets: ["secret"],
+    deliveries: [
+      { signedWith: "secret", offsetSec: -(TOLERANCE_SECONDS + 1) },
+      { signedWith: "secret", offsetSec: TOLERANCE_SECONDS + 1 },
+      { signedWith: "secret", offsetSec: -TOLERANCE_SECONDS }
+    ],
+    expected: { results: ["outside_tolerance", "outside_tolerance", "ok"] }
+  },
+  {
+    id: "missing-or-malformed-header",
+    description: "Requests without a header, a timestamp or a signature are rejected",
+    secrets: ["secret"],
+    deliveries: [{}, { header: `v0=${"a".repeat(64)}` }, { header: `t=${NOW_SEC}` }],
+    expected: { results: ["missing_header", "malformed_header", "malformed_header"] }
+  }
+];
+
+function evaluateFixture(fixture: SignatureFixture): Record<string, unknown> {
+  return {
+    results: fixture.deliveries.map((delivery) => {
+      const header =
+        delivery.header ??
+        (delivery.signedWith ? signWebhookBody(BODY, delivery.signedWith, NOW_SEC + (delivery.offsetSec ?? 0)) : null);
+      const verification = verifyWebhookSignature(delivery.sentBody ?? BODY, header, {
+        secrets: fixture.secrets,
+        scope: "fixture",
+        toleranceSeconds: TOLERANCE_SECONDS,
+        nowSec: NOW_SEC
+      });
+      return verification.ok ? "ok" : verification.reason;
+    })
+  };
+}
+
+export const signatureFixtures: FixtureSuite<SignatureFixture> = {
+  name: "webhook-signatures",
+  fixtures: FIXTURES,
+  evaluate: evaluateFixture
+};
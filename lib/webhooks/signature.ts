@@ -0,0 +1,148 @@
+import crypto from "node:crypto";
+
+const IS_DEV = process.env.NODE_ENV !== "production";
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+export type SignatureFailure = "missing_header" | "malformed_header" | "outside_tolerance" | "mismatch";
+
+export type SignatureVerification = { ok: true; timestamp: number } | { ok: false; reason: SignatureFailure };
+
+export interface VerifyWebhookSignatureOptions {
+  /** Active secrets. Any of them may have signed the request, so a secret can be rotated without downtime. */
+  secrets: string[];
+  /** Provider id, for logging. */
+  scope: string;
+  toleranceSeconds?: number;
+  nowSec?: number;
+}
+
+/**
+ * Secrets from a comma-separated env value, e.g. `new-secret,old-secret` while rotating.
+ */
+export function parseWebhookSecrets(value: string | undefined) {
+  return (value ?? "")
+    .split(",")
+    .map((secret) => secret.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Secrets for a provider webhook from `envName`. Throws in production when none are configured,
+ * so unsigned requests are never accepted there; in development an empty list means "do not verify".
+ */
+export function requireWebhookSecrets(envName: string) {
+  const secrets = parseWebhookSecrets(process.env[envName]);
+  if (!secrets.length && process.env.NODE_ENV === "production") {
+    throw new Error(`${envName} is not set`);
+  }
+  return secrets;
+}
+
+/**
+ * `WEBHOOK_SIGNATURE_TOLERANCE_SECONDS`: how far a signature timestamp may be from now (default 300).
+ */
+export function getSignatureToleranceSeconds() {
+  const value = Number(process.env.WEBHOOK_SIGNATURE_TOLERANCE_SECONDS);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_TOLERANCE_SECONDS;
+}
+
+function computeDigest(rawBody: string, secret: string, timestamp: string) {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.${rawBody}`, "utf8").digest();
+}
+
+/**
+ * Sign a webhook body the way ElevenLabs does: `t=<unix seconds>,v0=<hex hmac of "t.body">`.
+ */
+export function signWebhookBody(rawBody: string, secret: string, timestampSec = Math.floor(Date.now() / 1000)) {
+  return `t=${timestampSec},v0=${computeDigest(rawBody, secret, String(timestampSec)).toString("hex")}`;
+}
+
+/**
+ * Split `t=...,v0=...` into the timestamp and every signature in it. Values are split on the
+ * first `=` only, so base64 padding survives.
+ */
+function parseSignatureHeader(signatureHeader: string) {
+  let timestamp: string | null = null;
+  const signatures: string[] = [];
+
+  for (const part of signatureHeader.split(",")) {
+    const separator = part.indexOf("=");
+    if (separator === -1) continue;
+
+    const key = part.slice(0, separator).trim();
+    const value = part.slice(separator + 1).trim();
+    if (!value) continue;
+
+    if (key === "t") {
+      timestamp = value;
+    } else if (/^v\d+$/.test(key)) {
+      signatures.push(value);
+    }
+  }
+
+  return { timestamp, signatures };
+}
+
+/**
+ * Decode a provided digest: hex or base64, with or without `sha256=`.
+ */
+function decodeSignature(value: string) {
+  const cleaned = value.replace(/^sha256=/i, "");
+  if (/^[0-9a-f]{64}$/i.test(cleaned)) {
+    return Buffer.from(cleaned, "hex");
+  }
+  return Buffer.from(cleaned, "base64");
+}
+
+/**
+ * Verify a `t=...,v0=...` signature header against the raw body: the timestamp must be within the
+ * tolerance window and a signature must match one of the secrets (compared in constant time).
+ * A resent request verifies again: the provider resends after a 409 or 500, and the webhook event log
+ * (`webhook_events`, deduped on the event key) makes sure a delivery is applied only once.
+ */
+export function verifyWebhookSignature(
+  rawBody: string,
+  signatureHeader: string | null,
+  {
+    secrets,
+    scope,
+    toleranceSeconds = getSignatureToleranceSeconds(),
+    nowSec = Date.now() / 1000
+  }: VerifyWebhookSignatureOptions
+): SignatureVerification {
+  const fail = (reason: SignatureFailure): SignatureVerification => {
+    if (IS_DEV) {
+      console.error("Webhook signature rejected", { scope, reason, signatureHeader });
+    }
+    return { ok: false, reason };
+  };
+
+  if (!signatureHeader) {
+    return fail("missing_header");
+  }
+
+  const { timestamp, signatures } = parseSignatureHeader(signatureHeader);
+  const timestampSec = Number(timestamp);
+  if (!timestamp || !signatures.length || !Number.isFinite(timestampSec)) {
+    return fail("malformed_header");
+  }
+
+  if (Math.abs(nowSec - timestampSec) > toleranceSeconds) {
+    return fail("outside_tolerance");
+  }
+
+  const provided = signatures.map(decodeSignature);
+  const matched = secrets.some((secret) => {
+    const expected = computeDigest(rawBody ?? "", secret, timestamp);
+    return provided.some(
+      (candidate) => candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected)
+    );
+  });
+
+  if (!matched) {
+    return fail("mismatch");
+  }
+
+  return { ok: true, timestamp: timestampSec };
+}
@@ -1,6 +1,12 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  reactStrictMode: true
+  reactStrictMode: true,
+  experimental: {
+    // Loads instrumentation.ts, which checks required secrets on startup
+    instrumentationHook: true,
+    // Reads its geocoding data from its own directory at runtime, so it must not be bundled
+    serverComponentsExternalPackages: ["libphonenumber-geo-carrier"]
+  }
 };
 
 export default nextConfig;
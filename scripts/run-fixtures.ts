@@ -0,0 +1,51 @@
+/**
+ * Runs every fixture suite and exits with 1 when a fixture fails.
+ * Usage:
+ * - npm run test:fixtures
+ * - npm run test:fixtures -- identification
+ * - npm run test:fixtures -- voicemail-owner --verbose
+ * An argument picks a suite or a fixture id. `--verbose` keeps the logging of the code under test.
+ */
+import { fakeScenarioFixtures } from "@/lib/calls/fake/fixtures";
+import { runFixtureSuite, type FixtureResult } from "@/lib/fixtures";
+import { identificationFixtures } from "@/lib/identification/fixtures";
+import { numberIntelligenceFixtures } from "@/lib/number-intelligence/fixtures";
+import { structuredDataFixtures } from "@/lib/structured-data/fixtures";
+import { signatureFixtures } from "@/lib/webhooks/fixtures";
+
+const args = process.argv.slice(2);
+const verbose = args.includes("--verbose");
+const filter = args.find((arg) => !arg.startsWith("--"));
+
+async function main() {
+  const log = console.log;
+  if (!verbose) {
+    console.log = () => undefined;
+  }
+
+  const results: FixtureResult[] = [
+    ...(await runFixtureSuite(identificationFixtures)),
+    ...(await runFixtureSuite(structuredDataFixtures)),
+    ...(await runFixtureSuite(signatureFixtures)),
+    ...(await runFixtureSuite(numberIntelligenceFixtures)),
+    ...(await runFixtureSuite(fakeScenarioFixtures))
+  ].filter((result) => !filter || result.suite === filter || result.id === filter);
+
+  console.log = log;
+
+  for (const result of results) {
+    console.log(`${result.passed ? "✅" : "❌"} ${result.suite}/${result.id}: ${result.description}`);
+    for (const mismatch of result.mismatches) {
+      console.log(`   ${mismatch.field}: expected ${JSON.stringify(mismatch.expected)}, got ${JSON.stringify(mismatch.actual)}`);
+    }
+  }
+
+  const failed = results.filter((result) => !result.passed);
+  console.log(`\n${results.length - failed.length}/${results.length} fixtures passed`);
+
+  if (results.length === 0 || failed.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+void main();
@@ -0,0 +1,46 @@
+-- Opt-out / do-not-call registry
+-- Numbers listed here are never dialed by the AI agent and their profiles are hidden.
+
+create table if not exists public.number_suppressions (
+    id uuid primary key default gen_random_uuid(),
+    normalized text not null unique,
+    reason text,
+    source text not null default 'admin' check (source in ('admin', 'owner_request')),
+    removal_request_id uuid,
+    created_at timestamptz not null default timezone('utc', now())
+);
+
+create index if not exists number_suppressions_created_at_idx on public.number_suppressions (created_at desc);
+
+-- Public removal requests, reviewed by an admin before the number is suppressed
+create table if not exists public.removal_requests (
+    id uuid primary key default gen_random_uuid(),
+    normalized text not null,
+    contact_email text,
+    reason text,
+    status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+    created_at timestamptz not null default timezone('utc', now()),
+    resolved_at timestamptz
+);
+
+create index if not exists removal_requests_status_idx on public.removal_requests (status, created_at desc);
+create index if not exists removal_requests_normalized_idx on public.removal_requests (normalized);
+
+alter table public.number_suppressions
+  add constraint number_suppressions_removal_request_id_fkey
+  foreign key (removal_request_id) references public.removal_requests(id) on delete set null;
+
+alter table public.number_suppressions enable row level security;
+alter table public.removal_requests enable row level security;
+
+create policy "Allow service role suppressions"
+  on public.number_suppressions
+  for all
+  using (auth.role() = 'service_role');
+
+create policy "Allow service role removal requests"
+  on public.removal_requests
+  for all
+  using (auth.role() = 'service_role');
+
+comment on table public.number_suppressions is 'Opt-out list: suppressed numbers are never called and their profiles are hidden';
@@ -0,0 +1,18 @@
+-- Ownership verification for public removal requests
+alter table public.removal_requests
+  add column if not exists verification_method text check (verification_method in ('sms', 'voice', 'email')),
+  add column if not exists code_hash text,
+  add column if not exists code_expires_at timestamptz,
+  add column if not exists verification_attempts integer not null default 0,
+  add column if not exists verified_at timestamptz;
+
+-- Hidden profiles are kept for auditing but never served publicly
+alter table public.phone_profiles
+  add column if not exists hidden_at timestamptz;
+
+create index if not exists phone_profiles_visible_updated_idx
+  on public.phone_profiles (updated_at desc)
+  where hidden_at is null;
+
+comment on column public.removal_requests.code_hash is 'HMAC of the one-time verification code; the code itself is never stored';
+comment on column public.phone_profiles.hidden_at is 'Set when the owner verified a removal request; hidden profiles are not shown anywhere';
@@ -0,0 +1,66 @@
+-- Crowd confirmation / dispute votes on number profiles
+create table if not exists public.phone_profile_reports (
+    id uuid primary key default gen_random_uuid(),
+    profile_id uuid not null references public.phone_profiles(id) on delete cascade,
+    normalized text not null,
+    vote text not null check (vote in ('confirm', 'dispute')),
+    reason text not null,
+    note text,
+    visitor_hash text not null,
+    ip_bucket text not null,
+    created_at timestamptz not null default timezone('utc', now()),
+    updated_at timestamptz not null default timezone('utc', now())
+);
+
+-- One vote per visitor per profile; voting again changes the existing vote
+create unique index if not exists phone_profile_reports_visitor_idx
+  on public.phone_profile_reports (profile_id, visitor_hash);
+create index if not exists phone_profile_reports_ip_bucket_idx
+  on public.phone_profile_reports (profile_id, ip_bucket, created_at desc);
+
+drop trigger if exists set_phone_profile_reports_updated_at on public.phone_profile_reports;
+
+create trigger set_phone_profile_reports_updated_at
+before update on public.phone_profile_reports
+for each row
+execute procedure public.set_updated_at();
+
+alter table public.phone_profile_reports enable row level security;
+
+create policy "Allow service role profile reports"
+  on public.phone_profile_reports
+  for all
+  using (auth.role() = 'service_role');
+
+-- Confidence reported by the AI call, kept separately so votes can be blended in without losing it
+alter table public.phone_profiles
+  add column if not exists call_confidence numeric(3,2);
+
+update public.phone_profiles
+  set call_confidence = confidence
+  where call_confidence is null;
+
+-- Success metric: share of voted profiles that are at least 70% confirmed
+create or replace view public.phone_profile_confirmation_stats as
+select
+  count(*) as voted_profiles,
+  count(*) filter (
+    where reports_confirmed::numeric / (reports_confirmed + reports_disputed) >= 0.7
+  ) as confirmed_profiles,
+  coalesce(
+    round(
+      count(*) filter (
+        where reports_confirmed::numeric / (reports_confirmed + reports_disputed) >= 0.7
+      )::numeric / nullif(count(*), 0),
+      4
+    ),
+    0
+  ) as confirmed_share,
+  coalesce(sum(reports_confirmed), 0) as total_confirmations,
+  coalesce(sum(reports_disputed), 0) as total_disputes
+from public.phone_profiles
+where hidden_at is null
+  and reports_confirmed + reports_disputed > 0;
+
+comment on table public.phone_profile_reports is 'Visitor votes on profiles; visitor_hash and ip_bucket are HMACs, raw cookies and IPs are never stored';
+comment on column public.phone_profiles.confidence is 'Displayed confidence: call_confidence blended with crowd votes';
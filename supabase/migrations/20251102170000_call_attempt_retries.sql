@@ -0,0 +1,14 @@
+-- Retry bookkeeping for call attempts
+-- Every retry is a new call_attempts row that points at the attempt it retries.
+alter table public.call_attempts
+  add column if not exists attempt_number integer not null default 1,
+  add column if not exists retry_reason text check (retry_reason in ('busy', 'no_answer', 'voicemail', 'provider_error')),
+  add column if not exists scheduled_for timestamptz,
+  add column if not exists retry_of uuid references public.call_attempts(id) on delete set null;
+
+create index if not exists call_attempts_due_retries_idx
+  on public.call_attempts (scheduled_for)
+  where status = 'retry_scheduled';
+
+comment on column public.call_attempts.retry_reason is 'Why the previous attempt failed; set on the follow-up attempt';
+comment on column public.call_attempts.scheduled_for is 'When a retry_scheduled attempt may be dialed';
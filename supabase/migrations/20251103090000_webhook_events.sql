@@ -0,0 +1,43 @@
+-- Log of every verified call webhook delivery
+-- Deliveries are deduplicated on (provider, event_key) and failed ones can be re-processed from the stored payload.
+create table if not exists public.webhook_events (
+    id uuid primary key default gen_random_uuid(),
+    provider text not null,
+    event_key text not null,
+    event_type text,
+    conversation_id text,
+    signature text,
+    raw_body text not null,
+    payload jsonb not null,
+    status text not null default 'received' check (status in ('received', 'processed', 'ignored', 'failed')),
+    error text,
+    attempts integer not null default 0,
+    received_at timestamptz not null default timezone('utc', now()),
+    processed_at timestamptz,
+    updated_at timestamptz not null default timezone('utc', now())
+);
+
+create unique index if not exists webhook_events_event_key_idx
+  on public.webhook_events (provider, event_key);
+create index if not exists webhook_events_status_idx
+  on public.webhook_events (status, received_at desc);
+create index if not exists webhook_events_conversation_idx
+  on public.webhook_events (conversation_id, received_at desc);
+
+drop trigger if exists set_webhook_events_updated_at on public.webhook_events;
+
+create trigger set_webhook_events_updated_at
+before update on public.webhook_events
+for each row
+execute procedure public.set_updated_at();
+
+alter table public.webhook_events enable row level security;
+
+create policy "Allow service role webhook events"
+  on public.webhook_events
+  for all
+  using (auth.role() = 'service_role');
+
+comment on table public.webhook_events is 'Verified call webhook deliveries with their processing status';
+comment on column public.webhook_events.event_key is 'Provider event id, or sha256 of the raw body when the provider sends none';
+comment on column public.webhook_events.payload is 'Payload after provider translation, in the ElevenLabs shape; used for re-processing';
@@ -0,0 +1,54 @@
+-- Monotonic versions for lookups and call attempts
+-- Every write bumps the row's version in the same transaction. A call attempt write also bumps
+-- its lookup, so phone_lookups.version changes whenever anything the status endpoint shows does.
+alter table public.phone_lookups
+  add column if not exists version bigint not null default 1;
+
+alter table public.call_attempts
+  add column if not exists version bigint not null default 1;
+
+create or replace function public.bump_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.version = old.version + 1;
+  return new;
+end;
+$$;
+
+drop trigger if exists bump_phone_lookups_version on public.phone_lookups;
+
+create trigger bump_phone_lookups_version
+before update on public.phone_lookups
+for each row
+execute procedure public.bump_version();
+
+drop trigger if exists bump_call_attempts_version on public.call_attempts;
+
+create trigger bump_call_attempts_version
+before update on public.call_attempts
+for each row
+execute procedure public.bump_version();
+
+create or replace function public.bump_lookup_version_from_call_attempt()
+returns trigger
+language plpgsql
+as $$
+begin
+  update public.phone_lookups
+    set version = version + 1
+    where id = new.lookup_id;
+  return null;
+end;
+$$;
+
+drop trigger if exists bump_lookup_version_on_call_attempt on public.call_attempts;
+
+create trigger bump_lookup_version_on_call_attempt
+after insert or update on public.call_attempts
+for each row
+execute procedure public.bump_lookup_version_from_call_attempt();
+
+comment on column public.phone_lookups.version is 'Bumped on every write to the lookup or one of its call attempts; clients poll with ?since=<version>';
+comment on column public.call_attempts.version is 'Bumped on every write to the attempt';
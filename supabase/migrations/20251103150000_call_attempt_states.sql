@@ -0,0 +1,22 @@
+-- Call attempt states from lib/call-state.ts
+-- Older rows hold whatever the provider sent (event types, statuses); map them onto the states first.
+update public.call_attempts
+  set status = case
+    when status ~* '(post_call|post-call|completed|finished|done|succeeded|success)' then 'completed'
+    when status ~* '(failed|failure|error|canceled)' then 'failed'
+    when status ~* '(initiat|connecting|ringing|received|call_started)' then 'initiating'
+    else 'in_call'
+  end
+  where status not in (
+    'scheduled', 'retry_scheduled', 'dialing', 'initiating', 'in_call', 'completed', 'failed', 'cancelled'
+  );
+
+alter table public.call_attempts
+  drop constraint if exists call_attempts_status_check;
+
+alter table public.call_attempts
+  add constraint call_attempts_status_check check (
+    status in ('scheduled', 'retry_scheduled', 'dialing', 'initiating', 'in_call', 'completed', 'failed', 'cancelled')
+  );
+
+comment on column public.call_attempts.status is 'Call state (lib/call-state.ts); the provider''s own status is kept in elevenlabs_status';
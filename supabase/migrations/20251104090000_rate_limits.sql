@@ -0,0 +1,75 @@
+-- Sliding-window rate limits for outbound lookup calls (lib/rate-limit.ts)
+-- One row per counted request; rows older than their window are removed as the key is checked again.
+create table if not exists public.rate_limit_hits (
+    id bigint generated always as identity primary key,
+    scope text not null,
+    key text not null,
+    created_at timestamptz not null default timezone('utc', now())
+);
+
+create index if not exists rate_limit_hits_key_idx
+  on public.rate_limit_hits (scope, key, created_at desc);
+
+alter table public.rate_limit_hits enable row level security;
+
+create policy "Allow service role rate limit hits"
+  on public.rate_limit_hits
+  for all
+  using (auth.role() = 'service_role');
+
+-- Check every window in `checks` ([{ scope, key, limit, window_seconds }]) and count the request
+-- in all of them, or in none when one is full. Returns the full windows with the time a slot frees up.
+create or replace function public.consume_rate_limits(checks jsonb)
+returns table (limited_scope text, retry_at timestamptz)
+language plpgsql
+as $$
+declare
+  item jsonb;
+  item_window interval;
+  item_limit integer;
+  hits integer;
+  is_limited boolean := false;
+begin
+  -- Concurrent requests for the same keys wait here, so two lookups cannot both take the last slot
+  for item in
+    select value from jsonb_array_elements(checks) order by value->>'scope', value->>'key'
+  loop
+    perform pg_advisory_xact_lock(hashtext((item->>'scope') || ':' || (item->>'key')));
+  end loop;
+
+  for item in select value from jsonb_array_elements(checks)
+  loop
+    item_window := make_interval(secs => (item->>'window_seconds')::integer);
+    item_limit := (item->>'limit')::integer;
+
+    delete from public.rate_limit_hits h
+      where h.scope = item->>'scope'
+        and h.key = item->>'key'
+        and h.created_at <= now() - item_window;
+
+    select count(*) into hits
+      from public.rate_limit_hits h
+      where h.scope = item->>'scope' and h.key = item->>'key';
+
+    if hits >= item_limit then
+      is_limited := true;
+      limited_scope := item->>'scope';
+      -- A slot frees up when the hit that keeps the window full gets older than the window
+      select h.created_at + item_window into retry_at
+        from public.rate_limit_hits h
+        where h.scope = item->>'scope' and h.key = item->>'key'
+        order by h.created_at asc
+        offset greatest(hits - item_limit, 0)
+        limit 1;
+      return next;
+    end if;
+  end loop;
+
+  if not is_limited then
+    insert into public.rate_limit_hits (scope, key)
+      select value->>'scope', value->>'key' from jsonb_array_elements(checks);
+  end if;
+end;
+$$;
+
+comment on table public.rate_limit_hits is 'Requests counted by consume_rate_limits; keys are HMACs or normalized numbers, never raw IPs';
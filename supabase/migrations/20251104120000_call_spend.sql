@@ -0,0 +1,84 @@
+-- Call duration and billed cost per attempt, with daily and monthly spend (lib/call-spend.ts)
+alter table public.call_attempts
+  add column if not exists duration_seconds integer,
+  add column if not exists billed_cost numeric(12,4);
+
+comment on column public.call_attempts.duration_seconds is 'Call length reported by the provider in the post-call webhook';
+comment on column public.call_attempts.billed_cost is 'Cost billed by the provider for the call, in its billing units (ElevenLabs credits)';
+
+create table if not exists public.call_spend_daily (
+    day date primary key,
+    billed_calls integer not null default 0,
+    -- Calls over the one-minute target the agent is built for
+    long_calls integer not null default 0,
+    duration_seconds bigint not null default 0,
+    billed_cost numeric(14,4) not null default 0,
+    created_at timestamptz not null default timezone('utc', now()),
+    updated_at timestamptz not null default timezone('utc', now())
+);
+
+drop trigger if exists set_call_spend_daily_updated_at on public.call_spend_daily;
+
+create trigger set_call_spend_daily_updated_at
+before update on public.call_spend_daily
+for each row
+execute procedure public.set_updated_at();
+
+alter table public.call_spend_daily enable row level security;
+
+create policy "Allow service role call spend"
+  on public.call_spend_daily
+  for all
+  using (auth.role() = 'service_role');
+
+-- Adds the change in duration and cost of an attempt to the day it was requested (UTC), in the
+-- same transaction as the write, so a redelivered webhook with the same values adds nothing.
+create or replace function public.record_call_spend()
+returns trigger
+language plpgsql
+as $$
+declare
+  old_duration integer := case when tg_op = 'UPDATE' then old.duration_seconds end;
+  old_cost numeric := case when tg_op = 'UPDATE' then old.billed_cost end;
+  call_delta integer;
+  long_delta integer;
+  duration_delta integer;
+  cost_delta numeric;
+begin
+  call_delta := (new.duration_seconds is not null)::integer - (old_duration is not null)::integer;
+  long_delta := (coalesce(new.duration_seconds, 0) > 60)::integer - (coalesce(old_duration, 0) > 60)::integer;
+  duration_delta := coalesce(new.duration_seconds, 0) - coalesce(old_duration, 0);
+  cost_delta := coalesce(new.billed_cost, 0) - coalesce(old_cost, 0);
+
+  if call_delta = 0 and duration_delta = 0 and cost_delta = 0 then
+    return null;
+  end if;
+
+  insert into public.call_spend_daily (day, billed_calls, long_calls, duration_seconds, billed_cost)
+    values ((new.requested_at at time zone 'utc')::date, call_delta, long_delta, duration_delta, cost_delta)
+    on conflict (day) do update set
+      billed_calls = public.call_spend_daily.billed_calls + excluded.billed_calls,
+      long_calls = public.call_spend_daily.long_calls + excluded.long_calls,
+      duration_seconds = public.call_spend_daily.duration_seconds + excluded.duration_seconds,
+      billed_cost = public.call_spend_daily.billed_cost + excluded.billed_cost;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists record_call_spend on public.call_attempts;
+
+create trigger record_call_spend
+after insert or update of duration_seconds, billed_cost on public.call_attempts
+for each row
+execute procedure public.record_call_spend();
+
+create or replace view public.call_spend_monthly as
+select
+  date_trunc('month', day)::date as month,
+  sum(billed_calls)::integer as billed_calls,
+  sum(long_calls)::integer as long_calls,
+  sum(duration_seconds)::bigint as duration_seconds,
+  sum(billed_cost) as billed_cost
+from public.call_spend_daily
+group by 1;
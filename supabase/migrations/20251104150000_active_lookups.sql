@@ -0,0 +1,20 @@
+-- At most one lookup per number may be calling, so concurrent lookups attach to the running call
+-- instead of dialing the number twice (lib/calls/active-call.ts).
+
+-- Older duplicates from before this guard: keep the newest calling lookup per number.
+update public.phone_lookups as lookups
+set status = 'failed'
+where lookups.status = 'calling'
+  and exists (
+    select 1
+    from public.phone_lookups as newer
+    where newer.normalized = lookups.normalized
+      and newer.status = 'calling'
+      and (newer.created_at, newer.id) > (lookups.created_at, lookups.id)
+  );
+
+create unique index if not exists phone_lookups_active_number_idx
+  on public.phone_lookups (normalized)
+  where status = 'calling';
+
+comment on index public.phone_lookups_active_number_idx is 'One calling lookup per number; a second insert fails with 23505 and attaches to the first';
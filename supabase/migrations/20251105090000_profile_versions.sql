@@ -0,0 +1,84 @@
+-- Every change to a number profile, so earlier identifications survive a new call (lib/supabase/profile-versions.ts)
+create table if not exists public.phone_profile_versions (
+    id uuid primary key default gen_random_uuid(),
+    profile_id uuid not null references public.phone_profiles(id) on delete cascade,
+    normalized text not null,
+    version integer not null,
+    caller_name text not null,
+    summary text,
+    confidence numeric(3,2),
+    call_outcome public.profile_call_outcome not null,
+    tags text[] not null default '{}',
+    aka text[] not null default '{}',
+    source text not null check (source in ('call_attempt', 'manual_edit', 'crowd_report')),
+    -- Call attempt id for calls, the admin for manual edits; empty for crowd reports
+    source_ref text,
+    created_at timestamptz not null default timezone('utc', now())
+);
+
+create unique index if not exists phone_profile_versions_profile_version_idx
+  on public.phone_profile_versions (profile_id, version);
+
+alter table public.phone_profile_versions enable row level security;
+
+create policy "Allow service role profile versions"
+  on public.phone_profile_versions
+  for all
+  using (auth.role() = 'service_role');
+
+-- Snapshot the profile as it is now as the next version, unless nothing tracked changed since the
+-- latest one. Locks the profile row so concurrent writers get consecutive version numbers.
+-- Returns the new version number, or null when no version was added.
+create or replace function public.record_profile_version(p_profile_id uuid, p_source text, p_source_ref text default null)
+returns integer
+language plpgsql
+as $$
+declare
+  profile public.phone_profiles;
+  latest public.phone_profile_versions;
+  next_version integer;
+begin
+  select * into profile from public.phone_profiles where id = p_profile_id for update;
+  if not found then
+    return null;
+  end if;
+
+  select * into latest
+    from public.phone_profile_versions
+    where profile_id = p_profile_id
+    order by version desc
+    limit 1;
+
+  if found
+    and latest.caller_name = profile.caller_name
+    and latest.summary is not distinct from profile.summary
+    and latest.confidence is not distinct from profile.confidence
+    and latest.call_outcome = profile.call_outcome
+    and latest.tags = profile.tags
+    and latest.aka = profile.aka then
+    return null;
+  end if;
+
+  next_version := coalesce(latest.version, 0) + 1;
+
+  insert into public.phone_profile_versions
+    (profile_id, normalized, version, caller_name, summary, confidence, call_outcome, tags, aka, source, source_ref)
+    values (
+      profile.id, profile.normalized, next_version, profile.caller_name, profile.summary, profile.confidence,
+      profile.call_outcome, profile.tags, profile.aka, p_source, p_source_ref
+    );
+
+  return next_version;
+end;
+$$;
+
+-- Existing profiles start their history with what they show today
+insert into public.phone_profile_versions
+  (profile_id, normalized, version, caller_name, summary, confidence, call_outcome, tags, aka, source, created_at)
+select
+  id, normalized, 1, caller_name, summary, confidence, call_outcome,
+  tags, aka, 'call_attempt', coalesce(last_checked, updated_at)
+from public.phone_profiles
+on conflict (profile_id, version) do nothing;
+
+comment on table public.phone_profile_versions is 'History of phone_profiles: one row per change with its source';
@@ -0,0 +1,35 @@
+-- Pages to revalidate after their data changed, retried until Next.js accepted them (lib/revalidation.ts)
+create table if not exists public.revalidation_jobs (
+    id uuid primary key default gen_random_uuid(),
+    path text not null,
+    reason text not null,
+    status text not null default 'pending' check (status in ('pending', 'done', 'failed')),
+    attempts integer not null default 0,
+    next_attempt_at timestamptz not null default timezone('utc', now()),
+    last_error text,
+    completed_at timestamptz,
+    created_at timestamptz not null default timezone('utc', now()),
+    updated_at timestamptz not null default timezone('utc', now())
+);
+
+-- One pending job per path: changes that arrive before it ran are covered by the same revalidation
+create unique index if not exists revalidation_jobs_pending_path_idx
+  on public.revalidation_jobs (path)
+  where status = 'pending';
+create index if not exists revalidation_jobs_due_idx
+  on public.revalidation_jobs (next_attempt_at)
+  where status = 'pending';
+
+drop trigger if exists set_revalidation_jobs_updated_at on public.revalidation_jobs;
+
+create trigger set_revalidation_jobs_updated_at
+before update on public.revalidation_jobs
+for each row
+execute procedure public.set_updated_at();
+
+alter table public.revalidation_jobs enable row level security;
+
+create policy "Allow service role revalidation jobs"
+  on public.revalidation_jobs
+  for all
+  using (auth.role() = 'service_role');
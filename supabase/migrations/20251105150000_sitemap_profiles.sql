@@ -0,0 +1,38 @@
+-- Profiles listed in the sitemaps (lib/sitemap.ts): visible, not suppressed and actually identified.
+-- The confidence threshold is applied by the callers so it can change without a migration.
+create or replace view public.sitemap_phone_profiles as
+select p.normalized, p.confidence, p.updated_at
+from public.phone_profiles p
+where p.hidden_at is null
+  and p.call_outcome <> 'pending'
+  and p.caller_name <> 'Onbekende beller'
+  and not exists (
+    select 1 from public.number_suppressions s where s.normalized = p.normalized
+  );
+
+-- Lets both queries below walk the profiles in number order without touching the table
+create index if not exists phone_profiles_sitemap_idx
+  on public.phone_profiles (normalized)
+  include (confidence, updated_at, caller_name)
+  where hidden_at is null and call_outcome <> 'pending';
+
+-- Split the sitemap profiles into pages of `page_size` numbers in number order. Each page starts at
+-- `first_normalized`, so a page is read with a range scan instead of an offset.
+create or replace function public.sitemap_profile_pages(page_size integer, min_confidence numeric)
+returns table (page integer, first_normalized text, profiles integer, last_modified timestamptz)
+language sql
+stable
+as $$
+  select
+    (numbered.position / page_size)::integer + 1 as page,
+    min(numbered.normalized) as first_normalized,
+    count(*)::integer as profiles,
+    max(numbered.updated_at) as last_modified
+  from (
+    select normalized, updated_at, row_number() over (order by normalized) - 1 as position
+    from public.sitemap_phone_profiles
+    where confidence >= min_confidence
+  ) as numbered
+  group by 1
+  order by 1;
+$$;
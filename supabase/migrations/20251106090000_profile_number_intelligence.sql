@@ -0,0 +1,16 @@
+-- What the number itself tells about a caller, derived offline from libphonenumber (lib/number-intelligence.ts)
+alter table public.phone_profiles
+  add column if not exists number_type text,
+  add column if not exists region_code text,
+  add column if not exists geo_area text,
+  add column if not exists time_zone text;
+
+-- Existing profiles are filled in on their next write; until then the profile page derives the values itself
+create index if not exists phone_profiles_number_type_idx
+  on public.phone_profiles (number_type)
+  where hidden_at is null;
+
+comment on column public.phone_profiles.number_type is 'mobile, fixed_line, voip, toll_free, premium_rate, shared_cost, ... (libphonenumber number type)';
+comment on column public.phone_profiles.region_code is 'ISO 3166 country of the number; null for international service numbers';
+comment on column public.phone_profiles.geo_area is 'Place of a Dutch geographic area code';
+comment on column public.phone_profiles.time_zone is 'IANA time zone, only for countries with a single time zone';
@@ -0,0 +1,22 @@
+-- Count a guess against a removal request's code in one statement, so parallel guesses cannot
+-- share an attempt (lib/supabase/suppressions.ts, claimVerificationAttempt).
+-- Returns the attempts used including this one, or null when the limit was already reached.
+create or replace function public.claim_verification_attempt(p_request_id uuid, p_max_attempts integer)
+returns integer
+language sql
+as $$
+  update public.removal_requests
+    set verification_attempts = verification_attempts + 1
+    where id = p_request_id
+      and status = 'pending'
+      and verification_attempts < p_max_attempts
+    returning verification_attempts;
+$$;
+
+-- Looking up open codes per number before sending a new one (hasActiveVerificationCode)
+create index if not exists removal_requests_pending_code_idx
+  on public.removal_requests (normalized, code_expires_at)
+  where status = 'pending';
+
+-- E-mail verified requests wait for an admin; this marks them in the review queue
+comment on column public.removal_requests.verified_at is 'When the code was confirmed. SMS and voice approve the request right away; e-mail verified requests stay pending for admin review';
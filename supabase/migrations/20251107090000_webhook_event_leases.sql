@@ -0,0 +1,26 @@
+-- Processing lease for webhook events, so a delivery stuck in 'received' (the function died while
+-- processing it) is picked up by the provider's next redelivery instead of being acknowledged forever
+alter table public.webhook_events
+  add column if not exists locked_until timestamptz;
+
+-- Claim an event for processing in one statement (lib/supabase/webhook-events.ts, claimWebhookEvent).
+-- Only events in one of p_statuses (by default the unfinished 'received' and 'failed') whose lease
+-- is free or has expired can be claimed; admin replays also pass finished statuses. Returns no row
+-- when the event is in another status or someone else holds its lease.
+create or replace function public.claim_webhook_event(
+  p_event_id uuid,
+  p_lease_seconds integer,
+  p_statuses text[] default array['received', 'failed']
+)
+returns setof public.webhook_events
+language sql
+as $$
+  update public.webhook_events
+    set locked_until = now() + make_interval(secs => p_lease_seconds)
+    where id = p_event_id
+      and status = any (p_statuses)
+      and (locked_until is null or locked_until <= now())
+    returning *;
+$$;
+
+comment on column public.webhook_events.locked_until is 'Processing lease; a received event whose lease expired is processed again on redelivery';
@@ -0,0 +1,38 @@
+-- Profile writes (calls, votes and recounts, manual edits, hiding) bump the recent lookups of the
+-- number, so phone_lookups.version also changes when only the profile shown with a lookup did and
+-- ?since=<version> or the ETag no longer report a stale profile as unchanged.
+-- Lookups are matched on the number: the status endpoint falls back to the number's profile
+-- before lookup.profile_id is set. Only the 20 newest lookups are bumped (the same window as
+-- notifyProfileLookups in lib/supabase/lookups.ts), so a vote on a popular number rewrites and
+-- locks a bounded set of rows. Older lookups keep their version and show the profile as it was
+-- when they were last written.
+create or replace function public.bump_lookup_versions_from_profile()
+returns trigger
+language plpgsql
+as $$
+begin
+  update public.phone_lookups
+    set version = version + 1
+    where id in (
+      select id
+        from public.phone_lookups
+        where normalized = new.normalized
+        order by created_at desc
+        limit 20
+    );
+  return null;
+end;
+$$;
+
+drop trigger if exists bump_lookup_versions_on_profile on public.phone_profiles;
+
+create trigger bump_lookup_versions_on_profile
+after insert or update on public.phone_profiles
+for each row
+execute procedure public.bump_lookup_versions_from_profile();
+
+-- Newest lookups of a number, for the trigger above and notifyProfileLookups
+create index if not exists phone_lookups_normalized_created_idx
+  on public.phone_lookups (normalized, created_at desc);
+
+comment on column public.phone_lookups.version is 'Bumped on every write to the lookup or one of its call attempts, and on profile writes for the 20 newest lookups of the number; clients poll with ?since=<version>';
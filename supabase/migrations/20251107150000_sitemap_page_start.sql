@@ -0,0 +1,16 @@
+-- First number of one sitemap page (lib/sitemap.ts, buildProfileSitemap), so serving
+-- /sitemaps/profiles-N.xml no longer numbers every profile with sitemap_profile_pages.
+-- An index-only scan over phone_profiles_sitemap_idx that skips (page - 1) * page_size rows;
+-- returns no row when the page does not exist.
+create or replace function public.sitemap_profile_page_start(page integer, page_size integer, min_confidence numeric)
+returns text
+language sql
+stable
+as $$
+  select normalized
+  from public.sitemap_phone_profiles
+  where confidence >= min_confidence
+  order by normalized
+  offset (greatest(page, 1) - 1) * page_size
+  limit 1;
+$$;
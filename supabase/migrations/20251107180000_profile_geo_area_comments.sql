@@ -0,0 +1,5 @@
+-- Area and time zone now come from libphonenumber's geocoding and time zone data
+-- (lib/number-intelligence) for every country, rather than from hand-written tables.
+-- Existing rows pick up the new values on their next profile write.
+comment on column public.phone_profiles.geo_area is 'Place or region of a geographic number, from the libphonenumber geocoder (Dutch names where available)';
+comment on column public.phone_profiles.time_zone is 'IANA time zone, only when the number maps to a single one';